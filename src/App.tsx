@@ -1,10 +1,23 @@
 import { useEffect } from 'react';
 import Canvas from './components/Canvas/Canvas';
 import ControlsPanel from './components/ControlsPanel/ControlsPanel';
-import { useStore } from './store/useStore';
+import { EXPERIMENT_KEYS, useStore } from './store/useStore';
+import { decodeExperiment, encodeExperiment } from './utils/permalink';
 import './styles/global.scss';
 import './App.css';
 
+// Wait for a pause in changes before rewriting the URL
+const HASH_UPDATE_DELAY = 300;
+
+// Load the experiment in the URL hash; false when there is none
+const loadFromHash = () => {
+  const { getExperiment, loadExperiment } = useStore.getState();
+  const experiment = decodeExperiment(window.location.hash, getExperiment());
+  if (!experiment) return false;
+  loadExperiment(experiment);
+  return true;
+};
+
 function App() {
   const { updateCanvasSize, setPresetRule, initializePattern } = useStore();
 
@@ -17,13 +30,44 @@ function App() {
     handleResize();
     window.addEventListener('resize', handleResize);
 
-    // Initialize automaton with Rule 30 and single cell
-    setPresetRule(30);
-    initializePattern('single');
+    // Restore a shared run, or start with Rule 30 and a single cell
+    if (!loadFromHash()) {
+      setPresetRule(30);
+      initializePattern('single');
+    }
 
     return () => window.removeEventListener('resize', handleResize);
   }, [updateCanvasSize, setPresetRule, initializePattern]);
 
+  // Keep the URL hash describing the current experiment
+  useEffect(() => {
+    let timer: number | undefined;
+    let hash = window.location.hash.replace(/^#/, '');
+
+    const unsubscribe = useStore.subscribe((state, prev) => {
+      if (!EXPERIMENT_KEYS.some((key) => state[key] !== prev[key])) return;
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        hash = encodeExperiment(useStore.getState().getExperiment());
+        window.history.replaceState(null, '', `#${hash}`);
+      }, HASH_UPDATE_DELAY);
+    });
+
+    // Links pasted into the address bar of an open tab
+    const handleHashChange = () => {
+      if (window.location.hash.replace(/^#/, '') === hash) return;
+      window.clearTimeout(timer);
+      loadFromHash();
+    };
+    window.addEventListener('hashchange', handleHashChange);
+
+    return () => {
+      unsubscribe();
+      window.clearTimeout(timer);
+      window.removeEventListener('hashchange', handleHashChange);
+    };
+  }, []);
+
   return (
     <div className="app">
       <ControlsPanel />
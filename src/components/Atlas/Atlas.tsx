@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { AtlasWorkerClient } from '../../engine/AtlasWorkerClient';
+import { Atlas as AtlasData, ELEMENTARY_RULE_COUNT, THUMBNAIL_GENERATIONS, THUMBNAIL_WIDTH } from '../../engine/atlas';
+import { initialRow } from '../../utils/initialCondition';
+import { parseHexColor } from '../../utils/palette';
+import { RuleSpec } from '../../utils/rules';
+import { equivalenceClass } from '../../utils/symmetry';
+import './Atlas.scss';
+
+const ELEMENTARY: RuleSpec = { radius: 1, states: 2, kind: 'general' };
+
+const RULES = Array.from({ length: ELEMENTARY_RULE_COUNT }, (_, rule) => {
+  const members = equivalenceClass(BigInt(rule), ELEMENTARY).map(Number);
+  return { rule, members, representative: members[0] === rule };
+});
+
+interface ThumbnailProps {
+  cells: Uint8Array;
+  colors: [number, number, number][];
+}
+
+const Thumbnail: React.FC<ThumbnailProps> = ({ cells, colors }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    const image = context.createImageData(THUMBNAIL_WIDTH, THUMBNAIL_GENERATIONS);
+    cells.forEach((cell, i) => {
+      const [r, g, b] = colors[cell];
+      image.data.set([r, g, b, 255], i * 4);
+    });
+    context.putImageData(image, 0, 0);
+  }, [cells, colors]);
+
+  return <canvas ref={canvasRef} width={THUMBNAIL_WIDTH} height={THUMBNAIL_GENERATIONS} />;
+};
+
+const Atlas: React.FC = () => {
+  const {
+    rule,
+    radius,
+    states,
+    ruleKind,
+    boundary,
+    palette,
+    latticeWidth,
+    lastInitPattern,
+    lastInitRandom,
+    lastInitRow,
+    setOverlay
+  } = useStore();
+  const [atlas, setAtlas] = useState<AtlasData | null>(null);
+  const [onePerClass, setOnePerClass] = useState(false);
+  const [hideTrivial, setHideTrivial] = useState(false);
+  const clientRef = useRef<AtlasWorkerClient | null>(null);
+
+  useEffect(() => {
+    const client = new AtlasWorkerClient();
+    client.onAtlas = setAtlas;
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  // Rerun whenever the initial condition or the boundary changes
+  useEffect(() => {
+    const { getExperiment } = useStore.getState();
+    clientRef.current?.request(initialRow(getExperiment().init, latticeWidth, states), boundary);
+  }, [lastInitPattern, lastInitRandom, lastInitRow, latticeWidth, states, boundary]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOverlay(null);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [setOverlay]);
+
+  const colors = useMemo(
+    () => palette.slice(0, 2).map((color) => parseHexColor(color).map((c) => Math.round(c * 255)) as [number, number, number]),
+    [palette]
+  );
+
+  // One view per rule, kept across renders so thumbnails only redraw for a new atlas
+  const thumbnails = useMemo(() => {
+    const size = THUMBNAIL_WIDTH * THUMBNAIL_GENERATIONS;
+    return atlas && RULES.map(({ rule }) => atlas.cells.subarray(rule * size, (rule + 1) * size));
+  }, [atlas]);
+
+  const current = radius === 1 && states === 2 && ruleKind === 'general' ? Number(rule) : null;
+  const shown = RULES.filter(
+    ({ rule, representative }) =>
+      (!onePerClass || representative) && (!hideTrivial || !atlas || atlas.trivial[rule] === 0)
+  );
+
+  const load = (ruleNumber: number) => {
+    const { setPresetRule, resetGeneration } = useStore.getState();
+    setPresetRule(ruleNumber, ELEMENTARY);
+    // Start over so the run matches its thumbnail
+    resetGeneration();
+    setOverlay(null);
+  };
+
+  return (
+    <div className="atlas">
+      <div className="atlas-header">
+        <h2>Rule Atlas</h2>
+        <label>
+          <input type="checkbox" checked={onePerClass} onChange={(e) => setOnePerClass(e.target.checked)} />
+          One per equivalence class
+        </label>
+        <label title="Rules that die out, turn uniform or freeze from this initial condition">
+          <input type="checkbox" checked={hideTrivial} onChange={(e) => setHideTrivial(e.target.checked)} />
+          Hide trivial rules
+        </label>
+        <span className="atlas-count">
+          {atlas ? `${shown.length} of ${ELEMENTARY_RULE_COUNT} rules` : 'Computing…'}
+        </span>
+        <button onClick={() => setOverlay(null)} title="Close (Esc)">
+          Close
+        </button>
+      </div>
+      <div className="atlas-grid">
+        {thumbnails &&
+          shown.map(({ rule, members }) => (
+            <button
+              key={rule}
+              className={`atlas-tile ${rule === current ? 'active' : ''}`}
+              onClick={() => load(rule)}
+              title={members.length > 1 ? `Equivalent to rules ${members.filter((m) => m !== rule).join(', ')}` : 'Its own mirror and complement'}
+            >
+              <Thumbnail cells={thumbnails[rule]} colors={colors} />
+              <span>Rule {rule}</span>
+            </button>
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default Atlas;
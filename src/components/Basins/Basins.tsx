@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { BasinsWorkerClient } from '../../engine/BasinsWorkerClient';
+import { BasinGraph, maxRingSize, stateRow } from '../../engine/basins';
+import { layoutBasin } from '../../utils/basinLayout';
+import { MIN_LATTICE_WIDTH } from '../../utils/lattice';
+import { formatRule } from '../../utils/rules';
+import './Basins.scss';
+
+// Basins listed beyond this many are only counted
+const MAX_LISTED = 200;
+// How close, in pixels, a click must land to pick a state
+const PICK_DISTANCE = 8;
+const EDGE_COLOR = 'rgba(128, 128, 128, 0.5)';
+const CYCLE_COLOR = '#6366f1';
+const STATE_COLOR = '#9ca3af';
+const GARDEN_OF_EDEN_COLOR = '#10b981';
+
+// Unit circle to canvas pixels, leaving room for the outermost dots
+const toPixel = (value: number, frameSize: number) => frameSize / 2 + value * (frameSize / 2 - PICK_DISTANCE);
+
+const Basins: React.FC = () => {
+  const { rule, radius, states, ruleKind, latticeWidth, setOverlay } = useStore();
+  const largest = maxRingSize(states);
+  const [ringSize, setRingSize] = useState(Math.max(MIN_LATTICE_WIDTH, Math.min(latticeWidth, largest, 12)));
+  const [graph, setGraph] = useState<BasinGraph | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const clientRef = useRef<BasinsWorkerClient | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [frameSize, setFrameSize] = useState(0);
+  const supported = largest >= MIN_LATTICE_WIDTH;
+  const size = Math.min(ringSize, largest);
+
+  useEffect(() => {
+    const client = new BasinsWorkerClient();
+    client.onGraph = (next) => {
+      setGraph(next);
+      setSelected(0);
+    };
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!supported) return;
+    setGraph(null);
+    clientRef.current?.request({ rule, radius, states, ruleKind }, size);
+  }, [rule, radius, states, ruleKind, size, supported]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOverlay(null);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [setOverlay]);
+
+  // The drawing fills the largest square that fits
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    const observer = new ResizeObserver(() => setFrameSize(Math.min(frame.clientWidth, frame.clientHeight)));
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, []);
+
+  const layout = useMemo(
+    () => (graph && selected < graph.basins.length ? layoutBasin(graph, selected) : null),
+    [graph, selected]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !layout || frameSize === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = frameSize * ratio;
+    canvas.height = frameSize * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, frameSize, frameSize);
+
+    const { x, y, next, gardenOfEden, onCycle } = layout;
+    const count = x.length;
+    const px = (i: number) => toPixel(x[i], frameSize);
+    const py = (i: number) => toPixel(y[i], frameSize);
+
+    context.lineWidth = 1;
+    context.strokeStyle = EDGE_COLOR;
+    context.beginPath();
+    for (let i = 0; i < count; i++) {
+      if (onCycle[i]) continue;
+      context.moveTo(px(i), py(i));
+      context.lineTo(px(next[i]), py(next[i]));
+    }
+    context.stroke();
+
+    context.lineWidth = 2;
+    context.strokeStyle = CYCLE_COLOR;
+    context.beginPath();
+    for (let i = 0; i < count && onCycle[i]; i++) {
+      context.moveTo(px(i), py(i));
+      context.lineTo(px(next[i]), py(next[i]));
+    }
+    context.stroke();
+
+    // Dots shrink as basins grow so the trees stay legible
+    const dot = Math.max(0.5, Math.min(4, 200 / Math.sqrt(count)));
+    for (let i = 0; i < count; i++) {
+      context.fillStyle = onCycle[i] ? CYCLE_COLOR : gardenOfEden[i] ? GARDEN_OF_EDEN_COLOR : STATE_COLOR;
+      context.fillRect(px(i) - dot, py(i) - dot, 2 * dot, 2 * dot);
+    }
+  }, [layout, frameSize]);
+
+  const pick = (e: React.MouseEvent<HTMLCanvasElement>): number | null => {
+    if (!layout) return null;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const mx = e.clientX - bounds.left;
+    const my = e.clientY - bounds.top;
+    let best: number | null = null;
+    let bestDistance = PICK_DISTANCE * PICK_DISTANCE;
+    for (let i = 0; i < layout.x.length; i++) {
+      const dx = toPixel(layout.x[i], frameSize) - mx;
+      const dy = toPixel(layout.y[i], frameSize) - my;
+      const distance = dx * dx + dy * dy;
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    return best === null ? null : layout.nodes[best];
+  };
+
+  const load = (state: number) => {
+    if (!graph) return;
+    const { setIsPlaying, setInitialRow } = useStore.getState();
+    setIsPlaying(false);
+    setInitialRow(stateRow(state, graph.ringSize, graph.states));
+    setOverlay(null);
+  };
+
+  const total = graph ? graph.successor.length : 0;
+  const gardens = graph ? graph.basins.reduce((sum, basin) => sum + basin.gardenOfEden, 0) : 0;
+  const percent = (count: number) => `${((100 * count) / total).toFixed(count === total ? 0 : 1)}%`;
+  const hoveredRow = hovered !== null && graph ? stateRow(hovered, graph.ringSize, graph.states).join('') : null;
+
+  return (
+    <div className="basins">
+      <div className="basins-header">
+        <h2>Basins of Attraction</h2>
+        <label>
+          Ring:
+          <input
+            type="number"
+            min={MIN_LATTICE_WIDTH}
+            max={largest}
+            value={size}
+            disabled={!supported}
+            onChange={(e) => {
+              const value = Math.floor(Number(e.target.value));
+              if (Number.isFinite(value)) setRingSize(Math.max(MIN_LATTICE_WIDTH, Math.min(largest, value)));
+            }}
+          />
+          cells
+        </label>
+        <span className="basins-summary">
+          {!supported
+            ? `Rules with ${states} states have too many configurations to enumerate`
+            : graph
+              ? `Rule ${formatRule(rule, { radius, states, kind: ruleKind })}: ${total} states, ` +
+                `${graph.basins.length} attractors, ${gardens} Gardens of Eden (${percent(gardens)})`
+              : 'Computing…'}
+        </span>
+        <button onClick={() => setOverlay(null)} title="Close (Esc)">
+          Close
+        </button>
+      </div>
+      <div className="basins-body">
+        <div className="basins-list">
+          <table>
+            <thead>
+              <tr>
+                <th>Period</th>
+                <th>Size</th>
+                <th title="Gardens of Eden">GoE</th>
+                <th title="Longest transient">Depth</th>
+              </tr>
+            </thead>
+            <tbody>
+              {graph?.basins.slice(0, MAX_LISTED).map((basin, i) => (
+                <tr key={i} className={i === selected ? 'active' : ''} onClick={() => setSelected(i)}>
+                  <td>{basin.attractor.length}</td>
+                  <td title={percent(basin.size)}>{basin.size}</td>
+                  <td>{basin.gardenOfEden}</td>
+                  <td>{basin.maxTransient}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {graph && graph.basins.length > MAX_LISTED && (
+            <p className="hint">…and {graph.basins.length - MAX_LISTED} smaller basins</p>
+          )}
+        </div>
+        <div className="basins-graph">
+          <div ref={frameRef} className="basins-frame">
+            <canvas
+              ref={canvasRef}
+              style={{ width: frameSize, height: frameSize }}
+              onMouseMove={(e) => setHovered(pick(e))}
+              onMouseLeave={() => setHovered(null)}
+              onClick={(e) => {
+                const state = pick(e);
+                if (state !== null) load(state);
+              }}
+            />
+          </div>
+          <p className="hint">
+            {hoveredRow !== null
+              ? `State ${hovered}: ${hoveredRow}`
+              : 'Attractor cycles in blue, Gardens of Eden in green. Click a state to start from it.'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Basins;
@@ -1,21 +1,54 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useStore } from '../../store/useStore';
-import { BaseRenderer } from '../../renderers/BaseRenderer';
+import { BaseRenderer, CellState } from '../../renderers/BaseRenderer';
 import { createRenderer } from '../../renderers/RendererFactory';
+import { cellAt, screenLayout } from '../../renderers/geometry';
+import { BrushStroke, startStroke, strokeCells } from '../../utils/brush';
+import { readSessionFile } from '../../utils/session';
+import { SimulationWorkerClient } from '../../engine/SimulationWorkerClient';
+import Timeline from './Timeline';
+import Atlas from '../Atlas/Atlas';
+import Basins from '../Basins/Basins';
+import Statistics from '../Statistics/Statistics';
 import './Canvas.scss';
 
+// Zoom factor per wheel delta unit
+const WHEEL_ZOOM_RATE = 0.0015;
+// How long a rejected drop stays on screen
+const DROP_ERROR_MS = 4000;
+// Thin rows are easier to paint with a taller target around them
+const MIN_PAINT_TARGET = 8;
+
+// What the pointer handlers need to know about the last frame drawn
+interface DrawnFrame {
+  viewport: CellState['viewport'];
+  // Row index of the current generation; null while scrolled back
+  currentRow: number | null;
+  // Rows on screen, oldest first, and the generation of the last one
+  rows: Uint8Array[];
+  generation: number;
+}
+
 export function Canvas() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<BaseRenderer | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<DrawnFrame | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [dropError, setDropError] = useState<string | null>(null);
 
   const {
     cells,
     previousGenerations,
     generation,
     rule,
+    radius,
+    states,
+    ruleKind,
+    boundary,
+    palette,
     isPlaying,
-    cellSize,
+    viewCellSize,
     cellMargin,
     renderWidth,
     renderMargin,
@@ -23,8 +56,30 @@ export function Canvas() {
     step,
     maxVisibleGenerations,
     activeRenderer,
-    maxCells
+    latticeWidth,
+    viewMode,
+    rowSize,
+    colormap,
+    viewTransform,
+    historyStart,
+    scrollback,
+    getHistoryRows,
+    overlay,
+    showStatistics
   } = useStore();
+  // When scrolled back, show rows from the history instead of the live ones
+  const scrolled = useMemo(() => {
+    if (scrollback === null) return null;
+    const rows = getHistoryRows(Math.max(historyStart, scrollback - maxVisibleGenerations), scrollback + 1);
+    if (rows.length === 0) return null;
+    return { cells: rows[rows.length - 1], previousGenerations: rows.slice(0, -1), generation: scrollback };
+  }, [scrollback, historyStart, maxVisibleGenerations, getHistoryRows]);
+  const view = scrolled ?? { cells, previousGenerations, generation };
+
+  const density = useMemo(
+    () => (viewMode === 'density' ? { rowSize, colormap } : null),
+    [viewMode, rowSize, colormap]
+  );
 
   // Initialize renderer when renderer type changes
   useEffect(() => {
@@ -66,9 +121,9 @@ export function Canvas() {
         previousGens: previousGenerations.length,
         generation,
         viewport: {
-          cellSize,
+          cellSize: viewCellSize,
           cellMargin,
-          maxCells,
+          latticeWidth,
           renderWidth,
           renderMargin,
           maxVisibleGenerations
@@ -85,16 +140,23 @@ export function Canvas() {
       const viewport = {
         width: canvasRef.current.width,
         height: canvasRef.current.height,
-        cellSize,
+        cellSize: viewCellSize,
         cellMargin,
         renderMargin,
-        maxVisibleGenerations
+        maxVisibleGenerations,
+        density,
+        transform: viewTransform
       };
       renderer.render({
-        cells,
-        previousGenerations,
-        generation,
+        cells: view.cells,
+        previousGenerations: view.previousGenerations,
+        generation: view.generation,
         rule,
+        radius,
+        states,
+        ruleKind,
+        boundary,
+        palette,
         viewport
       });
 
@@ -135,23 +197,30 @@ export function Canvas() {
       const viewport = {
         width: canvasRef.current.width,
         height: canvasRef.current.height,
-        cellSize,
+        cellSize: viewCellSize,
         cellMargin,
         renderMargin,
-        maxVisibleGenerations
+        maxVisibleGenerations,
+        density,
+        transform: viewTransform
       };
       renderer.render({
-        cells,
-        previousGenerations,
-        generation,
+        cells: view.cells,
+        previousGenerations: view.previousGenerations,
+        generation: view.generation,
         rule,
+        radius,
+        states,
+        ruleKind,
+        boundary,
+        palette,
         viewport
       });
     };
 
     window.addEventListener('resize', updateCanvasSize);
     return () => window.removeEventListener('resize', updateCanvasSize);
-  }, [activeRenderer, cells, previousGenerations, generation, cellSize, cellMargin, maxCells, renderWidth, renderMargin, maxVisibleGenerations, rule]);
+  }, [activeRenderer, view.cells, view.previousGenerations, view.generation, viewCellSize, cellMargin, latticeWidth, renderWidth, renderMargin, maxVisibleGenerations, density, viewTransform, rule, radius, states, ruleKind, boundary, palette]);
 
   // Handle state updates
   useEffect(() => {
@@ -159,13 +228,13 @@ export function Canvas() {
     if (!renderer) return;
 
     console.log('State update:', {
-      cells: cells.length,
-      previousGens: previousGenerations.length,
-      generation,
+      cells: view.cells.length,
+      previousGens: view.previousGenerations.length,
+      generation: view.generation,
       viewport: {
-        cellSize,
+        cellSize: viewCellSize,
         cellMargin,
-        maxCells,
+        latticeWidth,
         renderWidth,
         renderMargin,
         maxVisibleGenerations
@@ -177,24 +246,162 @@ export function Canvas() {
     const viewport = {
       width: canvasRef.current.width,
       height: canvasRef.current.height,
-      cellSize,
+      cellSize: viewCellSize,
       cellMargin,
       renderMargin,
-      maxVisibleGenerations
+      maxVisibleGenerations,
+      density,
+      transform: viewTransform
     };
     renderer.render({
-      cells,
-      previousGenerations,
-      generation,
+      cells: view.cells,
+      previousGenerations: view.previousGenerations,
+      generation: view.generation,
       rule,
+      radius,
+      states,
+      ruleKind,
+      boundary,
+      palette,
       viewport
     });
-  }, [cells, previousGenerations, generation, cellSize, cellMargin, maxCells, renderWidth, renderMargin, maxVisibleGenerations, rule]);
+    frameRef.current = {
+      viewport,
+      currentRow: scrolled ? null : Math.min(view.previousGenerations.length, maxVisibleGenerations),
+      rows: [...view.previousGenerations.slice(-maxVisibleGenerations), view.cells],
+      generation: view.generation
+    };
+  }, [scrolled, view.cells, view.previousGenerations, view.generation, viewCellSize, cellMargin, latticeWidth, renderWidth, renderMargin, maxVisibleGenerations, density, viewTransform, rule, radius, states, ruleKind, boundary, palette]);
 
-  // Handle animation frame updates
+  // Wheel zooms around the cursor and dragging pans across space and time.
+  // Pressing on the current generation paints it with the brush instead;
+  // holding shift always pans. The wheel listener is registered by hand
+  // since it must not be passive.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const { zoomView, panView, resetView, paintCells, setHoveredRow } = useStore.getState();
+    let dragging: { x: number; y: number } | null = null;
+    let painting: { stroke: BrushStroke; cell: number } | null = null;
+
+    const pointerPosition = (e: MouseEvent) => {
+      const rect = container.getBoundingClientRect();
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    // Cell of the current generation under the pointer, or null when the
+    // pointer is off that row
+    const paintTarget = (e: MouseEvent) => {
+      const frame = frameRef.current;
+      if (!frame || frame.currentRow === null) return null;
+      const { x, y } = pointerPosition(e);
+      const { rowPitch, top } = screenLayout(frame.viewport);
+      const rowTop = top + frame.currentRow * rowPitch;
+      const slack = Math.max(0, (MIN_PAINT_TARGET - rowPitch) / 2);
+      if (y < rowTop - slack || y >= rowTop + rowPitch + slack) return null;
+      const { cell } = cellAt(frame.viewport, x, y);
+      return cell >= 0 && cell < useStore.getState().cells.length ? cell : null;
+    };
+
+    // Publish the row under the pointer, when it changes
+    const hover = (e: MouseEvent) => {
+      const frame = frameRef.current;
+      if (!frame) return;
+      const { x, y } = pointerPosition(e);
+      const { row } = cellAt(frame.viewport, x, y);
+      const cells = row >= 0 && row < frame.rows.length ? frame.rows[row] : null;
+      const hovered = useStore.getState().hoveredRow;
+      if (cells === (hovered?.cells ?? null)) return;
+      setHoveredRow(cells && { generation: frame.generation - (frame.rows.length - 1 - row), cells });
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomView(Math.exp(-e.deltaY * WHEEL_ZOOM_RATE), e.clientX - rect.left, e.clientY - rect.top);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0) return;
+      const cell = e.shiftKey ? null : paintTarget(e);
+      if (cell !== null) {
+        const { brush, cells, states } = useStore.getState();
+        const stroke = startStroke(brush, cells, cell, states);
+        const { first, values } = strokeCells(stroke, stroke.anchor, stroke.anchor + stroke.pattern.length);
+        paintCells(first, values);
+        painting = { stroke, cell };
+      } else {
+        dragging = { x: e.clientX, y: e.clientY };
+      }
+      container.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (painting) {
+        // Follow the pointer along the row, filling any cells it skipped
+        const frame = frameRef.current;
+        if (!frame) return;
+        const { x, y } = pointerPosition(e);
+        // Far off the lattice only the nearest edge matters
+        const cell = Math.max(-1, Math.min(useStore.getState().cells.length, cellAt(frame.viewport, x, y).cell));
+        if (cell === painting.cell) return;
+        const { first, values } = strokeCells(
+          painting.stroke,
+          Math.min(cell, painting.cell + 1),
+          Math.max(cell + 1, painting.cell)
+        );
+        paintCells(first, values);
+        painting.cell = cell;
+        return;
+      }
+      if (!dragging) {
+        container.classList.toggle('paintable', !e.shiftKey && paintTarget(e) !== null);
+        hover(e);
+        return;
+      }
+      panView(e.clientX - dragging.x, e.clientY - dragging.y);
+      dragging = { x: e.clientX, y: e.clientY };
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      dragging = null;
+      painting = null;
+      if (container.hasPointerCapture(e.pointerId)) {
+        container.releasePointerCapture(e.pointerId);
+      }
+    };
+
+    const handlePointerLeave = () => setHoveredRow(null);
+
+    // Double-clicking resets the view, except on the row being painted
+    const handleDoubleClick = (e: MouseEvent) => {
+      if (e.shiftKey || paintTarget(e) === null) resetView();
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('pointerdown', handlePointerDown);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerup', handlePointerUp);
+    container.addEventListener('pointercancel', handlePointerUp);
+    container.addEventListener('pointerleave', handlePointerLeave);
+    container.addEventListener('dblclick', handleDoubleClick);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('pointerdown', handlePointerDown);
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerup', handlePointerUp);
+      container.removeEventListener('pointercancel', handlePointerUp);
+      container.removeEventListener('pointerleave', handlePointerLeave);
+      container.removeEventListener('dblclick', handleDoubleClick);
+    };
+  }, []);
+
+  // Handle animation frame updates. When workers are available the store
+  // plays the simulation in one and this loop is not needed.
   useEffect(() => {
     const renderer = rendererRef.current;
-    if (!renderer || !isPlaying) return;
+    if (!renderer || !isPlaying || SimulationWorkerClient.isSupported()) return;
 
     let lastTime = 0;
     let accumulatedTime = 0;
@@ -225,9 +432,47 @@ export function Canvas() {
     return () => cancelAnimationFrame(animationFrameId);
   }, [isPlaying, speed, step]);
 
+  useEffect(() => {
+    if (!dropError) return;
+    const timer = window.setTimeout(() => setDropError(null), DROP_ERROR_MS);
+    return () => window.clearTimeout(timer);
+  }, [dropError]);
+
+  // Saved sessions can be dropped onto the canvas
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    const { getExperiment, loadSession } = useStore.getState();
+    const result = await readSessionFile(file, getExperiment());
+    if (result.ok) {
+      setDropError(null);
+      loadSession(result.session);
+    } else {
+      setDropError(`${file.name}: ${result.error}`);
+    }
+  };
+
   return (
-    <div ref={containerRef} className="canvas-container">
-      {/* Canvas will be created and managed by the effect */}
+    <div
+      className={`canvas-area ${dragOver ? 'drag-over' : ''}`}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <div ref={containerRef} className="canvas-container">
+        {/* Canvas will be created and managed by the effect */}
+      </div>
+      {dropError && <div className="drop-error">{dropError}</div>}
+      {showStatistics && <Statistics />}
+      <Timeline />
+      {overlay === 'atlas' && <Atlas />}
+      {overlay === 'basins' && <Basins />}
     </div>
   );
 }
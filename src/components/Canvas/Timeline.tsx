@@ -0,0 +1,33 @@
+import React from 'react';
+import { useStore } from '../../store/useStore';
+
+/**
+ * Scrollback through the generation history. Dragging away from the end
+ * freezes the view on an earlier generation while the simulation runs on.
+ */
+const Timeline: React.FC = () => {
+  const { generation, historyStart, scrollback, scrollTo } = useStore();
+  const shown = scrollback ?? generation;
+
+  return (
+    <div className="timeline">
+      <input
+        type="range"
+        min={historyStart}
+        max={generation}
+        value={shown}
+        disabled={generation === historyStart}
+        title="Scroll back through earlier generations"
+        onChange={(e) => scrollTo(Number(e.target.value))}
+      />
+      <span>
+        {shown.toLocaleString()} / {generation.toLocaleString()}
+      </span>
+      <button onClick={() => scrollTo(null)} disabled={scrollback === null}>
+        Live
+      </button>
+    </div>
+  );
+};
+
+export default Timeline;
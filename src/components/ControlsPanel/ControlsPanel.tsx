@@ -1,19 +1,85 @@
 import React from 'react';
 import RulesGrid from './components/RulesGrid';
 import ButtonGroup from './components/ButtonGroup';
+import RuleInput from './components/RuleInput';
+import RuleSymmetry from './components/RuleSymmetry';
+import PaletteEditor from './components/PaletteEditor';
+import BoundaryControls from './components/BoundaryControls';
+import CycleInfo from './components/CycleInfo';
+import StatisticsControls from './components/StatisticsControls';
+import DeBruijnDiagram from './components/DeBruijnDiagram';
+import PreimageControls from './components/PreimageControls';
+import LatticeWidthInput from './components/LatticeWidthInput';
+import RandomControls from './components/RandomControls';
+import CopyLinkButton from './components/CopyLinkButton';
+import BrushControls from './components/BrushControls';
+import PatternInput from './components/PatternInput';
+import RowImport from './components/RowImport';
+import ExportControls from './components/ExportControls';
+import SessionControls from './components/SessionControls';
 import { useStore } from '../../store/useStore';
 import { hasWebGLSupport } from '../../renderers/RendererFactory';
+import { IDENTITY_TRANSFORM, ViewMode } from '../../renderers/geometry';
+import { COLORMAPS, Colormap } from '../../utils/colormap';
+import {
+  MAX_RADIUS,
+  MAX_STATES,
+  MIN_RADIUS,
+  MIN_STATES,
+  RuleSpec,
+  formatRule,
+  gklRule,
+  supportsGeneralRule
+} from '../../utils/rules';
 import './ControlsPanel.scss';
 
+const ELEMENTARY: RuleSpec = { radius: 1, states: 2, kind: 'general' };
+
+const RULE_PRESETS: { label: string; rule: bigint; spec: RuleSpec }[] = [
+  { label: 'Rule 30', rule: 30n, spec: ELEMENTARY },
+  { label: 'Rule 60', rule: 60n, spec: ELEMENTARY },
+  { label: 'Rule 90', rule: 90n, spec: ELEMENTARY },
+  { label: 'Rule 110', rule: 110n, spec: ELEMENTARY },
+  { label: 'Rule 182', rule: 182n, spec: ELEMENTARY },
+  { label: 'GKL', rule: gklRule(), spec: { radius: 3, states: 2, kind: 'general' } },
+];
+
+const VIEW_MODES: { mode: ViewMode; label: string; title: string }[] = [
+  { mode: 'fit', label: 'Fit', title: 'Whole-pixel cells showing the entire lattice' },
+  { mode: 'scale', label: 'Scale', title: 'Stretch the lattice to the full width' },
+  { mode: 'crop', label: 'Crop', title: 'Use the cell size and clip what does not fit' },
+  { mode: 'density', label: 'Density', title: 'Show the average density of the cells under each pixel' },
+];
+
+const range = (min: number, max: number) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+const RADII = range(MIN_RADIUS, MAX_RADIUS);
+const STATE_COUNTS = range(MIN_STATES, MAX_STATES);
+
 const ControlsPanel: React.FC = () => {
   const { 
     rule, 
+    radius,
+    setRadius,
+    states,
+    setStates,
+    ruleKind,
+    setRuleKind,
     cellSize, 
     setCellSize,
+    viewMode,
+    setViewMode,
+    colormap,
+    setColormap,
+    viewTransform,
+    resetView,
+    lastInitPattern,
     speed,
     setSpeed,
-    activeRenderer
+    activeRenderer,
+    overlay,
+    setOverlay
   } = useStore();
+  const spec: RuleSpec = { radius, states, kind: ruleKind };
 
   return (
     <div className="controls-panel">
@@ -22,11 +88,52 @@ const ControlsPanel: React.FC = () => {
       <div className="control-section">
         <h2>Controls</h2>
         <ButtonGroup type="control" />
+        <div className="button-group">
+          <CopyLinkButton />
+        </div>
       </div>
 
       <div className="control-section">
         <h2>Settings</h2>
         <div className="settings-grid">
+          <div className="setting-item">
+            <label htmlFor="latticeWidth">Width:</label>
+            <LatticeWidthInput />
+            <span>cells</span>
+          </div>
+          <div className="button-group view-mode-select">
+            {VIEW_MODES.map(({ mode, label, title }) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={viewMode === mode ? 'active' : ''}
+                title={title}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {viewMode === 'density' && (
+            <div className="setting-item">
+              <label htmlFor="colormap">Colormap:</label>
+              <select
+                id="colormap"
+                value={colormap}
+                onChange={(e) => setColormap(e.target.value as Colormap)}
+              >
+                {COLORMAPS.map((name) => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="button-group">
+            <button
+              onClick={resetView}
+              disabled={viewTransform === IDENTITY_TRANSFORM}
+              title="Undo panning and zooming (or double-click the canvas)"
+            >
+              Reset View
+            </button>
+          </div>
           <div className="setting-item">
             <label htmlFor="cellSize">Cell Size:</label>
             <input
@@ -35,6 +142,7 @@ const ControlsPanel: React.FC = () => {
               min="1"
               max="20"
               value={cellSize}
+              disabled={viewMode !== 'crop'}
               onChange={(e) => setCellSize(Number(e.target.value))}
             />
             <span>{cellSize}px</span>
@@ -55,24 +163,136 @@ const ControlsPanel: React.FC = () => {
       </div>
 
       <div className="control-section">
-        <h2>Rule Configuration <span className="rule-label">Rule: {rule}</span></h2>
+        <h2>
+          Rule Configuration
+          <span className="rule-label" title={formatRule(rule, spec)}>Rule: {formatRule(rule, spec)}</span>
+        </h2>
+        <div className="button-group radius-select">
+          {RADII.map((r) => (
+            <button
+              key={r}
+              onClick={() => setRadius(r)}
+              className={radius === r ? 'active' : ''}
+            >
+              r = {r}
+            </button>
+          ))}
+        </div>
+        <div className="button-group states-select">
+          {STATE_COUNTS.map((k) => (
+            <button
+              key={k}
+              onClick={() => setStates(k)}
+              className={states === k ? 'active' : ''}
+              title={`${k} states`}
+            >
+              k={k}
+            </button>
+          ))}
+        </div>
+        <div className="button-group kind-select">
+          <button
+            onClick={() => setRuleKind('general')}
+            className={ruleKind === 'general' ? 'active' : ''}
+            disabled={!supportsGeneralRule(radius, states)}
+          >
+            General
+          </button>
+          <button
+            onClick={() => setRuleKind('totalistic')}
+            className={ruleKind === 'totalistic' ? 'active' : ''}
+          >
+            Totalistic
+          </button>
+        </div>
+        <RuleInput />
+        <RuleSymmetry />
         <RulesGrid />
         <div className="button-group rule-presets">
-          {[30, 60, 90, 110, 182].map((preset) => (
+          {RULE_PRESETS.map((preset) => (
             <button 
-              key={preset}
-              onClick={() => useStore.getState().setPresetRule(preset)}
-              className={rule === preset ? 'active' : ''}
+              key={preset.label}
+              onClick={() => useStore.getState().setPresetRule(preset.rule, preset.spec)}
+              className={
+                rule === preset.rule &&
+                radius === preset.spec.radius &&
+                states === preset.spec.states &&
+                ruleKind === preset.spec.kind ? 'active' : ''
+              }
             >
-              Rule {preset}
+              {preset.label}
             </button>
           ))}
         </div>
+        <div className="button-group">
+          <button
+            onClick={() => setOverlay(overlay === 'atlas' ? null : 'atlas')}
+            className={overlay === 'atlas' ? 'active' : ''}
+            title="Thumbnails of all 256 elementary rules from the current initial condition"
+          >
+            Rule Atlas…
+          </button>
+          <button
+            onClick={() => setOverlay(overlay === 'basins' ? null : 'basins')}
+            className={overlay === 'basins' ? 'active' : ''}
+            title="State transition graph of every configuration of a small ring"
+          >
+            Basins…
+          </button>
+        </div>
+      </div>
+
+      <div className="control-section">
+        <h2>De Bruijn Diagram</h2>
+        <DeBruijnDiagram />
+      </div>
+
+      <div className="control-section">
+        <h2>Boundary</h2>
+        <BoundaryControls />
+      </div>
+
+      <div className="control-section">
+        <h2>Cycles</h2>
+        <CycleInfo />
+      </div>
+
+      <div className="control-section">
+        <h2>Statistics</h2>
+        <StatisticsControls />
+      </div>
+
+      <div className="control-section">
+        <h2>Preimages</h2>
+        <PreimageControls />
+      </div>
+
+      <div className="control-section">
+        <h2>Colors</h2>
+        <PaletteEditor />
       </div>
 
       <div className="control-section">
         <h2>Initialization</h2>
         <ButtonGroup type="initialization" />
+        <PatternInput />
+        <RowImport />
+        {lastInitPattern === 'random' && <RandomControls />}
+      </div>
+
+      <div className="control-section">
+        <h2>Brush</h2>
+        <BrushControls />
+      </div>
+
+      <div className="control-section">
+        <h2>Session</h2>
+        <SessionControls />
+      </div>
+
+      <div className="control-section">
+        <h2>Export</h2>
+        <ExportControls />
       </div>
 
       <div 
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { animationFrames } from '../../../utils/animation';
+import { encodeGif } from '../../../utils/gif';
+import { encodeApng } from '../../../utils/png';
+
+type AnimationFormat = 'gif' | 'apng';
+
+// Beyond this an in-browser encode takes minutes and the file gets huge
+const MAX_FRAMES = 2000;
+
+interface AnimationExportProps {
+  firstGeneration: number;
+  lastGeneration: number;
+  firstCell: number;
+  lastCell: number;
+  cellSize: number;
+  cellMargin: number;
+  palette: string[];
+  busy: boolean;
+  runExport: (extension: string, encode: () => Promise<Blob>) => void;
+}
+
+const AnimationExport: React.FC<AnimationExportProps> = ({
+  firstGeneration,
+  lastGeneration,
+  firstCell,
+  lastCell,
+  cellSize,
+  cellMargin,
+  palette,
+  busy,
+  runExport
+}) => {
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [visibleRows, setVisibleRows] = useState(100);
+  const [step, setStep] = useState(1);
+  const [fps, setFps] = useState(20);
+  const [loopForever, setLoopForever] = useState(true);
+
+  const frameCount = Math.floor((lastGeneration - firstGeneration) / step) + 1;
+  const pitch = cellSize + cellMargin;
+  const width = (lastCell - firstCell + 1) * pitch;
+  const height = visibleRows * pitch;
+  // GIF stores sizes in 16 bits
+  const tooLarge = format === 'gif' && (width > 0xffff || height > 0xffff);
+
+  const exportAnimation = () =>
+    runExport(format === 'gif' ? 'gif' : 'png', () => {
+      const { rule, radius, states, ruleKind, boundary, getHistoryRows } = useStore.getState();
+      const frames = animationFrames(
+        { firstGeneration, lastGeneration, step, firstCell, lastCell, visibleRows, cellSize, cellMargin },
+        (generation) => getHistoryRows(generation, generation + 1)[0] ?? null,
+        { rule, radius, states, ruleKind, boundary, palette }
+      );
+      const encode = format === 'gif' ? encodeGif : encodeApng;
+      return encode({ ...frames, palette, fps, loops: loopForever ? 0 : 1 });
+    });
+
+  return (
+    <>
+      <div className="setting-item">
+        <label htmlFor="animationFormat">Animation:</label>
+        <select
+          id="animationFormat"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as AnimationFormat)}
+        >
+          <option value="gif">GIF</option>
+          <option value="apng">APNG</option>
+        </select>
+      </div>
+      <div className="setting-item">
+        <label htmlFor="animationRows">Rows shown:</label>
+        <input
+          type="number"
+          id="animationRows"
+          min={1}
+          max={4096}
+          value={visibleRows}
+          onChange={(e) => setVisibleRows(Math.min(4096, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+        />
+      </div>
+      <div className="setting-item">
+        <label htmlFor="animationStep">Gens/frame:</label>
+        <input
+          type="number"
+          id="animationStep"
+          min={1}
+          value={step}
+          onChange={(e) => setStep(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+        />
+      </div>
+      <div className="setting-item">
+        <label htmlFor="animationFps">Frame rate:</label>
+        <input
+          type="range"
+          id="animationFps"
+          min="1"
+          max="50"
+          value={fps}
+          onChange={(e) => setFps(Number(e.target.value))}
+        />
+        <span>{fps} fps</span>
+      </div>
+      <div className="setting-item export-svg-options">
+        <label>
+          <input type="checkbox" checked={loopForever} onChange={(e) => setLoopForever(e.target.checked)} />
+          Loop forever
+        </label>
+      </div>
+      <p className="export-size">
+        {frameCount} frames, {width} × {height} px
+      </p>
+      <div className="button-group">
+        <button onClick={exportAnimation} disabled={busy || tooLarge || frameCount > MAX_FRAMES}>
+          Download {format === 'gif' ? 'GIF' : 'APNG'}
+        </button>
+      </div>
+      {tooLarge && <p className="error">Too large for a GIF; use a smaller cell size, region or row count</p>}
+      {frameCount > MAX_FRAMES && <p className="error">More than {MAX_FRAMES} frames; raise gens/frame or shorten the range</p>}
+    </>
+  );
+};
+
+export default AnimationExport;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { useStore } from '../../../store/useStore';
+import { BoundaryCondition } from '../../../utils/boundary';
+
+const BOUNDARY_PRESETS: { label: string; boundary: BoundaryCondition }[] = [
+  { label: 'Periodic', boundary: { type: 'periodic', left: 0, right: 0 } },
+  { label: 'Fixed 0', boundary: { type: 'fixed', left: 0, right: 0 } },
+  { label: 'Fixed 1', boundary: { type: 'fixed', left: 1, right: 1 } },
+  { label: 'Reflective', boundary: { type: 'reflective', left: 0, right: 0 } },
+  { label: 'Open', boundary: { type: 'open', left: 0, right: 0 } },
+];
+
+const BoundaryControls: React.FC = () => {
+  const { boundary, setBoundary, states } = useStore();
+
+  const isActive = (preset: BoundaryCondition) =>
+    preset.type === boundary.type &&
+    (preset.type !== 'fixed' || (preset.left === boundary.left && preset.right === boundary.right));
+
+  const stateOptions = Array.from({ length: states }, (_, i) => i);
+
+  return (
+    <>
+      <div className="button-group">
+        {BOUNDARY_PRESETS.map(({ label, boundary: preset }) => (
+          <button
+            key={label}
+            onClick={() => setBoundary(preset)}
+            className={isActive(preset) ? 'active' : ''}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {boundary.type === 'fixed' && (
+        <div className="settings-grid boundary-edges">
+          <div className="setting-item">
+            <label htmlFor="boundaryLeft">Left edge:</label>
+            <select
+              id="boundaryLeft"
+              value={boundary.left}
+              onChange={(e) => setBoundary({ ...boundary, left: Number(e.target.value) })}
+            >
+              {stateOptions.map((state) => <option key={state} value={state}>{state}</option>)}
+            </select>
+          </div>
+          <div className="setting-item">
+            <label htmlFor="boundaryRight">Right edge:</label>
+            <select
+              id="boundaryRight"
+              value={boundary.right}
+              onChange={(e) => setBoundary({ ...boundary, right: Number(e.target.value) })}
+            >
+              {stateOptions.map((state) => <option key={state} value={state}>{state}</option>)}
+            </select>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default BoundaryControls;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { MAX_BRUSH_LENGTH, formatBrushPattern, parseBrushPattern } from '../../../utils/brush';
+
+const BrushControls: React.FC = () => {
+  const { brush, setBrush, states } = useStore();
+  const [patternText, setPatternText] = useState(formatBrushPattern(brush.pattern));
+  const [invalid, setInvalid] = useState(false);
+
+  // Keep the field in sync with the stored pattern
+  useEffect(() => {
+    setPatternText(formatBrushPattern(brush.pattern));
+    setInvalid(false);
+  }, [brush.pattern]);
+
+  const commitPattern = () => {
+    const pattern = parseBrushPattern(patternText, states);
+    if (pattern === null) {
+      setInvalid(true);
+      return;
+    }
+    setInvalid(false);
+    setBrush({ pattern });
+  };
+
+  return (
+    <div className="settings-grid brush-options">
+      <div className="button-group">
+        <button
+          onClick={() => setBrush({ mode: 'toggle' })}
+          className={brush.mode === 'toggle' ? 'active' : ''}
+          title="Step the cell under the pointer to its next state"
+        >
+          Toggle
+        </button>
+        <button
+          onClick={() => setBrush({ mode: 'pattern' })}
+          className={brush.mode === 'pattern' ? 'active' : ''}
+          title="Stamp the pattern, repeating it while dragging"
+        >
+          Pattern
+        </button>
+      </div>
+      {brush.mode === 'pattern' && (
+        <div className="setting-item">
+          <label htmlFor="brushPattern">Pattern:</label>
+          <input
+            type="text"
+            id="brushPattern"
+            value={patternText}
+            spellCheck={false}
+            className={invalid ? 'invalid' : ''}
+            title={`Up to ${MAX_BRUSH_LENGTH} states from 0 to ${states - 1}, e.g. 1101`}
+            onChange={(e) => setPatternText(e.target.value)}
+            onBlur={commitPattern}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitPattern();
+            }}
+          />
+        </div>
+      )}
+      <p className="hint">Click or drag on the newest generation to paint it. Hold shift to pan instead.</p>
+    </div>
+  );
+};
+
+export default BrushControls;
@@ -11,6 +11,7 @@ const ButtonGroup: React.FC<ButtonGroupProps> = ({ type }) => {
     setIsPlaying, 
     resetGeneration, 
     initializePattern,
+    rerollRandom,
     lastInitPattern
   } = useStore();
 
@@ -71,7 +72,7 @@ const ButtonGroup: React.FC<ButtonGroupProps> = ({ type }) => {
         Single Cell
       </button>
       <button 
-        onClick={() => initializePattern('random')}
+        onClick={rerollRandom}
         className={lastInitPattern === 'random' ? 'active' : ''}
       >
         Random
@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { encodeExperiment } from '../../../utils/permalink';
+
+const COPIED_MESSAGE_MS = 1500;
+
+const CopyLinkButton: React.FC = () => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), COPIED_MESSAGE_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const copyLink = async () => {
+    const { origin, pathname, search } = window.location;
+    const link = `${origin}${pathname}${search}#${encodeExperiment(useStore.getState().getExperiment())}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      // Clipboard access needs a secure context; let the user copy it by hand
+      window.prompt('Copy this link:', link);
+    }
+  };
+
+  return (
+    <button onClick={copyLink} title="Copy a link that restores this rule, initial row and view">
+      {copied ? 'Copied!' : 'Copy Link'}
+    </button>
+  );
+};
+
+export default CopyLinkButton;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { useStore } from '../../../store/useStore';
+import { MAX_CYCLE_WIDTH } from '../../../engine/CycleDetector';
+
+const CycleInfo: React.FC = () => {
+  const { cycle, generation, boundary, pauseOnCycle, setPauseOnCycle } = useStore();
+
+  let status: string;
+  switch (cycle.state) {
+    case 'searching':
+      status = `No repeat in ${generation - cycle.origin} generations since generation ${cycle.origin}`;
+      break;
+    case 'found':
+      status = `Repeats from generation ${cycle.cycle.start}`;
+      break;
+    case 'exhausted':
+      status = `No repeat in the ${cycle.searched} generations after ${cycle.origin}; reset to search again`;
+      break;
+    case 'unavailable':
+      status = `Only lattices up to ${MAX_CYCLE_WIDTH} cells are tracked`;
+      break;
+  }
+
+  return (
+    <div className="settings-grid cycle-info">
+      {cycle.state === 'found' && (
+        <>
+          <div className="setting-item">
+            <label>Transient:</label>
+            <span>{cycle.cycle.start - cycle.origin} generations</span>
+          </div>
+          <div className="setting-item">
+            <label>Period:</label>
+            <span>{cycle.cycle.period}</span>
+          </div>
+          <div className="setting-item">
+            <label>Shift:</label>
+            <span title="Cells moved per period; negative is to the left">
+              {cycle.cycle.shift === 0
+                ? 'none'
+                : `${Math.abs(cycle.cycle.shift)} ${cycle.cycle.shift < 0 ? 'left' : 'right'}`}
+            </span>
+          </div>
+        </>
+      )}
+      <p className="hint">
+        {status}
+        {boundary.type !== 'periodic' && cycle.state !== 'unavailable' && '. Shifted repeats need a periodic boundary.'}
+      </p>
+      <div className="setting-item cycle-pause">
+        <label>
+          <input type="checkbox" checked={pauseOnCycle} onChange={(e) => setPauseOnCycle(e.target.checked)} />
+          Pause when a cycle is found
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default CycleInfo;
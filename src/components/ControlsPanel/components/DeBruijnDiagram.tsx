@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { deBruijnEdges, rowWalk, windowCount } from '../../../utils/deBruijn';
+
+// Larger diagrams are too dense to read at sidebar width
+const MAX_DIAGRAM_NODES = 16;
+// Drawing coordinates; the SVG scales to fit
+const SIZE = 240;
+const CENTER = SIZE / 2;
+const LAYOUT_RADIUS = 82;
+// Length of self-loops and how far other edges bow away from a straight line
+const LOOP_SIZE = 34;
+const BEND = 0.2;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const along = (from: Point, to: Point, distance: number): Point => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  return { x: from.x + (dx / length) * distance, y: from.y + (dy / length) * distance };
+};
+
+// Path of an edge between node centers, its label position and its end
+const edgeShape = (from: Point, to: Point, nodeRadius: number) => {
+  if (from === to) {
+    // Loop outward, away from the center
+    const angle = Math.atan2(from.y - CENTER, from.x - CENTER);
+    const control = (offset: number) => ({
+      x: from.x + LOOP_SIZE * Math.cos(angle + offset),
+      y: from.y + LOOP_SIZE * Math.sin(angle + offset),
+    });
+    const a = control(0.5);
+    const b = control(-0.5);
+    const start = along(from, a, nodeRadius);
+    const end = along(from, b, nodeRadius);
+    return {
+      path: `M ${start.x} ${start.y} C ${a.x} ${a.y} ${b.x} ${b.y} ${end.x} ${end.y}`,
+      label: { x: from.x + 0.8 * LOOP_SIZE * Math.cos(angle), y: from.y + 0.8 * LOOP_SIZE * Math.sin(angle) },
+    };
+  }
+  // Bow to the right of the direction of travel, so edges both ways apart
+  const control = {
+    x: (from.x + to.x) / 2 - (to.y - from.y) * BEND,
+    y: (from.y + to.y) / 2 + (to.x - from.x) * BEND,
+  };
+  const start = along(from, control, nodeRadius);
+  const end = along(to, control, nodeRadius);
+  return {
+    path: `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`,
+    label: { x: (from.x + to.x) / 4 + control.x / 2, y: (from.y + to.y) / 4 + control.y / 2 },
+  };
+};
+
+const DeBruijnDiagram: React.FC = () => {
+  const { ruleToggles, radius, states, ruleKind, boundary, hoveredRow, toggleRule } = useStore();
+  const [hoveredEdge, setHoveredEdge] = useState<number | null>(null);
+  const nodeCount = windowCount(radius, states);
+  const drawable = nodeCount <= MAX_DIAGRAM_NODES;
+
+  const layout = useMemo(() => {
+    if (!drawable) return null;
+    const nodeRadius = nodeCount <= 4 ? 14 : 10;
+    const nodes = Array.from({ length: nodeCount }, (_, node) => {
+      const angle = -Math.PI / 2 + (2 * Math.PI * node) / nodeCount;
+      return {
+        x: CENTER + LAYOUT_RADIUS * Math.cos(angle),
+        y: CENTER + LAYOUT_RADIUS * Math.sin(angle),
+        label: node.toString(states).padStart(2 * radius, '0'),
+      };
+    });
+    const shapes = Array.from({ length: nodeCount * states }, (_, edge) =>
+      edgeShape(nodes[Math.floor(edge / states)], nodes[edge % nodeCount], nodeRadius)
+    );
+    return { nodeRadius, nodes, shapes };
+  }, [drawable, nodeCount, radius, states]);
+
+  // Rebuilt from the toggles so edits show up immediately
+  const edges = useMemo(
+    () => (drawable ? deBruijnEdges(ruleToggles, radius, states, ruleKind) : []),
+    [drawable, ruleToggles, radius, states, ruleKind]
+  );
+
+  const visits = useMemo(
+    () => (drawable && hoveredRow ? rowWalk(hoveredRow.cells, radius, states, boundary) : null),
+    [drawable, hoveredRow, radius, states, boundary]
+  );
+
+  if (!layout) {
+    return (
+      <p className="rules-grid-note">
+        This rule has {nodeCount} windows, too many to draw. Try radius 1 with up to 4 states or radius 2 with 2.
+      </p>
+    );
+  }
+
+  const mostVisits = visits ? visits.reduce((most, n) => Math.max(most, n), 1) : 1;
+  const visited = visits ? visits.reduce((count, n) => count + (n > 0 ? 1 : 0), 0) : 0;
+  const neighborhood = (edge: number) => edge.toString(states).padStart(2 * radius + 1, '0');
+
+  let hint: string;
+  if (hoveredEdge !== null) {
+    const { output } = edges[hoveredEdge];
+    hint = `${neighborhood(hoveredEdge)} → ${output}${
+      visits ? `, used ${visits[hoveredEdge]} times by generation ${hoveredRow?.generation}` : ''
+    }. Click to change the output.`;
+  } else if (hoveredRow) {
+    hint = `Generation ${hoveredRow.generation} walks ${hoveredRow.cells.length} steps over ${visited} of ${edges.length} edges.`;
+  } else {
+    hint = 'Hover over a row of the canvas to trace its walk. Click an edge to change its output.';
+  }
+
+  return (
+    <div className="debruijn">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`}>
+        <defs>
+          <marker id="debruijn-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="5" markerHeight="5" orient="auto">
+            <path d="M 0 0 L 6 3 L 0 6 z" className="debruijn-arrow" />
+          </marker>
+          <marker
+            id="debruijn-arrow-walked"
+            viewBox="0 0 6 6"
+            refX="5"
+            refY="3"
+            markerWidth="4"
+            markerHeight="4"
+            orient="auto"
+          >
+            <path d="M 0 0 L 6 3 L 0 6 z" className="debruijn-arrow walked" />
+          </marker>
+        </defs>
+        {edges.map((edge, i) => {
+          const { path, label } = layout.shapes[i];
+          const walked = visits !== null && visits[i] > 0;
+          return (
+            <g
+              key={i}
+              className={`debruijn-edge ${walked ? 'walked' : ''} ${hoveredEdge === i ? 'hovered' : ''}`}
+              onMouseEnter={() => setHoveredEdge(i)}
+              onMouseLeave={() => setHoveredEdge(null)}
+              onClick={() => toggleRule(edge.toggle)}
+            >
+              <path d={path} className="debruijn-hit" />
+              <path
+                d={path}
+                className="debruijn-line"
+                strokeWidth={walked ? 1.5 + (3 * visits[i]) / mostVisits : 1}
+                markerEnd={`url(#${walked ? 'debruijn-arrow-walked' : 'debruijn-arrow'})`}
+              />
+              <text x={label.x} y={label.y} className="debruijn-label">
+                {edge.output}
+              </text>
+            </g>
+          );
+        })}
+        {layout.nodes.map((node, i) => (
+          <g key={i} className="debruijn-node">
+            <circle cx={node.x} cy={node.y} r={layout.nodeRadius} />
+            <text x={node.x} y={node.y}>
+              {node.label}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <p className="hint">{hint}</p>
+    </div>
+  );
+};
+
+export default DeBruijnDiagram;
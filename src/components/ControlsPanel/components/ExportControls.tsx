@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { encodePng, pngFits } from '../../../utils/png';
+import { SpacetimeLayout, spacetimeScanlines, spacetimeSize } from '../../../utils/spacetimeImage';
+import { spacetimeSvg } from '../../../utils/svg';
+import { describeExperiment, experimentCaption, exportFileName } from '../../../utils/exportMetadata';
+import { grayscalePalette } from '../../../utils/palette';
+import { downloadBlob } from '../../../utils/download';
+import { DATA_EXTENSIONS, DataFormat, encodeSpacetime } from '../../../utils/spacetimeData';
+import AnimationExport from './AnimationExport';
+
+type ExportPalette = 'screen' | 'grayscale';
+
+// SVG keeps an element per run of cells, so large regions get unwieldy
+const MAX_SVG_CELLS = 1 << 22;
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ id, label, value, min, max, onChange }) => (
+  <div className="setting-item">
+    <label htmlFor={id}>{label}</label>
+    <input
+      type="number"
+      id={id}
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => {
+        const number = Math.floor(Number(e.target.value));
+        if (Number.isFinite(number)) onChange(Math.min(max, Math.max(min, number)));
+      }}
+    />
+  </div>
+);
+
+const ExportControls: React.FC = () => {
+  const { latticeWidth, states, palette, historyStart, generation, cellSize, cellMargin } = useStore();
+  // Starts from the on-screen cell geometry
+  const [layout, setLayout] = useState<SpacetimeLayout>({ cellSize, cellGap: cellMargin, margin: 0 });
+  const [paletteChoice, setPaletteChoice] = useState<ExportPalette>('screen');
+  // Generation range; null follows the full retained history
+  const [range, setRange] = useState<{ first: number; last: number } | null>(null);
+  // Cell range; null is the whole lattice
+  const [cellRange, setCellRange] = useState<{ first: number; last: number } | null>(null);
+  const [svgOptions, setSvgOptions] = useState({ gridLines: false, axes: true, caption: true });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const first = Math.max(historyStart, Math.min(range?.first ?? historyStart, generation));
+  const last = Math.max(first, Math.min(range?.last ?? generation, generation));
+  const rowCount = last - first + 1;
+  const firstCell = Math.min(cellRange?.first ?? 0, latticeWidth - 1);
+  const lastCell = Math.max(firstCell, Math.min(cellRange?.last ?? latticeWidth - 1, latticeWidth - 1));
+  const cellCount = lastCell - firstCell + 1;
+  const size = spacetimeSize(cellCount, rowCount, layout);
+  const tooLarge = !pngFits(size.width, size.height);
+  const tooManyCells = cellCount * rowCount > MAX_SVG_CELLS;
+  const exportPalette = paletteChoice === 'grayscale' ? grayscalePalette(states) : palette.slice(0, states);
+
+  // Row `index` of the region, counted from generation `first`
+  const regionRow = (index: number) => {
+    const row = useStore.getState().getHistoryRows(first + index, first + index + 1)[0] ?? new Uint8Array(latticeWidth);
+    return row.subarray(firstCell, lastCell + 1);
+  };
+
+  const runExport = async (extension: string, encode: () => Promise<Blob> | Blob) => {
+    // The history must hold still while it is read
+    useStore.getState().setIsPlaying(false);
+    setBusy(true);
+    setError(null);
+    try {
+      const blob = await encode();
+      downloadBlob(blob, exportFileName(useStore.getState().getExperiment(), first, last, extension));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportPng = () =>
+    runExport('png', () =>
+      encodePng({
+        ...size,
+        palette: exportPalette,
+        text: describeExperiment(useStore.getState().getExperiment(), first, last),
+        scanline: spacetimeScanlines(cellCount, rowCount, regionRow, layout),
+      })
+    );
+
+  const exportSvg = () =>
+    runExport('svg', () => {
+      const rows = Array.from({ length: rowCount }, (_, i) => regionRow(i));
+      const svg = spacetimeSvg(rows, {
+        ...layout,
+        palette: exportPalette,
+        ...svgOptions,
+        caption: svgOptions.caption ? experimentCaption(useStore.getState().getExperiment(), first, last) : null,
+        firstGeneration: first,
+        firstCell,
+      });
+      return new Blob([svg], { type: 'image/svg+xml' });
+    });
+
+  const exportData = (format: DataFormat) =>
+    runExport(DATA_EXTENSIONS[format], () => encodeSpacetime(format, rowCount, regionRow, states, first));
+
+  return (
+    <div className="settings-grid export-options">
+      <NumberField
+        id="exportCellSize"
+        label="Cell size:"
+        value={layout.cellSize}
+        min={1}
+        max={64}
+        onChange={(cellSize) => setLayout({ ...layout, cellSize })}
+      />
+      <NumberField
+        id="exportCellGap"
+        label="Cell gap:"
+        value={layout.cellGap}
+        min={0}
+        max={16}
+        onChange={(cellGap) => setLayout({ ...layout, cellGap })}
+      />
+      <NumberField
+        id="exportMargin"
+        label="Margin:"
+        value={layout.margin}
+        min={0}
+        max={512}
+        onChange={(margin) => setLayout({ ...layout, margin })}
+      />
+      <div className="setting-item">
+        <label htmlFor="exportPalette">Colors:</label>
+        <select
+          id="exportPalette"
+          value={paletteChoice}
+          onChange={(e) => setPaletteChoice(e.target.value as ExportPalette)}
+        >
+          <option value="screen">Palette</option>
+          <option value="grayscale">Grayscale (print)</option>
+        </select>
+      </div>
+      <NumberField
+        id="exportFirst"
+        label="From gen:"
+        value={first}
+        min={historyStart}
+        max={generation}
+        onChange={(value) => setRange({ first: value, last })}
+      />
+      <NumberField
+        id="exportLast"
+        label="To gen:"
+        value={last}
+        min={historyStart}
+        max={generation}
+        onChange={(value) => setRange({ first, last: value })}
+      />
+      <NumberField
+        id="exportFirstCell"
+        label="From cell:"
+        value={firstCell}
+        min={0}
+        max={latticeWidth - 1}
+        onChange={(value) => setCellRange({ first: value, last: lastCell })}
+      />
+      <NumberField
+        id="exportLastCell"
+        label="To cell:"
+        value={lastCell}
+        min={0}
+        max={latticeWidth - 1}
+        onChange={(value) => setCellRange({ first: firstCell, last: value })}
+      />
+      <p className="export-size">
+        {rowCount} generations × {cellCount} cells, {size.width} × {size.height} px
+        {(range || cellRange) && (
+          <>
+            {' '}
+            <button
+              onClick={() => {
+                setRange(null);
+                setCellRange(null);
+              }}
+            >
+              All
+            </button>
+          </>
+        )}
+      </p>
+      <div className="setting-item export-svg-options">
+        {(['gridLines', 'axes', 'caption'] as const).map((option) => (
+          <label key={option}>
+            <input
+              type="checkbox"
+              checked={svgOptions[option]}
+              onChange={(e) => setSvgOptions({ ...svgOptions, [option]: e.target.checked })}
+            />
+            {{ gridLines: 'Grid', axes: 'Axes', caption: 'Caption' }[option]}
+          </label>
+        ))}
+      </div>
+      <div className="button-group">
+        <button onClick={exportPng} disabled={busy || tooLarge}>
+          {busy ? 'Exporting…' : 'Download PNG'}
+        </button>
+        <button onClick={exportSvg} disabled={busy || tooManyCells} title="Vector figure; grid, axes and caption apply here">
+          Download SVG
+        </button>
+      </div>
+      {tooLarge && <p className="error">Too large for a PNG; use a smaller cell size or fewer generations</p>}
+      {tooManyCells && <p className="error">Too many cells for an SVG; export a smaller region</p>}
+      <div className="button-group">
+        <button onClick={() => exportData('csv')} disabled={busy} title="One line of comma-separated states per generation">
+          CSV
+        </button>
+        <button onClick={() => exportData('binary')} disabled={busy} title="Bit-packed rows after a 20 byte header">
+          Binary
+        </button>
+        <button onClick={() => exportData('npy')} disabled={busy} title="NumPy uint8 array of shape (generations, cells)">
+          NumPy
+        </button>
+      </div>
+      <AnimationExport
+        firstGeneration={first}
+        lastGeneration={last}
+        firstCell={firstCell}
+        lastCell={lastCell}
+        cellSize={layout.cellSize}
+        cellMargin={layout.cellGap}
+        palette={exportPalette}
+        busy={busy}
+        runExport={runExport}
+      />
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportControls;
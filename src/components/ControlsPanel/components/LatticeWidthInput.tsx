@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { MAX_LATTICE_WIDTH, MIN_LATTICE_WIDTH } from '../../../utils/lattice';
+
+const LatticeWidthInput: React.FC = () => {
+  const { latticeWidth, setLatticeWidth } = useStore();
+  const [text, setText] = useState(String(latticeWidth));
+  const [invalid, setInvalid] = useState(false);
+
+  // Keep the field in sync with the clamped width
+  useEffect(() => {
+    setText(String(latticeWidth));
+    setInvalid(false);
+  }, [latticeWidth]);
+
+  const commit = () => {
+    const width = Number(text.trim());
+    if (!Number.isFinite(width) || text.trim() === '') {
+      setInvalid(true);
+      return;
+    }
+    setInvalid(false);
+    setLatticeWidth(width);
+    // Show the clamped value even when the width did not change
+    setText(String(useStore.getState().latticeWidth));
+  };
+
+  return (
+    <input
+      type="text"
+      id="latticeWidth"
+      inputMode="numeric"
+      value={text}
+      spellCheck={false}
+      className={invalid ? 'invalid' : ''}
+      title={`Number of cells, ${MIN_LATTICE_WIDTH} to ${MAX_LATTICE_WIDTH}`}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+    />
+  );
+};
+
+export default LatticeWidthInput;
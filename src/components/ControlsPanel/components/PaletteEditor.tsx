@@ -0,0 +1,23 @@
+import React from 'react';
+import { useStore } from '../../../store/useStore';
+
+const PaletteEditor: React.FC = () => {
+  const { states, palette, setPaletteColor } = useStore();
+
+  return (
+    <div className="palette-editor">
+      {palette.slice(0, states).map((color, state) => (
+        <label key={state} className="palette-swatch" title={`State ${state}`}>
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setPaletteColor(state, e.target.value)}
+          />
+          <span>{state}</span>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default PaletteEditor;
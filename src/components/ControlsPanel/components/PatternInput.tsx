@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { parseRowPattern } from '../../../utils/rowPattern';
+
+const PATTERN_HELP = [
+  'Cells as state digits, e.g. 0001101',
+  'x{n} repeats a cell or (group) n times, e.g. 0{20}1',
+  '(group)* repeats to fill the lattice, e.g. (01)* 111 (01)*',
+].join('\n');
+
+const PatternInput: React.FC = () => {
+  const { latticeWidth, states, setInitialRow } = useStore();
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = () => {
+    const result = parseRowPattern(text, latticeWidth, states);
+    if (!result.ok) {
+      setError(`${result.error} (at ${result.position + 1})`);
+      return;
+    }
+    setError(null);
+    setInitialRow(result.row);
+  };
+
+  return (
+    <div className="pattern-input">
+      <div className="setting-item">
+        <input
+          type="text"
+          value={text}
+          spellCheck={false}
+          placeholder="(01)* 111 (01)*"
+          className={error ? 'invalid' : ''}
+          title={PATTERN_HELP}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') apply();
+          }}
+        />
+        <button onClick={apply} disabled={text.trim() === ''}>
+          Apply
+        </button>
+      </div>
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+};
+
+export default PatternInput;
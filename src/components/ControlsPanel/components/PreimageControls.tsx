@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { PreimageCount } from '../../../engine/preimages';
+import { PreimagesWorkerClient } from '../../../engine/PreimagesWorkerClient';
+
+// Counts longer than this are shown in scientific notation
+const MAX_COUNT_DIGITS = 12;
+// Cells of the chosen preimage shown before it is cut short
+const PREVIEW_CELLS = 48;
+
+const formatCount = (count: bigint) => {
+  const text = count.toString();
+  return text.length <= MAX_COUNT_DIGITS ? text : `${text[0]}.${text.slice(1, 4)}e${text.length - 1}`;
+};
+
+// Uniform enough for picking: 64 more random bits than `count` needs
+const randomBelow = (count: bigint) => {
+  let value = 0n;
+  for (let bits = count.toString(2).length + 64; bits > 0; bits -= 32) {
+    value = (value << 32n) | BigInt(Math.floor(Math.random() * 0x100000000));
+  }
+  return value % count;
+};
+
+const PreimageControls: React.FC = () => {
+  const { cells, rule, radius, states, ruleKind, boundary, generation } = useStore();
+  const [result, setResult] = useState<PreimageCount | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [index, setIndex] = useState(0n);
+  const [indexText, setIndexText] = useState('0');
+  // The last preimage the worker sent, which may lag behind `index`
+  const [picked, setPicked] = useState<{ index: bigint; row: Uint8Array } | null>(null);
+  const clientRef = useRef<PreimagesWorkerClient | null>(null);
+
+  useEffect(() => {
+    const client = new PreimagesWorkerClient();
+    client.onCount = (next) => {
+      setResult(next);
+      setSearching(false);
+      if (next.ok && next.count > 0n) client.pick(0n);
+    };
+    client.onPreimage = (at, row) => setPicked({ index: at, row });
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  // A result only describes the row it was computed for
+  useEffect(() => {
+    clientRef.current?.cancel();
+    setResult(null);
+    setSearching(false);
+    setPicked(null);
+  }, [cells, rule, radius, states, ruleKind, boundary]);
+
+  const find = () => {
+    setResult(null);
+    setPicked(null);
+    setSearching(true);
+    setIndex(0n);
+    setIndexText('0');
+    clientRef.current?.find(cells, { rule, radius, states, ruleKind, boundary });
+  };
+
+  const select = (value: bigint) => {
+    setIndex(value);
+    clientRef.current?.pick(value);
+  };
+
+  const choose = (value: bigint) => {
+    select(value);
+    setIndexText(value.toString());
+  };
+
+  const found = result?.ok && result.count > 0n ? result : null;
+  const preimage = picked && picked.index === index ? picked.row : null;
+  const preview = useMemo(
+    () =>
+      preimage && {
+        short: Array.from(preimage.subarray(0, PREVIEW_CELLS)).join('') + (preimage.length > PREVIEW_CELLS ? '…' : ''),
+        full: preimage.join(''),
+      },
+    [preimage],
+  );
+
+  const stepBack = () => {
+    if (!preimage) return;
+    const { setIsPlaying, setInitialRow } = useStore.getState();
+    setIsPlaying(false);
+    setInitialRow(preimage);
+  };
+
+  return (
+    <div className="settings-grid preimage-controls">
+      <div className="button-group">
+        <button onClick={find} disabled={searching} title="Find every row that steps to the current one">
+          {searching ? 'Searching…' : 'Find Preimages'}
+        </button>
+      </div>
+      {result && !result.ok && <p className="error">{result.error}</p>}
+      {result?.ok && result.count === 0n && (
+        <p className="hint garden-of-eden">
+          Generation {generation} is a Garden of Eden: no row steps to it under this rule and boundary.
+        </p>
+      )}
+      {found && (
+        <>
+          <div className="setting-item">
+            <label>Preimages:</label>
+            <span title={found.count.toString()}>{formatCount(found.count)}</span>
+          </div>
+          <div className="setting-item">
+            <label>Choose:</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={indexText}
+              onChange={(e) => {
+                setIndexText(e.target.value);
+                if (/^\d+$/.test(e.target.value)) {
+                  const value = BigInt(e.target.value);
+                  if (value < found.count) select(value);
+                }
+              }}
+              onBlur={() => setIndexText(index.toString())}
+              title={`0 to ${found.count - 1n}`}
+            />
+            <button onClick={() => choose(randomBelow(found.count))}>Random</button>
+          </div>
+          <p className="preimage-preview" title={preview?.full}>
+            {preview?.short ?? 'Picking…'}
+          </p>
+          <div className="button-group">
+            <button onClick={stepBack} disabled={!preimage} title="Start over from the chosen preimage as generation 0">
+              Step Back
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PreimageControls;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { Placement, parseSeed } from '../../../utils/random';
+
+const RandomControls: React.FC = () => {
+  const { randomOptions, setRandomOptions, rerollRandom, latticeWidth } = useStore();
+  const { seed, density, window, placement } = randomOptions;
+  const [seedText, setSeedText] = useState(String(seed));
+  const [invalid, setInvalid] = useState(false);
+
+  // Keep the field in sync when the seed is rerolled
+  useEffect(() => {
+    setSeedText(String(seed));
+    setInvalid(false);
+  }, [seed]);
+
+  const commitSeed = () => {
+    const parsed = parseSeed(seedText);
+    if (parsed === null) {
+      setInvalid(true);
+      return;
+    }
+    setInvalid(false);
+    if (parsed !== seed) setRandomOptions({ seed: parsed });
+  };
+
+  return (
+    <div className="settings-grid random-options">
+      <div className="setting-item">
+        <label htmlFor="randomSeed">Seed:</label>
+        <input
+          type="text"
+          id="randomSeed"
+          inputMode="numeric"
+          value={seedText}
+          spellCheck={false}
+          className={invalid ? 'invalid' : ''}
+          onChange={(e) => setSeedText(e.target.value)}
+          onBlur={commitSeed}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitSeed();
+          }}
+        />
+        <button className="reroll" onClick={rerollRandom} title="New random seed">
+          New
+        </button>
+      </div>
+      <div className="setting-item">
+        <label htmlFor="randomDensity">Density:</label>
+        <input
+          type="range"
+          id="randomDensity"
+          min="0"
+          max="1"
+          step="0.01"
+          value={density}
+          onChange={(e) => setRandomOptions({ density: Number(e.target.value) })}
+        />
+        <span>{Math.round(density * 100)}%</span>
+      </div>
+      <div className="setting-item">
+        <label htmlFor="randomPlacement">Placement:</label>
+        <select
+          id="randomPlacement"
+          value={placement}
+          onChange={(e) => setRandomOptions({ placement: e.target.value as Placement })}
+        >
+          <option value="bernoulli">Bernoulli (each cell with p)</option>
+          <option value="fixed">Fixed count (exactly p·n)</option>
+        </select>
+      </div>
+      <div className="setting-item">
+        <label htmlFor="randomWindow">
+          <input
+            type="checkbox"
+            checked={window !== null}
+            onChange={(e) => setRandomOptions({ window: e.target.checked ? Math.min(100, latticeWidth) : null })}
+          />
+          Window:
+        </label>
+        <input
+          type="range"
+          id="randomWindow"
+          min="1"
+          max={latticeWidth}
+          value={window ?? latticeWidth}
+          disabled={window === null}
+          onChange={(e) => setRandomOptions({ window: Number(e.target.value) })}
+        />
+        <span>{window === null ? 'all' : `${Math.min(window, latticeWidth)} cells`}</span>
+      </div>
+    </div>
+  );
+};
+
+export default RandomControls;
@@ -0,0 +1,47 @@
+import React, { useRef, useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { decodeLastRow } from '../../../utils/spacetimeData';
+
+const RowImport: React.FC = () => {
+  const { states, setInitialRow } = useStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const importFile = async (file: File) => {
+    const result = decodeLastRow(new Uint8Array(await file.arrayBuffer()));
+    if (!result.ok) {
+      setError(`${file.name}: ${result.error}`);
+      return;
+    }
+    const highest = result.row.reduce((max, cell) => Math.max(max, cell), 0);
+    if (highest >= states) {
+      setError(`${file.name} uses state ${highest}; switch to at least ${highest + 1} states first`);
+      return;
+    }
+    setError(null);
+    setInitialRow(result.row);
+  };
+
+  return (
+    <div className="pattern-input">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.txt,.ca1d,.npy"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importFile(file);
+          // Let the same file be picked again
+          e.target.value = '';
+        }}
+      />
+      <button onClick={() => inputRef.current?.click()} title="Start from the last row of a CSV, binary or .npy export">
+        Load Last Row…
+      </button>
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+};
+
+export default RowImport;
@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { formatRule, parseRule } from '../../../utils/rules';
+
+const RuleInput: React.FC = () => {
+  const { rule, radius, states, ruleKind, setRule } = useStore();
+  const spec = { radius, states, kind: ruleKind };
+  const [text, setText] = useState(formatRule(rule, spec));
+  const [invalid, setInvalid] = useState(false);
+
+  // Keep the field in sync when the rule changes elsewhere (toggles, presets)
+  useEffect(() => {
+    setText(formatRule(rule, { radius, states, kind: ruleKind }));
+    setInvalid(false);
+  }, [rule, radius, states, ruleKind]);
+
+  const commit = () => {
+    const parsed = parseRule(text, spec);
+    if (parsed === null) {
+      setInvalid(true);
+      return;
+    }
+    setInvalid(false);
+    setRule(parsed);
+  };
+
+  return (
+    <div className="rule-input">
+      <input
+        type="text"
+        value={text}
+        spellCheck={false}
+        className={invalid ? 'invalid' : ''}
+        title="Rule number, decimal or 0x-prefixed hex"
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+      />
+    </div>
+  );
+};
+
+export default RuleInput;
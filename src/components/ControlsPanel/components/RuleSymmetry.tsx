@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import { useStore } from '../../../store/useStore';
+import { formatRule } from '../../../utils/rules';
+import { equivalenceClass, ruleSymmetries } from '../../../utils/symmetry';
+
+const RuleSymmetry: React.FC = () => {
+  const { rule, radius, states, ruleKind, setRule } = useStore();
+  const spec = { radius, states, kind: ruleKind };
+  // Large tables take a while to transform, so only redo it when the rule changes
+  const [[, mirror, complement, mirrorComplement], members] = useMemo(() => {
+    const shape = { radius, states, kind: ruleKind };
+    return [ruleSymmetries(rule, shape), equivalenceClass(rule, shape)] as const;
+  }, [rule, radius, states, ruleKind]);
+
+  const rows = [
+    { label: 'Mirror', value: mirror, title: 'Reflect every neighborhood left to right' },
+    { label: 'Complement', value: complement, title: `Swap every state s for ${states - 1}-s` },
+    { label: 'Both', value: mirrorComplement, title: 'Mirror and complement' },
+    { label: 'Minimal', value: members[0], title: 'Smallest rule in the equivalence class' },
+  ];
+
+  return (
+    <div className="rule-symmetry">
+      {rows.map(({ label, value, title }) => {
+        const text = formatRule(value, spec);
+        return (
+          <div key={label} className="setting-item">
+            <label title={title}>{label}:</label>
+            <span title={text}>{text}</span>
+            <button onClick={() => setRule(value)} disabled={value === rule}>
+              {value === rule ? 'Same' : 'Apply'}
+            </button>
+          </div>
+        );
+      })}
+      <p className="hint">
+        {members.length === 1
+          ? 'This rule is its own mirror image and complement.'
+          : `One of ${members.length} equivalent rules.`}
+      </p>
+    </div>
+  );
+};
+
+export default RuleSymmetry;
@@ -1,28 +1,72 @@
 import React from 'react';
 import { useStore } from '../../../store/useStore';
 
+// Tables beyond this size are edited through the rule number instead
+const MAX_GRID_ENTRIES = 512;
+
 const RulesGrid: React.FC = () => {
-  const { ruleToggles, toggleRule } = useStore();
+  const { ruleToggles, radius, states, ruleKind, palette, toggleRule } = useStore();
+  const size = ruleToggles.length;
+  const patternWidth = 2 * radius + 1;
+
+  if (size > MAX_GRID_ENTRIES) {
+    return (
+      <p className="rules-grid-note">
+        This rule has {size} table entries, too many to edit here. Enter the rule number above instead.
+      </p>
+    );
+  }
 
   return (
-    <div className="rules-grid">
-      {ruleToggles.map((isActive, index) => (
-        <div key={index} className="rule-toggle">
-          <div className="pattern">
-            {[...index.toString(2).padStart(3, '0')].map((bit, i) => (
-              <div
-                key={i}
-                className={`pattern-cell ${bit === '1' ? 'filled' : 'empty'}`}
+    <div className={`rules-grid radius-${radius}`}>
+      {ruleToggles.map((output, index) => {
+        // toggles[0] is the highest pattern, so count down
+        const pattern = size - 1 - index;
+
+        return (
+          <div key={index} className="rule-toggle">
+            {ruleKind === 'totalistic' ? (
+              <div className="pattern sum">Σ {pattern}</div>
+            ) : (
+              <div className="pattern">
+                {[...pattern.toString(states).padStart(patternWidth, '0')].map((digit, i) => {
+                  const cell = Number(digit);
+                  if (states === 2) {
+                    return (
+                      <div
+                        key={i}
+                        className={`pattern-cell ${cell === 1 ? 'filled' : 'empty'}`}
+                      />
+                    );
+                  }
+                  return (
+                    <div
+                      key={i}
+                      className={`pattern-cell ${cell === 0 ? 'empty' : ''}`}
+                      style={cell === 0 ? undefined : { backgroundColor: palette[cell] }}
+                    />
+                  );
+                })}
+              </div>
+            )}
+            {states === 2 ? (
+              <input
+                type="checkbox"
+                checked={output === 1}
+                onChange={() => toggleRule(index)}
               />
-            ))}
+            ) : (
+              <button
+                className="state-toggle"
+                style={{ backgroundColor: palette[output] }}
+                onClick={() => toggleRule(index)}
+              >
+                {output}
+              </button>
+            )}
           </div>
-          <input
-            type="checkbox"
-            checked={isActive}
-            onChange={() => toggleRule(index)}
-          />
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import React, { useRef, useState } from 'react';
+import { useStore } from '../../../store/useStore';
+import { encodeSession, readSessionFile } from '../../../utils/session';
+import { exportFileName } from '../../../utils/exportMetadata';
+import { downloadBlob } from '../../../utils/download';
+
+const SessionControls: React.FC = () => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const save = () => {
+    const { getSession, historyStart, generation } = useStore.getState();
+    const session = getSession(includeHistory);
+    const first = session.history ? session.history.firstGeneration : generation;
+    setNotice(
+      session.history && first > historyStart
+        ? `Only generations ${first} to ${generation} fit in a session; older ones were left out.`
+        : null
+    );
+    const blob = new Blob([encodeSession(session)], { type: 'application/json' });
+    downloadBlob(blob, exportFileName(session.experiment, first, generation, 'json'));
+  };
+
+  const open = async (file: File) => {
+    const { getExperiment, loadSession } = useStore.getState();
+    const result = await readSessionFile(file, getExperiment());
+    if (!result.ok) {
+      setError(`${file.name}: ${result.error}`);
+      return;
+    }
+    setError(null);
+    loadSession(result.session);
+  };
+
+  return (
+    <div className="settings-grid session-options">
+      <div className="setting-item export-svg-options">
+        <label title="Also save every generation still held for scrollback">
+          <input type="checkbox" checked={includeHistory} onChange={(e) => setIncludeHistory(e.target.checked)} />
+          Include history
+        </label>
+      </div>
+      <div className="button-group">
+        <button onClick={save}>Save Session</button>
+        <button onClick={() => inputRef.current?.click()} title="Open a saved session, or drop one onto the canvas">
+          Open…
+        </button>
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) open(file);
+          e.target.value = '';
+        }}
+      />
+      {notice && <p className="hint">{notice}</p>}
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+};
+
+export default SessionControls;
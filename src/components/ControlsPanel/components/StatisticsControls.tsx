@@ -0,0 +1,53 @@
+import React from 'react';
+import { useStore } from '../../../store/useStore';
+import { MAX_MEASURED_WIDTH, MAX_RUN_LENGTH, maxBlockSize, statisticsCsv } from '../../../engine/statistics';
+import { exportFileName } from '../../../utils/exportMetadata';
+import { downloadBlob } from '../../../utils/download';
+
+const StatisticsControls: React.FC = () => {
+  const { showStatistics, setShowStatistics, blockSize, setBlockSize, states, latticeWidth, historyStart, generation } = useStore();
+  const largest = maxBlockSize(states);
+
+  const exportCsv = () => {
+    const { getStatistics, getExperiment } = useStore.getState();
+    const stats = getStatistics(historyStart, generation + 1);
+    if (stats.length === 0) return;
+    const blob = new Blob([statisticsCsv(stats)], { type: 'text/csv' });
+    downloadBlob(blob, exportFileName(getExperiment(), stats[0].generation, generation, 'stats.csv'));
+  };
+
+  return (
+    <div className="settings-grid statistics-controls">
+      <div className="setting-item">
+        <label>
+          <input type="checkbox" checked={showStatistics} onChange={(e) => setShowStatistics(e.target.checked)} />
+          Show charts beside the canvas
+        </label>
+      </div>
+      <div className="setting-item">
+        <label htmlFor="blockSize">Block sizes up to:</label>
+        <input
+          type="number"
+          id="blockSize"
+          min={1}
+          max={largest}
+          value={Math.min(blockSize, largest)}
+          onChange={(e) => setBlockSize(Math.min(largest, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+        />
+      </div>
+      <p className="hint">
+        Density of live cells, entropy of blocks of 1–{Math.min(blockSize, largest)} cells (per cell), fraction of
+        cells that changed, and the share of runs of each length from 1 to {MAX_RUN_LENGTH}+. Collected only while
+        the charts are shown
+        {latticeWidth > MAX_MEASURED_WIDTH && `, over the central ${MAX_MEASURED_WIDTH} cells`}.
+      </p>
+      <div className="button-group">
+        <button onClick={exportCsv} disabled={!showStatistics} title="Statistics of the generations collected so far">
+          Download CSV
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StatisticsControls;
@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { CellState } from '../../renderers/BaseRenderer';
+import { screenLayout, visibleRowRange } from '../../renderers/geometry';
+import { GenerationStatistics, MAX_RUN_LENGTH } from '../../engine/statistics';
+import './Statistics.scss';
+
+// Width of each chart in pixels, and the gap kept inside it
+const CHART_WIDTH = 72;
+const CHART_PADDING = 6;
+const CHARTS = ['Density', 'Entropy', 'Activity', 'Runs'];
+const LINE_COLOR = '#6366f1';
+// Block sizes run from blue for single cells towards red
+const entropyColor = (size: number, largest: number) =>
+  `hsl(${240 + (120 * (size - 1)) / Math.max(1, largest - 1)}, 70%, 55%)`;
+const GRID_COLOR = 'rgba(128, 128, 128, 0.3)';
+
+/**
+ * Per-generation statistics drawn beside the spacetime diagram, one point
+ * per row at the same height as the row, so the charts scroll, zoom and
+ * pan along with the picture.
+ */
+const Statistics: React.FC = () => {
+  const {
+    states,
+    cells,
+    generation,
+    previousGenerations,
+    historyStart,
+    scrollback,
+    maxVisibleGenerations,
+    viewCellSize,
+    cellMargin,
+    renderMargin,
+    viewMode,
+    rowSize,
+    colormap,
+    viewTransform,
+    blockSize,
+    getStatistics,
+  } = useStore();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [height, setHeight] = useState(0);
+  const [hovered, setHovered] = useState<GenerationStatistics | null>(null);
+  const width = CHARTS.length * CHART_WIDTH;
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    const observer = new ResizeObserver(() => setHeight(frame.clientHeight));
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, []);
+
+  // The same rows the canvas shows, oldest first
+  const last = scrollback ?? generation;
+  const first =
+    scrollback === null
+      ? generation - Math.min(previousGenerations.length, maxVisibleGenerations)
+      : Math.max(historyStart, scrollback - maxVisibleGenerations);
+  // Kept from the last drawing for the readout
+  const statsRef = useRef<GenerationStatistics[]>([]);
+
+  const viewport: CellState['viewport'] = useMemo(
+    () => ({
+      width,
+      height,
+      cellSize: viewCellSize,
+      cellMargin,
+      renderMargin,
+      maxVisibleGenerations,
+      density: viewMode === 'density' ? { rowSize, colormap } : null,
+      transform: viewTransform,
+    }),
+    [width, height, viewCellSize, cellMargin, renderMargin, maxVisibleGenerations, viewMode, rowSize, colormap, viewTransform]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || height === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    // Read again on new cells and block sizes too, since painting replaces
+    // the current row and a new block size measures the rows again
+    const stats = getStatistics(first, last + 1);
+    statsRef.current = stats;
+
+    const { rowPitch, top } = screenLayout(viewport);
+    const rowCount = last - first + 1;
+    const { first: firstRow, last: lastRow } = visibleRowRange(viewport, rowCount);
+    const rowY = (row: number) => top + (row + 0.5) * rowPitch;
+    const chartX = (chart: number, value: number) =>
+      chart * CHART_WIDTH + CHART_PADDING + value * (CHART_WIDTH - 2 * CHART_PADDING);
+
+    context.strokeStyle = GRID_COLOR;
+    context.lineWidth = 1;
+    context.beginPath();
+    for (let chart = 1; chart < CHARTS.length; chart++) {
+      context.moveTo(chart * CHART_WIDTH + 0.5, 0);
+      context.lineTo(chart * CHART_WIDTH + 0.5, height);
+    }
+    context.stroke();
+
+    // Statistics may start later than the rows when history was cut short
+    const offset = stats.length > 0 ? stats[0].generation - first : 0;
+    const plot = (chart: number, value: (s: GenerationStatistics) => number | null, color: string) => {
+      context.strokeStyle = color;
+      context.beginPath();
+      let drawing = false;
+      for (let row = Math.max(firstRow, offset); row < Math.min(lastRow, offset + stats.length); row++) {
+        const v = value(stats[row - offset]);
+        if (v === null) {
+          drawing = false;
+          continue;
+        }
+        const x = chartX(chart, Math.max(0, Math.min(1, v)));
+        if (drawing) context.lineTo(x, rowY(row));
+        else context.moveTo(x, rowY(row));
+        drawing = true;
+      }
+      context.stroke();
+    };
+
+    context.lineWidth = 1.5;
+    plot(0, (s) => s.density, LINE_COLOR);
+    // Entropy per cell, so every block size shares the 0 to 1 scale
+    const largest = stats.length > 0 ? stats[0].entropy.length : 0;
+    for (let size = 1; size <= largest; size++) {
+      plot(1, (s) => s.entropy[size - 1] / (size * Math.log2(states)), entropyColor(size, largest));
+    }
+    plot(2, (s) => s.activity, LINE_COLOR);
+
+    // Run lengths as a heat map, one column per length
+    const bucketWidth = (CHART_WIDTH - 2 * CHART_PADDING) / MAX_RUN_LENGTH;
+    context.fillStyle = LINE_COLOR;
+    for (let row = Math.max(firstRow, offset); row < Math.min(lastRow, offset + stats.length); row++) {
+      const { runs } = stats[row - offset];
+      for (let length = 0; length < MAX_RUN_LENGTH; length++) {
+        if (runs[length] === 0) continue;
+        context.globalAlpha = Math.sqrt(runs[length]);
+        context.fillRect(chartX(3, 0) + length * bucketWidth, top + row * rowPitch, bucketWidth, Math.max(1, rowPitch));
+      }
+    }
+    context.globalAlpha = 1;
+  }, [getStatistics, cells, blockSize, viewport, first, last, width, height, states]);
+
+  const hover = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { rowPitch, top } = screenLayout(viewport);
+    const y = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const target = first + Math.floor((y - top) / rowPitch);
+    setHovered(statsRef.current.find((s) => s.generation === target) ?? null);
+  };
+
+  const percent = (value: number) => `${(100 * value).toFixed(1)}%`;
+
+  // The charts fill the strip from the top, like the canvas; titles and
+  // readout float over them
+  return (
+    <div className="statistics" style={{ width }}>
+      <div ref={frameRef} className="statistics-frame">
+        <canvas
+          ref={canvasRef}
+          style={{ width, height }}
+          onMouseMove={hover}
+          onMouseLeave={() => setHovered(null)}
+        />
+      </div>
+      <div className="statistics-titles">
+        {CHARTS.map((title) => (
+          <span key={title} style={{ width: CHART_WIDTH }}>
+            {title}
+          </span>
+        ))}
+      </div>
+      {hovered && (
+        <div className="statistics-readout">
+          <div>Generation {hovered.generation}</div>
+          <div>Density {percent(hovered.density)}</div>
+          <div>
+            Entropy{' '}
+            {hovered.entropy.map((bits, i) => (
+              <span key={i} style={{ color: entropyColor(i + 1, hovered.entropy.length) }}>
+                {bits.toFixed(2)}{' '}
+              </span>
+            ))}
+            bits
+          </div>
+          <div>Activity {hovered.activity === null ? '–' : percent(hovered.activity)}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Statistics;
@@ -0,0 +1,46 @@
+import { Atlas, computeAtlas, thumbnailRow } from './atlas';
+import { AtlasRequest, AtlasResponse } from './protocol';
+import { BoundaryCondition } from '../utils/boundary';
+
+/**
+ * Main-thread handle on the rule atlas worker. Without worker support the
+ * atlas is computed in place, which takes a moment but still works.
+ */
+export class AtlasWorkerClient {
+  private worker: Worker | null = null;
+  private id = 0;
+
+  /**
+   * Called with the atlas for the most recent request only
+   */
+  onAtlas: ((atlas: Atlas) => void) | null = null;
+
+  constructor() {
+    if (typeof Worker === 'undefined') return;
+    this.worker = new Worker(new URL('./atlas.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<AtlasResponse>) => {
+      const { id, cells, trivial } = event.data;
+      if (id !== this.id) return;
+      this.onAtlas?.({ cells: new Uint8Array(cells), trivial: new Uint8Array(trivial) });
+    };
+  }
+
+  request(row: Uint8Array, boundary: BoundaryCondition): void {
+    const id = ++this.id;
+    // Only the middle of the row is run, so there is no need to send the rest
+    row = thumbnailRow(row);
+    if (this.worker) {
+      const message: AtlasRequest = { type: 'atlas', id, row, boundary };
+      this.worker.postMessage(message);
+      return;
+    }
+    setTimeout(() => {
+      if (id === this.id) this.onAtlas?.(computeAtlas(row, boundary));
+    }, 0);
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.onAtlas = null;
+  }
+}
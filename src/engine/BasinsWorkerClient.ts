@@ -0,0 +1,51 @@
+import { BasinGraph, computeBasins } from './basins';
+import { BasinsRequest, BasinsResponse } from './protocol';
+import { EngineConfig } from './SimulationEngine';
+
+/**
+ * Main-thread handle on the basin of attraction worker. Without worker
+ * support the graph is computed in place, blocking the page while it runs.
+ */
+export class BasinsWorkerClient {
+  private worker: Worker | null = null;
+  private id = 0;
+
+  /**
+   * Called with the graph for the most recent request only
+   */
+  onGraph: ((graph: BasinGraph) => void) | null = null;
+
+  constructor() {
+    if (typeof Worker === 'undefined') return;
+    this.worker = new Worker(new URL('./basins.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<BasinsResponse>) => {
+      const { id, ringSize, states, successor, basin, depth, basins } = event.data;
+      if (id !== this.id) return;
+      this.onGraph?.({
+        ringSize,
+        states,
+        successor: new Uint32Array(successor),
+        basin: new Uint32Array(basin),
+        depth: new Uint32Array(depth),
+        basins,
+      });
+    };
+  }
+
+  request(config: Omit<EngineConfig, 'boundary'>, ringSize: number): void {
+    const id = ++this.id;
+    if (this.worker) {
+      const message: BasinsRequest = { type: 'basins', id, config, ringSize };
+      this.worker.postMessage(message);
+      return;
+    }
+    setTimeout(() => {
+      if (id === this.id) this.onGraph?.(computeBasins(config, ringSize));
+    }, 0);
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.onGraph = null;
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Cycle, CycleDetector } from './CycleDetector';
+import { HistoryBuffer } from './HistoryBuffer';
+import { SimulationEngine } from './SimulationEngine';
+import { BoundaryType } from '../utils/boundary';
+import { createRng, randomRow } from '../utils/random';
+
+// First repeat found by comparing every pair of rows, allowing rotations
+function naiveCycle(rows: Uint8Array[], shifts: boolean): Cycle | null {
+  const width = rows[0].length;
+  const rotations = shifts ? width : 1;
+  for (let generation = 1; generation < rows.length; generation++) {
+    for (let start = 0; start < generation; start++) {
+      for (let shift = 0; shift < rotations; shift++) {
+        if (rows[generation].every((cell, i) => cell === rows[start][(i - shift + width) % width])) {
+          return { start, period: generation - start, shift: shift > width / 2 ? shift - width : shift };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+describe('CycleDetector', () => {
+  const random = createRng(21);
+
+  for (const type of ['periodic', 'fixed'] as BoundaryType[]) {
+    it(`finds the same cycles as comparing every row, with ${type} boundaries`, () => {
+      for (const rule of [30n, 54n, 90n, 110n, 184n, 170n]) {
+        for (const width of [5, 8, 11]) {
+          const shifts = type === 'periodic';
+          const cells = randomRow(width, 2, { seed: Math.floor(random() * 1000), density: 0.5, window: null, placement: 'bernoulli' });
+          const engine = new SimulationEngine({ rule, boundary: { type, left: 0, right: 1 } }, cells);
+          const history = new HistoryBuffer();
+          const detector = new CycleDetector((generation) => history.get(generation));
+          const rows = [cells];
+          history.push(cells, 0, 2);
+          detector.reset(cells, 0, shifts);
+
+          let found: Cycle | null = null;
+          for (let generation = 1; !found && generation <= 1 << width; generation++) {
+            engine.step();
+            const row = engine.getCells();
+            rows.push(row);
+            history.push(row, generation, 2);
+            found = detector.observe(generation, detector.keyOf(row));
+          }
+          expect(found).toEqual(naiveCycle(rows, shifts));
+          expect(detector.status).toEqual({ state: 'found', origin: 0, cycle: found });
+        }
+      }
+    });
+  }
+
+  it('checks repeated hashes against the stored rows', () => {
+    const rows = [Uint8Array.from([0, 0, 1]), Uint8Array.from([0, 1, 1]), Uint8Array.from([0, 1, 0]), Uint8Array.from([0, 0, 1])];
+    const detector = new CycleDetector((generation) => rows[generation] ?? null);
+    detector.reset(rows[0], 0, false);
+    // Generations 1 and 2 collide but differ, so the search goes on
+    expect(detector.observe(1, { hash: 7, offset: 0 })).toBeNull();
+    expect(detector.observe(2, { hash: 7, offset: 0 })).toBeNull();
+    expect(detector.status.state).toBe('searching');
+    expect(detector.observe(3, detector.keyOf(rows[3]))).toEqual({ start: 0, period: 3, shift: 0 });
+  });
+
+  it('stops when a candidate is no longer stored', () => {
+    const row = Uint8Array.from([1, 0, 1, 0]);
+    const detector = new CycleDetector((generation) => (generation >= 5 ? row : null));
+    detector.reset(row, 0, false);
+    for (let generation = 1; generation < 5; generation++) detector.observe(generation, { hash: generation, offset: 0 });
+    expect(detector.observe(5, detector.keyOf(row))).toBeNull();
+    expect(detector.status).toEqual({ state: 'exhausted', origin: 0, searched: 5 });
+  });
+
+  it('starts over after a gap', () => {
+    const row = Uint8Array.from([1, 1, 0]);
+    const detector = new CycleDetector(() => row);
+    detector.reset(row, 0, false);
+    expect(detector.observe(3, detector.keyOf(row))).toBeNull();
+    expect(detector.status).toEqual({ state: 'searching', origin: 3 });
+    expect(detector.observe(4, detector.keyOf(row))).toEqual({ start: 3, period: 1, shift: 0 });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Finds the cycle a run on a finite lattice falls into.
+ *
+ * Every generation is reduced to a key, a 53-bit hash, and remembered with
+ * the generation it appeared at. On a ring the hash is taken from the
+ * lexicographically least rotation of the row, so a pattern that comes
+ * back moved sideways is recognised too, and the difference between the
+ * two rotations gives the shift. A repeated hash is only a candidate: the
+ * two rows are fetched from where the caller keeps them and compared cell
+ * by cell before the cycle is declared, so a hash collision just carries
+ * on searching.
+ */
+
+export interface Cycle {
+  // First generation on the cycle; the run before it is the transient
+  start: number;
+  period: number;
+  // Cells the pattern moves to the right every period, 0 for an exact repeat
+  shift: number;
+}
+
+export type CycleStatus =
+  // Generations since `origin` are being tracked
+  | { state: 'searching'; origin: number }
+  | { state: 'found'; origin: number; cycle: Cycle }
+  // Nothing repeated in the `searched` generations after `origin`, either
+  // MAX_TRACKED_GENERATIONS or as far back as rows were still stored
+  | { state: 'exhausted'; origin: number; searched: number }
+  // The lattice is wider than MAX_CYCLE_WIDTH
+  | { state: 'unavailable' };
+
+// Rings wider than this are not tracked: hashing costs a pass over every
+// row and their cycles are far too long to reach anyway
+export const MAX_CYCLE_WIDTH = 1 << 14;
+export const MAX_TRACKED_GENERATIONS = 1 << 19;
+
+export interface CycleKey {
+  hash: number;
+  // Start of the rotation that was hashed
+  offset: number;
+}
+
+// Stored row of a past generation, or null once it has been dropped
+export type StoredRow = (generation: number) => Uint8Array | null;
+
+export class CycleDetector {
+  private _status: CycleStatus = { state: 'searching', origin: 0 };
+  private seen = new Map<number, number>();
+  // Rotation each generation was hashed at, indexed from the origin
+  private offsets: number[] = [];
+  private shifts = false;
+  private lastGeneration = -1;
+
+  constructor(private readonly storedRow: StoredRow) {}
+
+  /**
+   * Replaced whenever it changes, so it can be compared by reference
+   */
+  get status(): CycleStatus {
+    return this._status;
+  }
+
+  /**
+   * Start over from `row` at `generation`. `shifts` allows recurrence up to
+   * a rotation, which only makes sense on a periodic lattice.
+   */
+  reset(row: Uint8Array, generation: number, shifts: boolean): void {
+    this.seen.clear();
+    this.offsets = [];
+    this.shifts = shifts;
+    this.lastGeneration = -1;
+    if (row.length > MAX_CYCLE_WIDTH) {
+      this._status = { state: 'unavailable' };
+      return;
+    }
+    this._status = { state: 'searching', origin: generation };
+    this.observe(generation, this.keyOf(row));
+  }
+
+  keyOf(row: Uint8Array): CycleKey {
+    return cycleKey(row, this.shifts);
+  }
+
+  /**
+   * Record the key of `generation`, whose row must already be stored.
+   * Returns the cycle on the generation it is found. A generation that
+   * does not follow the last one starts over from it.
+   */
+  observe(generation: number, key: CycleKey): Cycle | null {
+    if (this._status.state !== 'searching') return null;
+    if (this.lastGeneration >= 0 && generation !== this.lastGeneration + 1) this.lastGeneration = -1;
+    if (this.lastGeneration < 0) {
+      // The first row sets the origin
+      this.seen.clear();
+      this.offsets = [];
+      this._status = { state: 'searching', origin: generation };
+    }
+    this.lastGeneration = generation;
+
+    const { origin } = this._status;
+    const previous = this.seen.get(key.hash);
+
+    if (previous !== undefined) {
+      const previousOffset = this.offsets[previous - origin];
+      const row = this.storedRow(generation);
+      const earlier = this.storedRow(previous);
+      if (!row || !earlier) {
+        // The candidate can no longer be checked, and neither can anything
+        // older, so this is as far as the search reaches
+        this.stop({ state: 'exhausted', origin, searched: generation - origin });
+        return null;
+      }
+      if (sameRotation(row, key.offset, earlier, previousOffset)) {
+        const width = row.length;
+        let shift = (key.offset - previousOffset + width) % width;
+        if (shift > width / 2) shift -= width;
+        const cycle = { start: previous, period: generation - previous, shift };
+        this.stop({ state: 'found', origin, cycle });
+        return cycle;
+      }
+    }
+
+    if (this.offsets.length === MAX_TRACKED_GENERATIONS) {
+      this.stop({ state: 'exhausted', origin, searched: MAX_TRACKED_GENERATIONS });
+      return null;
+    }
+    // After a collision the earlier generation keeps the hash
+    if (previous === undefined) this.seen.set(key.hash, generation);
+    this.offsets.push(key.offset);
+    return null;
+  }
+
+  private stop(status: CycleStatus): void {
+    this._status = status;
+    this.seen.clear();
+    this.offsets = [];
+  }
+}
+
+/**
+ * Key of `row`, hashed from its least rotation when `shifts` allows
+ * recurrence up to a rotation
+ */
+export function cycleKey(row: Uint8Array, shifts: boolean): CycleKey {
+  const offset = shifts ? leastRotation(row) : 0;
+  return { hash: hashRow(row, offset), offset };
+}
+
+function sameRotation(a: Uint8Array, aOffset: number, b: Uint8Array, bOffset: number): boolean {
+  const n = a.length;
+  if (b.length !== n) return false;
+  for (let i = 0; i < n; i++) {
+    if (a[(aOffset + i) % n] !== b[(bOffset + i) % n]) return false;
+  }
+  return true;
+}
+
+// Scratch space for leastRotation, grown as needed
+let failure = new Int32Array(0);
+
+/**
+ * Booth's algorithm: start of the least rotation of `row` in linear time
+ */
+function leastRotation(row: Uint8Array): number {
+  const n = row.length;
+  if (failure.length < 2 * n) failure = new Int32Array(2 * n);
+  failure.fill(-1, 0, 2 * n);
+  let k = 0;
+
+  for (let j = 1; j < 2 * n; j++) {
+    const cell = row[j % n];
+    let i = failure[j - k - 1];
+    while (i !== -1 && cell !== row[(k + i + 1) % n]) {
+      if (cell < row[(k + i + 1) % n]) k = j - i - 1;
+      i = failure[i];
+    }
+    if (i === -1 && cell !== row[(k + i + 1) % n]) {
+      if (cell < row[(k + i + 1) % n]) k = j;
+      failure[j - k] = -1;
+    } else {
+      failure[j - k] = i + 1;
+    }
+  }
+  return k % n;
+}
+
+/**
+ * Two independent 32-bit hashes of the row read from `offset` around the
+ * ring, combined into one safe integer
+ */
+function hashRow(row: Uint8Array, offset: number): number {
+  const n = row.length;
+  let a = 0x811c9dc5;
+  let b = 0x9747b28c;
+  for (let i = 0; i < n; i++) {
+    const cell = row[(offset + i) % n];
+    a = Math.imul(a ^ cell, 0x01000193);
+    b = Math.imul(b ^ cell, 0x5bd1e995);
+    b ^= b >>> 15;
+  }
+  return (a >>> 0) * 0x200000 + (b >>> 11);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryBuffer } from './HistoryBuffer';
+import { bitsPerCell, packCells, packRow, packedWords } from './packing';
+import { createRng, randomRow } from '../utils/random';
+
+function pack(rows: Uint8Array[], states: number): Uint32Array {
+  const bits = bitsPerCell(states);
+  const rowWords = packedWords(rows[0].length, bits);
+  const words = new Uint32Array(rows.length * rowWords);
+  rows.forEach((row, i) => packCells(row, bits, words, i * rowWords));
+  return words;
+}
+
+describe('HistoryBuffer', () => {
+  const random = createRng(9);
+  const rowsOf = (count: number, width: number, states: number) =>
+    Array.from({ length: count }, () =>
+      randomRow(width, states, { seed: Math.floor(random() * 1000), density: 0.5, window: null, placement: 'bernoulli' })
+    );
+
+  for (const states of [2, 3, 4, 5, 8]) {
+    it(`reads back rows with ${states} states however they were pushed`, () => {
+      for (const width of [1, 31, 32, 33, 100]) {
+        const rows = rowsOf(12, width, states);
+        const buffer = new HistoryBuffer();
+        rows.slice(0, 5).forEach((row, i) => buffer.push(row, 20 + i, states));
+        buffer.pushPacked(pack(rows.slice(5), states), 7, 31, width, states);
+        expect(buffer.firstGeneration).toBe(20);
+        expect(buffer.rows(0, 100)).toEqual(rows);
+        expect(buffer.get(26)).toEqual(rows[6]);
+        expect(buffer.get(32)).toBeNull();
+      }
+    });
+  }
+
+  it('packs binary rows the same way as the engine', () => {
+    const row = rowsOf(1, 70, 2)[0];
+    expect(pack([row], 2)).toEqual(packRow(row));
+  });
+
+  it('keeps the newest rows once full', () => {
+    // Room for three rows of up to 32 binary cells
+    const buffer = new HistoryBuffer(12);
+    const rows = rowsOf(8, 20, 2);
+    rows.slice(0, 2).forEach((row, i) => buffer.push(row, i, 2));
+    buffer.pushPacked(pack(rows.slice(2), 2), 6, 7, 20, 2);
+    expect(buffer.capacity).toBe(3);
+    expect(buffer.firstGeneration).toBe(5);
+    expect(buffer.rows(0, 8)).toEqual(rows.slice(5));
+  });
+
+  it('copies rows out packed across the wrap', () => {
+    const buffer = new HistoryBuffer(12);
+    const rows = rowsOf(5, 20, 2);
+    rows.forEach((row, i) => buffer.push(row, i, 2));
+    expect(buffer.packedRows(0, 4)).toEqual({ firstGeneration: 2, rowCount: 2, words: pack(rows.slice(2, 4), 2) });
+    expect(buffer.packedRows(2, 10).words).toEqual(pack(rows.slice(2), 2));
+    expect(buffer.packedRows(7, 10).rowCount).toBe(0);
+  });
+
+  it('replaces the newest row and starts over after a gap or a new shape', () => {
+    const buffer = new HistoryBuffer();
+    const rows = rowsOf(4, 10, 3);
+    buffer.push(rows[0], 0, 3);
+    buffer.push(rows[1], 1, 3);
+    buffer.pushPacked(pack([rows[2], rows[3]], 3), 2, 2, 10, 3);
+    expect(buffer.rows(0, 10)).toEqual([rows[0], rows[2], rows[3]]);
+
+    buffer.pushPacked(pack([rows[0]], 3), 1, 9, 10, 3);
+    expect(buffer.firstGeneration).toBe(9);
+    expect(buffer.size).toBe(1);
+
+    buffer.pushPacked(pack([rows[0]], 4), 1, 10, 10, 4);
+    expect([buffer.size, buffer.states]).toEqual([1, 4]);
+  });
+});
@@ -0,0 +1,173 @@
+import { bitsPerCell, packCells, packedWords, unpackCells } from './packing';
+
+/**
+ * Bounded store of past generations for scrollback.
+ *
+ * Rows are packed at 1, 2 or 4 bits per cell depending on the number of
+ * states and kept in a ring buffer sized by a byte budget; once it is full
+ * the oldest rows are overwritten. Storage grows as rows arrive rather than
+ * reserving the whole budget up front.
+ */
+
+export const DEFAULT_HISTORY_BYTES = 1 << 27;
+
+// Rows allocated before the first growth step
+const INITIAL_ROWS = 1024;
+
+export class HistoryBuffer {
+  private _width = 0;
+  private _states = 2;
+  private bits = 1;
+  private rowWords = 0;
+  private _capacity = 0;
+  private data = new Uint32Array(0);
+  private allocatedRows = 0;
+  // Slot of the oldest row; only moves once the buffer is at capacity
+  private head = 0;
+  private count = 0;
+  private _lastGeneration = -1;
+
+  constructor(private readonly budgetBytes = DEFAULT_HISTORY_BYTES) {}
+
+  get width(): number {
+    return this._width;
+  }
+
+  get states(): number {
+    return this._states;
+  }
+
+  /**
+   * Most rows the buffer holds for the current width and state count
+   */
+  get capacity(): number {
+    return this._capacity;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  get firstGeneration(): number {
+    return this._lastGeneration - this.count + 1;
+  }
+
+  get lastGeneration(): number {
+    return this._lastGeneration;
+  }
+
+  /**
+   * Drop all rows and switch to a new row shape
+   */
+  reset(width: number, states: number): void {
+    this._width = width;
+    this._states = states;
+    this.bits = bitsPerCell(states);
+    this.rowWords = packedWords(width, this.bits);
+    this._capacity = Math.max(1, Math.floor(this.budgetBytes / 4 / this.rowWords));
+    this.data = new Uint32Array(0);
+    this.allocatedRows = 0;
+    this.clear();
+  }
+
+  clear(): void {
+    this.head = 0;
+    this.count = 0;
+    this._lastGeneration = -1;
+  }
+
+  /**
+   * Record the row for `generation`. Pushing the newest generation again
+   * replaces it; anything other than the next generation starts over.
+   */
+  push(row: Uint8Array, generation: number, states: number): void {
+    if (row.length !== this._width || states !== this._states) this.reset(row.length, states);
+    const slot = this.claim(generation);
+    packCells(row, this.bits, this.data, slot * this.rowWords);
+  }
+
+  /**
+   * Record `rowCount` consecutive rows ending at `lastGeneration`, already
+   * packed the way the buffer keeps them (see packCells), by copying their
+   * words. Rows that would be overwritten straight away are skipped.
+   */
+  pushPacked(words: Uint32Array, rowCount: number, lastGeneration: number, width: number, states: number): void {
+    if (width !== this._width || states !== this._states) this.reset(width, states);
+    const { rowWords } = this;
+    for (let i = Math.max(0, rowCount - this._capacity); i < rowCount; i++) {
+      const slot = this.claim(lastGeneration - rowCount + 1 + i);
+      this.data.set(words.subarray(i * rowWords, (i + 1) * rowWords), slot * rowWords);
+    }
+  }
+
+  /**
+   * The row for `generation`, or null when it is not held
+   */
+  get(generation: number): Uint8Array | null {
+    const index = generation - this.firstGeneration;
+    if (this.count === 0 || index < 0 || index >= this.count) return null;
+    return this.read(this.slot(index));
+  }
+
+  /**
+   * Rows for generations [first, last), clipped to what is held
+   */
+  rows(first: number, last: number): Uint8Array[] {
+    const rows: Uint8Array[] = [];
+    const start = Math.max(first, this.firstGeneration);
+    const end = Math.min(last, this._lastGeneration + 1);
+    for (let generation = start; generation < end; generation++) {
+      rows.push(this.read(this.slot(generation - this.firstGeneration)));
+    }
+    return rows;
+  }
+
+  /**
+   * Rows for generations [first, last), clipped to what is held, copied
+   * out packed the way pushPacked takes them
+   */
+  packedRows(first: number, last: number): { firstGeneration: number; rowCount: number; words: Uint32Array } {
+    const start = Math.max(first, this.firstGeneration);
+    const rowCount = Math.max(0, Math.min(last, this._lastGeneration + 1) - start);
+    const { rowWords } = this;
+    const words = new Uint32Array(rowCount * rowWords);
+    for (let i = 0; i < rowCount; i++) {
+      const slot = this.slot(start - this.firstGeneration + i);
+      words.set(this.data.subarray(slot * rowWords, (slot + 1) * rowWords), i * rowWords);
+    }
+    return { firstGeneration: start, rowCount, words };
+  }
+
+  // Slot for `generation`, making room for it
+  private claim(generation: number): number {
+    if (this.count > 0 && generation === this._lastGeneration) return this.slot(this.count - 1);
+    if (this.count > 0 && generation !== this._lastGeneration + 1) this.clear();
+
+    if (this.count === this._capacity) {
+      this.head = (this.head + 1) % this.allocatedRows;
+      this.count--;
+    } else if (this.count === this.allocatedRows) {
+      this.grow();
+    }
+    this.count++;
+    this._lastGeneration = generation;
+    return this.slot(this.count - 1);
+  }
+
+  private slot(index: number): number {
+    return (this.head + index) % this.allocatedRows;
+  }
+
+  // Only called while the buffer has never wrapped, so head is still 0
+  private grow(): void {
+    const rows = Math.min(this._capacity, Math.max(INITIAL_ROWS, this.allocatedRows * 2));
+    const data = new Uint32Array(rows * this.rowWords);
+    data.set(this.data);
+    this.data = data;
+    this.allocatedRows = rows;
+  }
+
+  private read(slot: number): Uint8Array {
+    return unpackCells(this.data, this._width, this.bits, slot * this.rowWords);
+  }
+}
@@ -0,0 +1,76 @@
+import { findPreimages, PreimageCount, PreimageResult } from './preimages';
+import { PreimagesRequest, PreimagesResponse } from './protocol';
+import { EngineConfig } from './SimulationEngine';
+
+/**
+ * Main-thread handle on the preimage worker. Without worker support the
+ * search runs in place, blocking the page while it runs.
+ */
+export class PreimagesWorkerClient {
+  private worker: Worker | null = null;
+  private id = 0;
+  // The latest search when there is no worker to keep it
+  private local: PreimageResult | null = null;
+
+  /**
+   * Called with the count for the most recent search only
+   */
+  onCount: ((result: PreimageCount) => void) | null = null;
+
+  /**
+   * Called with preimage `index` of the most recent search only
+   */
+  onPreimage: ((index: bigint, row: Uint8Array) => void) | null = null;
+
+  constructor() {
+    if (typeof Worker === 'undefined') return;
+    this.worker = new Worker(new URL('./preimages.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<PreimagesResponse>) => {
+      const response = event.data;
+      if (response.id !== this.id) return;
+      if (response.type === 'count') this.onCount?.(response.result);
+      else this.onPreimage?.(response.index, new Uint8Array(response.row));
+    };
+  }
+
+  find(row: Uint8Array, config: EngineConfig): void {
+    const id = ++this.id;
+    this.local = null;
+    if (this.worker) {
+      const message: PreimagesRequest = { type: 'find', id, row, config };
+      this.worker.postMessage(message);
+      return;
+    }
+    setTimeout(() => {
+      if (id !== this.id) return;
+      const result = findPreimages(row, config);
+      this.local = result;
+      this.onCount?.(result.ok ? { ok: true, count: result.count } : result);
+    }, 0);
+  }
+
+  // Asks for a preimage of the most recent search once its count is in
+  pick(index: bigint): void {
+    const id = this.id;
+    if (this.worker) {
+      const message: PreimagesRequest = { type: 'pick', id, index };
+      this.worker.postMessage(message);
+      return;
+    }
+    setTimeout(() => {
+      if (id === this.id && this.local?.ok) this.onPreimage?.(index, this.local.pick(index));
+    }, 0);
+  }
+
+  // Forgets the current search; answers still in flight are dropped
+  cancel(): void {
+    this.id++;
+    this.local = null;
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.onCount = null;
+    this.onPreimage = null;
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { EngineConfig, SimulationEngine } from './SimulationEngine';
+import { BoundaryType } from '../utils/boundary';
+import { RuleKind, maxRuleNumber } from '../utils/rules';
+
+// Small seeded generator (mulberry32) so failures repeat
+function createRng(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const BOUNDARIES: BoundaryType[] = ['periodic', 'fixed', 'reflective', 'open'];
+
+// Straight from the definitions: digit `pattern` (or the neighborhood sum)
+// of the rule number in base k, with cells beyond the edges spelled out
+function naiveStep(row: Uint8Array, config: EngineConfig): Uint8Array {
+  const { rule, radius, states, ruleKind, boundary } = config;
+  const width = row.length;
+  const cell = (i: number): number => {
+    if (i >= 0 && i < width) return row[i];
+    switch (boundary.type) {
+      case 'periodic':
+        return row[((i % width) + width) % width];
+      case 'fixed':
+        return i < 0 ? boundary.left : boundary.right;
+      case 'reflective':
+        return width === 1 ? row[0] : i < 0 ? cell(-i) : cell(2 * (width - 1) - i);
+      case 'open':
+        return i < 0 ? row[0] : row[width - 1];
+    }
+  };
+  const next = new Uint8Array(width);
+  for (let i = 0; i < width; i++) {
+    let pattern = 0;
+    for (let d = -radius; d <= radius; d++) {
+      pattern = ruleKind === 'totalistic' ? pattern + cell(i + d) : pattern * states + cell(i + d);
+    }
+    next[i] = Number((rule / BigInt(states) ** BigInt(pattern)) % BigInt(states));
+  }
+  return next;
+}
+
+function randomRule(random: () => number, radius: number, states: number, kind: RuleKind): bigint {
+  const max = maxRuleNumber({ radius, states, kind });
+  let rule = 0n;
+  while (rule <= max) rule = rule * 0x100000000n + BigInt(Math.floor(random() * 0x100000000));
+  return rule % (max + 1n);
+}
+
+describe('SimulationEngine', () => {
+  const random = createRng(1234);
+  const shapes: [number, number, RuleKind][] = [
+    [1, 2, 'general'],
+    [2, 2, 'general'],
+    [3, 2, 'general'],
+    [3, 2, 'totalistic'],
+    [1, 3, 'general'],
+    [2, 3, 'totalistic'],
+    [1, 5, 'totalistic'],
+  ];
+
+  for (const [radius, states, ruleKind] of shapes) {
+    for (const type of BOUNDARIES) {
+      it(`matches the definition for r=${radius} k=${states} ${ruleKind} with ${type} boundaries`, () => {
+        for (const width of [1, 2, 7, 31, 32, 33, 64, 97]) {
+          const config: EngineConfig = {
+            rule: randomRule(random, radius, states, ruleKind),
+            radius,
+            states,
+            ruleKind,
+            boundary: { type, left: states - 1, right: 0 },
+          };
+          let row = Uint8Array.from({ length: width }, () => Math.floor(random() * states));
+          const engine = new SimulationEngine(config, row);
+          for (let generation = 1; generation <= 8; generation++) {
+            engine.step();
+            row = naiveStep(row, config);
+            expect(engine.getCells()).toEqual(row);
+            expect(engine.generation).toBe(generation);
+          }
+        }
+      });
+    }
+  }
+
+  it('runs rule 30 from a single cell', () => {
+    const row = new Uint8Array(11);
+    row[5] = 1;
+    const engine = new SimulationEngine({ rule: 30n }, row);
+    engine.step(3);
+    expect(Array.from(engine.getCells()).join('')).toBe('00110111100');
+  });
+
+  it('carries the lattice over when switching between packed and byte storage', () => {
+    const row = Uint8Array.from([0, 1, 1, 0, 1, 0, 0, 1]);
+    const engine = new SimulationEngine({ rule: 90n }, row);
+    expect(engine.isPacked).toBe(true);
+    engine.configure({ states: 3, ruleKind: 'totalistic', rule: 0n });
+    expect(engine.isPacked).toBe(false);
+    expect(engine.getCells()).toEqual(row);
+    engine.configure({ states: 2, ruleKind: 'general', rule: 90n });
+    expect(engine.getCells()).toEqual(row);
+  });
+});
@@ -0,0 +1,271 @@
+import { RuleKind, RuleSpec, ruleLookup, ruleTableSize, ruleToToggles } from '../utils/rules';
+import { BoundaryCondition, DEFAULT_BOUNDARY, boundaryIndex, cellAt } from '../utils/boundary';
+import { WORD_BITS, lastWordMask, packRow, unpackRow, wordCount } from './packing';
+
+/**
+ * Headless 1D cellular automaton engine.
+ *
+ * Runs without window, React or Zustand so it can be used from the stores,
+ * a worker, exporters or Node. Binary rules run on a bit-packed lattice and
+ * evaluate 32 cells per machine word; multi-state rules fall back to one
+ * byte per cell.
+ */
+
+export interface EngineConfig {
+  rule: bigint;
+  radius: number;
+  states: number;
+  ruleKind: RuleKind;
+  boundary: BoundaryCondition;
+}
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  rule: 30n,
+  radius: 1,
+  states: 2,
+  ruleKind: 'general',
+  boundary: DEFAULT_BOUNDARY,
+};
+
+export class SimulationEngine {
+  private config: EngineConfig = DEFAULT_ENGINE_CONFIG;
+  private lookup: Uint8Array = new Uint8Array(0);
+  private width = 0;
+  private _generation = 0;
+
+  // Binary lattices: current and next row, one bit per cell
+  private packed = new Uint32Array(0);
+  private packedNext = new Uint32Array(0);
+  // Output masks for every neighborhood pattern, the leaves of the mux tree
+  private leaves = new Int32Array(0);
+  private muxScratch = new Int32Array(0);
+  private neighborWords = new Int32Array(0);
+
+  // Multi-state lattices: current and next row, one byte per cell
+  private bytes = new Uint8Array(0);
+  private bytesNext = new Uint8Array(0);
+
+  constructor(config: Partial<EngineConfig> = {}, cells: Uint8Array = new Uint8Array(0)) {
+    this.configure(config);
+    this.setCells(cells);
+  }
+
+  get generation(): number {
+    return this._generation;
+  }
+
+  get cellCount(): number {
+    return this.width;
+  }
+
+  /**
+   * Whether the lattice is stored bit-packed (binary rules only)
+   */
+  get isPacked(): boolean {
+    return this.config.states === 2;
+  }
+
+  getConfig(): EngineConfig {
+    return this.config;
+  }
+
+  /**
+   * Update the rule or boundary. Cheap when nothing relevant changed.
+   */
+  configure(changes: Partial<EngineConfig>): void {
+    const previous = this.config;
+    const next = { ...previous, ...changes };
+    this.config = next;
+
+    const ruleChanged =
+      this.lookup.length === 0 ||
+      next.rule !== previous.rule ||
+      next.radius !== previous.radius ||
+      next.states !== previous.states ||
+      next.ruleKind !== previous.ruleKind;
+
+    if (ruleChanged) {
+      this.buildLookup();
+    }
+
+    // Switching between packed and byte storage carries the lattice over
+    if (next.states !== previous.states && (next.states === 2) !== (previous.states === 2)) {
+      const cells = previous.states === 2
+        ? unpackRow(this.packed, this.width)
+        : this.bytes.map((cell) => Math.min(cell, 1));
+      this.setCells(cells, this._generation);
+    }
+  }
+
+  /**
+   * Replace the lattice. The lattice width follows the row length.
+   */
+  setCells(cells: Uint8Array, generation = 0): void {
+    this.width = cells.length;
+    this._generation = generation;
+
+    if (this.isPacked) {
+      const words = wordCount(this.width);
+      this.packed = packRow(cells, new Uint32Array(words));
+      this.packedNext = new Uint32Array(words);
+    } else {
+      this.bytes = Uint8Array.from(cells);
+      this.bytesNext = new Uint8Array(this.width);
+    }
+  }
+
+  /**
+   * Copy of the current row, one byte per cell
+   */
+  getCells(): Uint8Array {
+    return this.isPacked ? unpackRow(this.packed, this.width) : this.bytes.slice();
+  }
+
+  /**
+   * Copy of the current row bit-packed; multi-state cells are packed as
+   * nonzero = 1
+   */
+  getPackedCells(): Uint32Array {
+    return this.isPacked ? this.packed.slice() : packRow(this.bytes);
+  }
+
+  step(count = 1): void {
+    if (this.width === 0) return;
+
+    for (let n = 0; n < count; n++) {
+      if (this.isPacked) {
+        this.stepPacked();
+      } else {
+        this.stepBytes();
+      }
+      this._generation++;
+    }
+  }
+
+  private buildLookup(): void {
+    const { rule, radius, states, ruleKind } = this.config;
+    const spec: RuleSpec = { radius, states, kind: ruleKind };
+    const table = ruleLookup(ruleToToggles(rule, spec));
+
+    if (states !== 2) {
+      this.lookup = table;
+      return;
+    }
+
+    // Binary rules always run from a general table, so expand totalistic
+    // rules by neighborhood popcount
+    const size = ruleTableSize({ radius, states: 2, kind: 'general' });
+    const lookup = new Uint8Array(size);
+    for (let pattern = 0; pattern < size; pattern++) {
+      lookup[pattern] = ruleKind === 'totalistic' ? table[popcount(pattern)] : table[pattern];
+    }
+    this.lookup = lookup;
+
+    this.leaves = new Int32Array(size);
+    for (let pattern = 0; pattern < size; pattern++) {
+      this.leaves[pattern] = lookup[pattern] ? -1 : 0;
+    }
+    this.muxScratch = new Int32Array(size);
+    this.neighborWords = new Int32Array(2 * radius + 1);
+  }
+
+  /**
+   * Bit-parallel step: for every word, fetch the 2r+1 shifted neighbor
+   * words and reduce the rule table through a tree of bitwise muxes, one
+   * level per neighborhood bit.
+   */
+  private stepPacked(): void {
+    const { radius } = this.config;
+    const span = 2 * radius + 1;
+    const words = this.packed.length;
+    const leaves = this.leaves;
+    const level = this.muxScratch;
+    const neighbors = this.neighborWords;
+
+    for (let w = 0; w < words; w++) {
+      const start = w * WORD_BITS;
+      for (let j = 0; j < span; j++) {
+        neighbors[j] = this.readWord(start + j - radius);
+      }
+
+      level.set(leaves);
+      let length = leaves.length;
+      // Pattern bit 0 is the rightmost neighbor, so reduce from the right
+      for (let j = span - 1; j >= 0; j--) {
+        const v = neighbors[j];
+        const half = length >> 1;
+        for (let i = 0; i < half; i++) {
+          level[i] = (level[2 * i] & ~v) | (level[2 * i + 1] & v);
+        }
+        length = half;
+      }
+
+      this.packedNext[w] = level[0];
+    }
+
+    this.packedNext[words - 1] &= lastWordMask(this.width);
+
+    const current = this.packed;
+    this.packed = this.packedNext;
+    this.packedNext = current;
+  }
+
+  /**
+   * 32 cells starting at `start`, which may reach beyond either edge
+   */
+  private readWord(start: number): number {
+    const src = this.packed;
+
+    if (start >= 0 && start + WORD_BITS <= this.width) {
+      const w = start >>> 5;
+      const b = start & 31;
+      return b === 0 ? src[w] : (src[w] >>> b) | (src[w + 1] << (WORD_BITS - b));
+    }
+
+    // Near the edges, resolve each cell through the boundary condition
+    const { boundary } = this.config;
+    let word = 0;
+    for (let bit = 0; bit < WORD_BITS; bit++) {
+      const index = boundaryIndex(start + bit, this.width, boundary.type);
+      const cell = index === -1
+        ? boundary.left
+        : index === -2
+          ? boundary.right
+          : (src[index >>> 5] >>> (index & 31)) & 1;
+      word |= (cell & 1) << bit;
+    }
+    return word;
+  }
+
+  private stepBytes(): void {
+    const { radius, states, ruleKind, boundary } = this.config;
+    const cells = this.bytes;
+    const next = this.bytesNext;
+    const lookup = this.lookup;
+    const width = this.width;
+    const totalistic = ruleKind === 'totalistic';
+
+    for (let i = 0; i < width; i++) {
+      // Read the 2r+1 neighborhood left to right, leftmost cell as the high digit
+      let idx = 0;
+      for (let d = -radius; d <= radius; d++) {
+        const j = i + d;
+        const cell = j >= 0 && j < width ? cells[j] : cellAt(cells, j, boundary);
+        idx = totalistic ? idx + cell : idx * states + cell;
+      }
+      next[i] = lookup[idx];
+    }
+
+    this.bytes = next;
+    this.bytesNext = cells;
+  }
+}
+
+function popcount(value: number): number {
+  let count = 0;
+  while (value) {
+    count += value & 1;
+    value >>>= 1;
+  }
+  return count;
+}
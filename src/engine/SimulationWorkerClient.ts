@@ -0,0 +1,123 @@
+import { EngineConfig } from './SimulationEngine';
+import { WorkerRequest, WorkerResponse } from './protocol';
+import { unpackRow, wordCount } from './packing';
+
+/**
+ * Every row of a batch as the worker sent it: packed for the history, with
+ * the cycle keys and statistics of each (see RowBatch)
+ */
+export interface BatchHistory {
+  rowCount: number;
+  width: number;
+  states: number;
+  words: Uint32Array;
+  cycleKeys: Float64Array | null;
+  statistics: Float64Array | null;
+  blockSize: number;
+}
+
+/**
+ * Main-thread handle on the simulation worker. Decodes the newest rows of
+ * each batch into one byte per cell, ready for the stores and renderers;
+ * the rest of the batch is passed on as it came.
+ */
+export class SimulationWorkerClient {
+  private worker: Worker;
+  private epoch = 0;
+
+  /**
+   * Called with the newest rows (oldest first), the generation of the last
+   * one and every row of the batch
+   */
+  onBatch: ((rows: Uint8Array[], generation: number, computed: BatchHistory) => void) | null = null;
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  constructor() {
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleBatch(event.data);
+  }
+
+  init(config: EngineConfig, cells: Uint8Array, generation: number, keepRows: number, blockSize: number | null): void {
+    this.epoch++;
+    this.send({ type: 'init', config, cells, generation, keepRows, blockSize, epoch: this.epoch });
+  }
+
+  play(speed: number): void {
+    this.send({ type: 'play', speed });
+  }
+
+  pause(): void {
+    this.send({ type: 'pause' });
+  }
+
+  step(count = 1): void {
+    this.send({ type: 'step', count });
+  }
+
+  setRule(config: Partial<EngineConfig>): void {
+    this.send({ type: 'rule', config });
+  }
+
+  seed(cells: Uint8Array, generation: number): void {
+    this.epoch++;
+    this.send({ type: 'seed', cells, generation, epoch: this.epoch });
+  }
+
+  setSpeed(speed: number): void {
+    this.send({ type: 'speed', speed });
+  }
+
+  setKeepRows(keepRows: number): void {
+    this.send({ type: 'view', keepRows });
+  }
+
+  /**
+   * Measure statistics at `blockSize` from now on, or stop when null
+   */
+  setStatistics(blockSize: number | null): void {
+    this.send({ type: 'statistics', blockSize });
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+    this.onBatch = null;
+  }
+
+  private send(message: WorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+
+  private handleBatch(batch: WorkerResponse): void {
+    // Rows computed from a lattice that has since been replaced
+    if (batch.epoch !== this.epoch) return;
+
+    const { width, rowCount } = batch;
+    const rows: Uint8Array[] = [];
+
+    if (batch.packed) {
+      const words = new Uint32Array(batch.data);
+      const rowSize = wordCount(width);
+      for (let i = 0; i < rowCount; i++) {
+        rows.push(unpackRow(words.subarray(i * rowSize, (i + 1) * rowSize), width));
+      }
+    } else {
+      const bytes = new Uint8Array(batch.data);
+      for (let i = 0; i < rowCount; i++) {
+        rows.push(bytes.slice(i * width, (i + 1) * width));
+      }
+    }
+
+    this.onBatch?.(rows, batch.generation, {
+      rowCount: batch.historyCount,
+      width,
+      states: batch.states,
+      words: new Uint32Array(batch.history),
+      cycleKeys: batch.cycleKeys && new Float64Array(batch.cycleKeys),
+      statistics: batch.statistics && new Float64Array(batch.statistics),
+      blockSize: batch.blockSize,
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { SimulationEngine } from './SimulationEngine';
+import { BoundaryCondition } from '../utils/boundary';
+import { resizeRow } from '../utils/lattice';
+
+/**
+ * Thumbnails of every elementary rule run from the same row, for the rule
+ * atlas. Each is a small spacetime diagram, one byte per cell, generation
+ * 0 at the top.
+ */
+
+export const ELEMENTARY_RULE_COUNT = 256;
+export const THUMBNAIL_WIDTH = 64;
+export const THUMBNAIL_GENERATIONS = 32;
+
+export interface Atlas {
+  // THUMBNAIL_WIDTH × THUMBNAIL_GENERATIONS cells per rule, rule 0 first
+  cells: Uint8Array;
+  // 1 for rules whose run dies out, turns uniform or freezes
+  trivial: Uint8Array;
+}
+
+/**
+ * The middle of `row`, reduced to two states: any live cell counts as 1
+ */
+export function thumbnailRow(row: Uint8Array): Uint8Array {
+  return resizeRow(row, THUMBNAIL_WIDTH).map((cell) => (cell > 0 ? 1 : 0));
+}
+
+export function computeAtlas(row: Uint8Array, boundary: BoundaryCondition): Atlas {
+  const size = THUMBNAIL_WIDTH * THUMBNAIL_GENERATIONS;
+  const cells = new Uint8Array(ELEMENTARY_RULE_COUNT * size);
+  const trivial = new Uint8Array(ELEMENTARY_RULE_COUNT);
+  const start = thumbnailRow(row);
+  // Binary boundaries only; higher fixed edges read as live
+  const edges = { ...boundary, left: Math.min(boundary.left, 1), right: Math.min(boundary.right, 1) };
+  const engine = new SimulationEngine({ radius: 1, states: 2, ruleKind: 'general', boundary: edges });
+
+  for (let rule = 0; rule < ELEMENTARY_RULE_COUNT; rule++) {
+    engine.configure({ rule: BigInt(rule) });
+    engine.setCells(start);
+    const offset = rule * size;
+    cells.set(start, offset);
+
+    let previous = start;
+    let row = start;
+    for (let generation = 1; generation < THUMBNAIL_GENERATIONS; generation++) {
+      engine.step();
+      previous = row;
+      row = engine.getCells();
+      cells.set(row, offset + generation * THUMBNAIL_WIDTH);
+    }
+
+    const uniform = row.every((cell) => cell === row[0]);
+    const frozen = row.every((cell, i) => cell === previous[i]);
+    trivial[rule] = uniform || frozen ? 1 : 0;
+  }
+
+  return { cells, trivial };
+}
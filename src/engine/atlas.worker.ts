@@ -0,0 +1,11 @@
+import { computeAtlas } from './atlas';
+import { AtlasRequest, AtlasResponse } from './protocol';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<AtlasRequest>) => {
+  const { id, row, boundary } = event.data;
+  const { cells, trivial } = computeAtlas(row, boundary);
+  const response: AtlasResponse = { type: 'atlas', id, cells: cells.buffer, trivial: trivial.buffer };
+  ctx.postMessage(response, [cells.buffer, trivial.buffer]);
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { computeBasins, rowState, stateRow } from './basins';
+import { SimulationEngine } from './SimulationEngine';
+import { RuleKind } from '../utils/rules';
+
+describe('computeBasins', () => {
+  const rules: [bigint, number, RuleKind][] = [
+    [30n, 2, 'general'],
+    [110n, 2, 'general'],
+    [90n, 2, 'general'],
+    [777n, 3, 'totalistic'],
+  ];
+
+  for (const [rule, states, ruleKind] of rules) {
+    it(`splits the state graph of rule ${rule} (k=${states}) into basins`, () => {
+      const config = { rule, radius: 1, states, ruleKind };
+      const ringSize = states === 2 ? 10 : 6;
+      const graph = computeBasins(config, ringSize);
+      const count = Math.pow(states, ringSize);
+
+      const engine = new SimulationEngine({ ...config, boundary: { type: 'periodic', left: 0, right: 0 } });
+      const predecessors = new Uint32Array(count);
+      for (let state = 0; state < count; state++) {
+        engine.setCells(stateRow(state, ringSize, states));
+        engine.step();
+        const next = rowState(engine.getCells(), states);
+        expect(graph.successor[state]).toBe(next);
+        predecessors[next]++;
+      }
+
+      expect(graph.basins.reduce((sum, basin) => sum + basin.size, 0)).toBe(count);
+      graph.basins.forEach((basin, index) => {
+        // The attractor is a cycle, each state followed by its successor
+        basin.attractor.forEach((state, i) => {
+          expect(graph.successor[state]).toBe(basin.attractor[(i + 1) % basin.attractor.length]);
+          expect(graph.depth[state]).toBe(0);
+          expect(graph.basin[state]).toBe(index);
+        });
+        if (index > 0) expect(basin.size).toBeLessThanOrEqual(graph.basins[index - 1].size);
+      });
+
+      let gardens = 0;
+      for (let state = 0; state < count; state++) {
+        // Transient states are one step further out than their successor
+        if (graph.depth[state] > 0) expect(graph.depth[graph.successor[state]]).toBe(graph.depth[state] - 1);
+        expect(graph.basin[graph.successor[state]]).toBe(graph.basin[state]);
+        if (predecessors[state] === 0) gardens++;
+      }
+      expect(graph.basins.reduce((sum, basin) => sum + basin.gardenOfEden, 0)).toBe(gardens);
+    });
+  }
+
+  it('numbers states with cell 0 as the most significant digit', () => {
+    expect(Array.from(stateRow(5, 4, 2))).toEqual([0, 1, 0, 1]);
+    expect(rowState(Uint8Array.from([2, 0, 1]), 3)).toBe(19);
+  });
+});
@@ -0,0 +1,149 @@
+import { EngineConfig, SimulationEngine } from './SimulationEngine';
+
+/**
+ * Basins of attraction on small rings.
+ *
+ * Every one of the k^N rows of an N-cell ring is stepped once with the
+ * simulation engine, giving the complete state transition graph. Each
+ * state leads to exactly one successor, so the graph splits into basins:
+ * one attractor cycle per basin, with trees of transient states rooted on
+ * the cycle. States with no predecessor are Gardens of Eden; they are the
+ * leaves of the trees.
+ *
+ * States are numbered by reading the row as a base-k number, cell 0 first.
+ */
+
+// Most states we will enumerate; rings are limited to fit
+export const MAX_BASIN_STATES = 1 << 20;
+
+export interface Basin {
+  // States of the attractor cycle, each followed by its successor
+  attractor: number[];
+  size: number;
+  gardenOfEden: number;
+  // Longest run of transient states before reaching the cycle
+  maxTransient: number;
+}
+
+export interface BasinGraph {
+  ringSize: number;
+  states: number;
+  // Successor of every state
+  successor: Uint32Array;
+  // Basin index of every state, into `basins`
+  basin: Uint32Array;
+  // Steps from every state to the attractor, 0 on the cycle
+  depth: Uint32Array;
+  // Largest first
+  basins: Basin[];
+}
+
+/**
+ * Largest ring whose states can all be enumerated
+ */
+export function maxRingSize(states: number): number {
+  return Math.floor(Math.log2(MAX_BASIN_STATES) / Math.log2(states));
+}
+
+export function stateRow(state: number, ringSize: number, states: number): Uint8Array {
+  const row = new Uint8Array(ringSize);
+  for (let i = ringSize - 1; i >= 0; i--) {
+    row[i] = state % states;
+    state = Math.floor(state / states);
+  }
+  return row;
+}
+
+export function rowState(row: Uint8Array, states: number): number {
+  let state = 0;
+  for (let i = 0; i < row.length; i++) {
+    state = state * states + row[i];
+  }
+  return state;
+}
+
+export function computeBasins(config: Omit<EngineConfig, 'boundary'>, ringSize: number): BasinGraph {
+  const { states } = config;
+  const count = Math.pow(states, ringSize);
+  if (count > MAX_BASIN_STATES) {
+    throw new Error(`${count} states on a ${ringSize} cell ring are too many to enumerate`);
+  }
+
+  const engine = new SimulationEngine({ ...config, boundary: { type: 'periodic', left: 0, right: 0 } });
+  const successor = new Uint32Array(count);
+  const predecessors = new Uint32Array(count);
+  for (let state = 0; state < count; state++) {
+    engine.setCells(stateRow(state, ringSize, states));
+    engine.step();
+    const next = rowState(engine.getCells(), states);
+    successor[state] = next;
+    predecessors[next]++;
+  }
+
+  // Follow every unvisited state until the walk meets a visited one. Meeting
+  // the current walk closes a new attractor; meeting an earlier walk joins
+  // its basin.
+  const UNVISITED = 0xffffffff;
+  const ON_PATH = 0xfffffffe;
+  const basin = new Uint32Array(count).fill(UNVISITED);
+  const depth = new Uint32Array(count);
+  const basins: Basin[] = [];
+  const path: number[] = [];
+
+  for (let start = 0; start < count; start++) {
+    if (basin[start] !== UNVISITED) continue;
+
+    let state = start;
+    while (basin[state] === UNVISITED) {
+      basin[state] = ON_PATH;
+      path.push(state);
+      state = successor[state];
+    }
+
+    let id: number;
+    let nextDepth: number;
+    if (basin[state] === ON_PATH) {
+      id = basins.length;
+      const attractor: number[] = [];
+      let member = state;
+      do {
+        attractor.push(member);
+        basin[member] = id;
+        depth[member] = 0;
+        member = successor[member];
+      } while (member !== state);
+      basins.push({ attractor, size: attractor.length, gardenOfEden: 0, maxTransient: 0 });
+      // The cycle was the tail of the path
+      path.length -= attractor.length;
+      nextDepth = 1;
+    } else {
+      id = basin[state];
+      nextDepth = depth[state] + 1;
+    }
+
+    // The rest of the path leads into the basin, last step first
+    for (let i = path.length - 1; i >= 0; i--, nextDepth++) {
+      const member = path[i];
+      basin[member] = id;
+      depth[member] = nextDepth;
+    }
+    const found = basins[id];
+    found.size += path.length;
+    found.maxTransient = Math.max(found.maxTransient, nextDepth - 1);
+    path.length = 0;
+  }
+
+  for (let state = 0; state < count; state++) {
+    if (predecessors[state] === 0) basins[basin[state]].gardenOfEden++;
+  }
+
+  // Renumber so the largest basin comes first
+  const order = basins.map((_, i) => i).sort((a, b) => basins[b].size - basins[a].size);
+  const renumber = new Uint32Array(basins.length);
+  order.forEach((old, i) => (renumber[old] = i));
+  for (let state = 0; state < count; state++) {
+    basin[state] = renumber[basin[state]];
+  }
+
+  return { ringSize, states, successor, basin, depth, basins: order.map((i) => basins[i]) };
+}
@@ -0,0 +1,21 @@
+import { computeBasins } from './basins';
+import { BasinsRequest, BasinsResponse } from './protocol';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<BasinsRequest>) => {
+  const { id, config, ringSize } = event.data;
+  const graph = computeBasins(config, ringSize);
+  const { successor, basin, depth } = graph;
+  const response: BasinsResponse = {
+    type: 'basins',
+    id,
+    ringSize,
+    states: graph.states,
+    successor: successor.buffer,
+    basin: basin.buffer,
+    depth: depth.buffer,
+    basins: graph.basins,
+  };
+  ctx.postMessage(response, [successor.buffer, basin.buffer, depth.buffer]);
+};
@@ -0,0 +1,77 @@
+/**
+ * Bit packing for binary rows: cell i lives in bit (i & 31) of word (i >> 5).
+ * Bits past the end of the row in the last word are always zero.
+ */
+
+export const WORD_BITS = 32;
+
+export function wordCount(width: number): number {
+  return Math.ceil(width / WORD_BITS);
+}
+
+export function packRow(cells: ArrayLike<number>, out = new Uint32Array(wordCount(cells.length))): Uint32Array {
+  out.fill(0);
+  for (let i = 0; i < cells.length; i++) {
+    if (cells[i]) {
+      out[i >>> 5] |= 1 << (i & 31);
+    }
+  }
+  return out;
+}
+
+/**
+ * Unpack `width` cells starting at cell `start`
+ */
+export function unpackRow(words: Uint32Array, width: number, out = new Uint8Array(width), start = 0): Uint8Array {
+  for (let i = 0; i < width; i++) {
+    const cell = start + i;
+    out[i] = (words[cell >>> 5] >>> (cell & 31)) & 1;
+  }
+  return out;
+}
+
+/**
+ * Mask selecting the valid bits of the last word of a row
+ */
+export function lastWordMask(width: number): number {
+  const tail = width % WORD_BITS;
+  return tail === 0 ? 0xffffffff : (1 << tail) - 1;
+}
+
+/**
+ * Bits per cell for compact multi-state storage; always divides a byte
+ */
+export function bitsPerCell(states: number): number {
+  return states <= 2 ? 1 : states <= 4 ? 2 : 4;
+}
+
+/**
+ * Words per row when cells are packed at `bits` bits
+ */
+export function packedWords(width: number, bits: number): number {
+  return Math.max(1, Math.ceil((width * bits) / WORD_BITS));
+}
+
+/**
+ * Pack multi-state cells at `bits` bits into `out` from word `offset`:
+ * cell i lives at bit (i % perWord) * bits of word floor(i / perWord).
+ * At one bit per cell this is the packRow layout.
+ */
+export function packCells(cells: ArrayLike<number>, bits: number, out: Uint32Array, offset = 0): void {
+  const perWord = WORD_BITS / bits;
+  out.fill(0, offset, offset + packedWords(cells.length, bits));
+  for (let i = 0; i < cells.length; i++) {
+    if (cells[i]) {
+      out[offset + Math.floor(i / perWord)] |= cells[i] << ((i % perWord) * bits);
+    }
+  }
+}
+
+export function unpackCells(words: Uint32Array, width: number, bits: number, offset = 0, out = new Uint8Array(width)): Uint8Array {
+  const perWord = WORD_BITS / bits;
+  const mask = (1 << bits) - 1;
+  for (let i = 0; i < width; i++) {
+    out[i] = (words[offset + Math.floor(i / perWord)] >>> ((i % perWord) * bits)) & mask;
+  }
+  return out;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { findPreimages } from './preimages';
+import { EngineConfig, SimulationEngine } from './SimulationEngine';
+import { BoundaryType } from '../utils/boundary';
+import { RuleKind } from '../utils/rules';
+import { stateRow } from './basins';
+
+const BOUNDARIES: BoundaryType[] = ['periodic', 'fixed', 'reflective', 'open'];
+
+describe('findPreimages', () => {
+  const rules: [bigint, number, number, RuleKind][] = [
+    [30n, 1, 2, 'general'],
+    [90n, 1, 2, 'general'],
+    [110n, 1, 2, 'general'],
+    [0xdeadbeefn, 2, 2, 'general'],
+    [1234n, 1, 3, 'totalistic'],
+    [5000n, 1, 3, 'general'],
+  ];
+
+  for (const [rule, radius, states, ruleKind] of rules) {
+    for (const type of BOUNDARIES) {
+      it(`finds exactly the rows that step to the target for rule ${rule}, k=${states}, ${type}`, () => {
+        const config: EngineConfig = { rule, radius, states, ruleKind, boundary: { type, left: 1, right: 0 } };
+        const width = states === 2 ? 9 : 6;
+        const count = Math.pow(states, width);
+
+        // Every row's image, by brute force
+        const preimages = new Map<string, string[]>();
+        const engine = new SimulationEngine(config);
+        for (let state = 0; state < count; state++) {
+          const row = stateRow(state, width, states);
+          engine.setCells(row);
+          engine.step();
+          const image = engine.getCells().join('');
+          preimages.set(image, [...(preimages.get(image) ?? []), row.join('')]);
+        }
+
+        for (let state = 0; state < count; state += 7) {
+          const target = stateRow(state, width, states);
+          const expected = preimages.get(target.join('')) ?? [];
+          const result = findPreimages(target, config);
+          if (!result.ok) throw new Error(result.error);
+          expect(result.count).toBe(BigInt(expected.length));
+          const picked = [];
+          for (let index = 0n; index < result.count; index++) picked.push(result.pick(index).join(''));
+          expect(picked.sort()).toEqual([...expected].sort());
+        }
+      });
+    }
+  }
+
+  it('finds no preimage for a Garden of Eden', () => {
+    // Rule 0 maps every row to all zeros, so nothing else has a preimage
+    const config: EngineConfig = { rule: 0n, radius: 1, states: 2, ruleKind: 'general', boundary: { type: 'periodic', left: 0, right: 0 } };
+    const garden = findPreimages(Uint8Array.from([1, 1, 0, 1, 1]), config);
+    const empty = findPreimages(new Uint8Array(5), config);
+    if (!garden.ok || !empty.ok) throw new Error('not computed');
+    expect(garden.count).toBe(0n);
+    expect(empty.count).toBe(32n);
+    expect(() => empty.pick(32n)).toThrow(RangeError);
+  });
+
+  it('refuses rows narrower than a neighborhood', () => {
+    const config: EngineConfig = { rule: 30n, radius: 2, states: 2, ruleKind: 'general', boundary: { type: 'open', left: 0, right: 0 } };
+    expect(findPreimages(new Uint8Array(4), config).ok).toBe(false);
+  });
+});
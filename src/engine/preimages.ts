@@ -0,0 +1,160 @@
+import { EngineConfig } from './SimulationEngine';
+import { ruleLookup, ruleToToggles } from '../utils/rules';
+
+/**
+ * Preimages of a row: every row that steps to it under the rule.
+ *
+ * A rule of radius r is a labelled de Bruijn graph. Its nodes are windows
+ * of 2r cells and each neighborhood of 2r+1 cells is an edge from its left
+ * window to its right one, labelled with the rule's output. A row of N
+ * cells, together with the cells its boundary adds beyond each edge, is a
+ * walk of N edges, and its image is the sequence of labels along the walk.
+ * Preimages of `target` are therefore the walks spelling out `target`:
+ * closed walks on a ring, and walks whose first and last neighborhoods are
+ * consistent with the boundary otherwise.
+ *
+ * Walks are counted by dynamic programming from the right end, which also
+ * lets any one of them be picked out by its index without listing the
+ * others. A row with no preimage is a Garden of Eden.
+ */
+
+// Limits on the tables, in edge visits and stored counts
+const MAX_WORK = 1 << 26;
+const MAX_STORED = 1 << 22;
+
+export type PreimageResult =
+  | {
+      ok: true;
+      // Number of preimages; 0 for a Garden of Eden
+      count: bigint;
+      // Preimage number `index`, from 0 to count - 1
+      pick: (index: bigint) => Uint8Array;
+    }
+  | { ok: false; error: string };
+
+// A result without its tables, as the preimage worker reports it
+export type PreimageCount = { ok: true; count: bigint } | { ok: false; error: string };
+
+export function findPreimages(target: Uint8Array, config: EngineConfig): PreimageResult {
+  const { radius, states, ruleKind, boundary } = config;
+  const width = target.length;
+  const span = 2 * radius + 1;
+  const nodeCount = Math.pow(states, span - 1);
+  const edgeCount = nodeCount * states;
+  const periodic = boundary.type === 'periodic';
+
+  if (width < span) {
+    return { ok: false, error: `Rows need at least ${span} cells for radius ${radius}` };
+  }
+  const work = edgeCount * width * (periodic ? nodeCount : 1);
+  if (work > MAX_WORK || nodeCount * (width + 1) > MAX_STORED) {
+    return { ok: false, error: 'The row is too wide for this rule; try a narrower lattice' };
+  }
+
+  // Output of every neighborhood, numbered as base-k digits from the left
+  const table = ruleLookup(ruleToToggles(config.rule, { radius, states, kind: ruleKind }));
+  const output = new Uint8Array(edgeCount);
+  const digits = (edge: number) => {
+    const cells = new Array<number>(span);
+    for (let i = span - 1; i >= 0; i--) {
+      cells[i] = edge % states;
+      edge = Math.floor(edge / states);
+    }
+    return cells;
+  };
+  for (let edge = 0; edge < edgeCount; edge++) {
+    output[edge] = ruleKind === 'totalistic' ? table[digits(edge).reduce((sum, cell) => sum + cell, 0)] : table[edge];
+  }
+
+  // Whether a first or last neighborhood agrees with the boundary. The
+  // center cell is the edge cell of the row; the outer cells lie beyond it.
+  const edgeAllowed = (edge: number, side: 'left' | 'right') => {
+    if (periodic) return true;
+    const cells = digits(edge);
+    for (let j = 1; j <= radius; j++) {
+      const outside = cells[side === 'left' ? radius - j : radius + j];
+      const inside = side === 'left' ? cells[radius + j] : cells[radius - j];
+      const expected =
+        boundary.type === 'fixed'
+          ? boundary[side]
+          : boundary.type === 'open'
+            ? cells[radius]
+            : inside;
+      if (outside !== expected) return false;
+    }
+    return true;
+  };
+  const leftAllowed = Uint8Array.from({ length: edgeCount }, (_, edge) => (edgeAllowed(edge, 'left') ? 1 : 0));
+  const rightAllowed = Uint8Array.from({ length: edgeCount }, (_, edge) => (edgeAllowed(edge, 'right') ? 1 : 0));
+
+  const usable = (edge: number, step: number) =>
+    output[edge] === target[step] &&
+    (step > 0 || leftAllowed[edge] === 1) &&
+    (step < width - 1 || rightAllowed[edge] === 1);
+
+  // completions[i][node]: walks from `node` before step i to the end. On a
+  // ring the walk must end where it started, so there is a table per start.
+  const completions = (end: number | null): bigint[][] => {
+    const tables: bigint[][] = new Array(width + 1);
+    tables[width] = Array.from({ length: nodeCount }, (_, node) => (end === null || node === end ? 1n : 0n));
+    for (let step = width - 1; step >= 0; step--) {
+      const after = tables[step + 1];
+      const counts = new Array<bigint>(nodeCount).fill(0n);
+      for (let node = 0; node < nodeCount; node++) {
+        let sum = 0n;
+        for (let cell = 0; cell < states; cell++) {
+          const edge = node * states + cell;
+          if (usable(edge, step)) sum += after[edge % nodeCount];
+        }
+        counts[node] = sum;
+      }
+      tables[step] = counts;
+    }
+    return tables;
+  };
+
+  // Walks from each start node; a ring only keeps the table it is picking from
+  const starts = new Array<bigint>(nodeCount);
+  let shared: bigint[][] | null = null;
+  if (periodic) {
+    for (let node = 0; node < nodeCount; node++) starts[node] = completions(node)[0][node];
+  } else {
+    shared = completions(null);
+    for (let node = 0; node < nodeCount; node++) starts[node] = shared[0][node];
+  }
+  const count = starts.reduce((sum, n) => sum + n, 0n);
+
+  const pick = (index: bigint): Uint8Array => {
+    if (index < 0n || index >= count) throw new RangeError(`Preimage ${index} of ${count} does not exist`);
+    let start = 0;
+    while (index >= starts[start]) {
+      index -= starts[start];
+      start++;
+    }
+    const tables = shared ?? completions(start);
+
+    // The start window holds the r cells before the row and its first r cells
+    const row = new Uint8Array(width);
+    const window = digits(start * states).slice(0, span - 1);
+    for (let i = 0; i < radius; i++) row[i] = window[radius + i];
+
+    let node = start;
+    for (let step = 0; step < width; step++) {
+      for (let cell = 0; cell < states; cell++) {
+        const edge = node * states + cell;
+        if (!usable(edge, step)) continue;
+        const next = edge % nodeCount;
+        const ways = tables[step + 1][next];
+        if (index < ways) {
+          if (step + radius < width) row[step + radius] = cell;
+          node = next;
+          break;
+        }
+        index -= ways;
+      }
+    }
+    return row;
+  };
+
+  return { ok: true, count, pick };
+}
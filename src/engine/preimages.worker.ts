@@ -0,0 +1,26 @@
+import { findPreimages, PreimageResult } from './preimages';
+import { PreimagesRequest, PreimagesResponse } from './protocol';
+
+const ctx = self as unknown as Worker;
+
+// The latest search, which picks are answered from
+let search: { id: number; result: PreimageResult } | null = null;
+
+ctx.onmessage = (event: MessageEvent<PreimagesRequest>) => {
+  const request = event.data;
+  if (request.type === 'find') {
+    const result = findPreimages(request.row, request.config);
+    search = { id: request.id, result };
+    const response: PreimagesResponse = {
+      type: 'count',
+      id: request.id,
+      result: result.ok ? { ok: true, count: result.count } : result,
+    };
+    ctx.postMessage(response);
+    return;
+  }
+  if (search?.id !== request.id || !search.result.ok) return;
+  const row = search.result.pick(request.index);
+  const response: PreimagesResponse = { type: 'preimage', id: request.id, index: request.index, row: row.buffer };
+  ctx.postMessage(response, [row.buffer]);
+};
@@ -0,0 +1,118 @@
+import { EngineConfig } from './SimulationEngine';
+import { BoundaryCondition } from '../utils/boundary';
+import { Basin } from './basins';
+import { PreimageCount } from './preimages';
+
+/**
+ * Message protocol between the main thread and the simulation worker.
+ *
+ * `init` and `seed` replace the lattice and carry an epoch; the worker tags
+ * every batch with the epoch of the lattice it came from so the main thread
+ * can drop batches that were already in flight when the lattice was replaced.
+ * `blockSize` asks for statistics at that block size, or none when null.
+ */
+export type WorkerRequest =
+  | {
+      type: 'init';
+      config: EngineConfig;
+      cells: Uint8Array;
+      generation: number;
+      keepRows: number;
+      blockSize: number | null;
+      epoch: number;
+    }
+  | { type: 'play'; speed: number }
+  | { type: 'pause' }
+  | { type: 'step'; count: number }
+  | { type: 'rule'; config: Partial<EngineConfig> }
+  | { type: 'seed'; cells: Uint8Array; generation: number; epoch: number }
+  | { type: 'speed'; speed: number }
+  | { type: 'view'; keepRows: number }
+  | { type: 'statistics'; blockSize: number | null };
+
+/**
+ * Freshly computed rows. Only the newest `keepRows` rows of a batch are sent
+ * in `data`, since that is all the renderer can show: `rowCount` rows back
+ * to back, bit-packed 32-bit words for binary rules and one byte per cell
+ * otherwise. Every row of the batch is also sent in `history`, packed the
+ * way the history buffer keeps them, together with what the main thread
+ * tracks for every generation, so it never has to touch their cells.
+ */
+export interface RowBatch {
+  type: 'batch';
+  epoch: number;
+  // Generation of the last row in the batch
+  generation: number;
+  width: number;
+  rowCount: number;
+  packed: boolean;
+  data: ArrayBuffer;
+  // All `historyCount` rows at bitsPerCell(states) bits per cell (see packCells)
+  historyCount: number;
+  states: number;
+  history: ArrayBuffer;
+  // Float64 pairs of hash and offset for every row (see CycleKey); null for
+  // lattices wider than MAX_CYCLE_WIDTH
+  cycleKeys: ArrayBuffer | null;
+  // Float64 slots of measureRow at `blockSize` for every row, when asked for
+  statistics: ArrayBuffer | null;
+  blockSize: number;
+}
+
+export type WorkerResponse = RowBatch;
+
+/**
+ * Rule atlas worker: thumbnails of all elementary rules from one row.
+ * Requests carry an id that the result echoes, so results for a row that
+ * has since changed can be dropped.
+ */
+export interface AtlasRequest {
+  type: 'atlas';
+  id: number;
+  row: Uint8Array;
+  boundary: BoundaryCondition;
+}
+
+export interface AtlasResponse {
+  type: 'atlas';
+  id: number;
+  // See Atlas in ./atlas
+  cells: ArrayBuffer;
+  trivial: ArrayBuffer;
+}
+
+/**
+ * Basin of attraction worker: the state transition graph of a small ring
+ * under one rule. Ids work as for the atlas.
+ */
+export interface BasinsRequest {
+  type: 'basins';
+  id: number;
+  config: Omit<EngineConfig, 'boundary'>;
+  ringSize: number;
+}
+
+export interface BasinsResponse {
+  type: 'basins';
+  id: number;
+  // See BasinGraph in ./basins; the typed arrays travel as their buffers
+  ringSize: number;
+  states: number;
+  successor: ArrayBuffer;
+  basin: ArrayBuffer;
+  depth: ArrayBuffer;
+  basins: Basin[];
+}
+
+/**
+ * Preimage worker: counts the preimages of a row, then picks them out by
+ * index. The worker keeps the tables of its latest search, so a pick names
+ * that search by its id instead of sending the row again.
+ */
+export type PreimagesRequest =
+  | { type: 'find'; id: number; row: Uint8Array; config: EngineConfig }
+  | { type: 'pick'; id: number; index: bigint };
+
+export type PreimagesResponse =
+  | { type: 'count'; id: number; result: PreimageCount }
+  | { type: 'preimage'; id: number; index: bigint; row: ArrayBuffer };
@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { RowBatch, WorkerRequest } from './protocol';
+import { SimulationEngine, EngineConfig } from './SimulationEngine';
+import { HistoryBuffer } from './HistoryBuffer';
+import { StatisticsBuffer } from './statistics';
+import { cycleKey } from './CycleDetector';
+import { createRng, randomRow } from '../utils/random';
+
+// The worker module talks to `self`; stand in for it and collect batches
+const batches: RowBatch[] = [];
+let send: (message: WorkerRequest) => void = () => {};
+
+beforeAll(async () => {
+  const scope = {
+    onmessage: null as ((event: MessageEvent<WorkerRequest>) => void) | null,
+    postMessage: (batch: RowBatch) => batches.push(batch),
+  };
+  Object.assign(globalThis, { self: scope });
+  await import('./simulation.worker');
+  send = (message) => scope.onmessage?.({ data: message } as MessageEvent<WorkerRequest>);
+});
+
+describe('simulation worker', () => {
+  const random = createRng(5);
+  const configs: Partial<EngineConfig>[] = [
+    { rule: 110n, boundary: { type: 'periodic', left: 0, right: 0 } },
+    { rule: 1635n, states: 3, ruleKind: 'totalistic', boundary: { type: 'fixed', left: 1, right: 0 } },
+  ];
+
+  configs.forEach((partial, index) => {
+    it(`sends every row packed with its cycle key and statistics (config ${index})`, () => {
+      const engine = new SimulationEngine(partial);
+      const config = engine.getConfig();
+      const cells = randomRow(77, config.states, { seed: Math.floor(random() * 1000), density: 0.5, window: null, placement: 'bernoulli' });
+      engine.setCells(cells, 10);
+      batches.length = 0;
+      send({ type: 'init', config, cells, generation: 10, keepRows: 3, blockSize: 3, epoch: index + 1 });
+      send({ type: 'step', count: 20 });
+
+      const [batch] = batches;
+      expect(batch).toMatchObject({ epoch: index + 1, generation: 30, rowCount: 3, historyCount: 20, blockSize: 3 });
+      const history = new HistoryBuffer();
+      history.pushPacked(new Uint32Array(batch.history), batch.historyCount, batch.generation, batch.width, batch.states);
+      const statistics = new StatisticsBuffer();
+      statistics.pushSlots(new Float64Array(batch.statistics as ArrayBuffer), batch.historyCount, batch.generation, batch.states, 3);
+      const cycleKeys = new Float64Array(batch.cycleKeys as ArrayBuffer);
+      const expected = new StatisticsBuffer();
+
+      let previous = cells;
+      for (let i = 0; i < 20; i++) {
+        engine.step();
+        const row = engine.getCells();
+        expect(history.get(11 + i)).toEqual(row);
+        const key = cycleKey(row, config.boundary.type === 'periodic');
+        expect([cycleKeys[2 * i], cycleKeys[2 * i + 1]]).toEqual([key.hash, key.offset]);
+        expected.push(row, previous, 11 + i, config.states, 3);
+        previous = row;
+      }
+      expect(statistics.range(0, 100)).toEqual(expected.range(0, 100));
+    });
+  });
+
+  it('leaves statistics out unless asked for', () => {
+    batches.length = 0;
+    send({ type: 'statistics', blockSize: null });
+    send({ type: 'step', count: 2 });
+    expect(batches[0]).toMatchObject({ historyCount: 2, statistics: null });
+  });
+});
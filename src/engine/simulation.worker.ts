@@ -0,0 +1,189 @@
+import { SimulationEngine } from './SimulationEngine';
+import { RowBatch, WorkerRequest } from './protocol';
+import { bitsPerCell, packCells, packedWords, unpackRow, wordCount } from './packing';
+import { MAX_CYCLE_WIDTH, cycleKey } from './CycleDetector';
+import { maxBlockSize, measureRow, measuredCells, slotSize } from './statistics';
+
+// How often the worker wakes up to compute due generations
+const TICK_MS = 16;
+// Time allowed per tick before falling behind rather than blocking the worker
+const STEP_BUDGET_MS = 12;
+
+const ctx = self as unknown as Worker;
+const engine = new SimulationEngine();
+
+let epoch = 0;
+let keepRows = 1;
+let blockSize: number | null = null;
+let speed = 10;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let lastTick = 0;
+let carry = 0;
+
+// Every row of a batch, with what the main thread tracks per generation
+interface Computed {
+  history: Uint32Array[];
+  cycleKeys: number[] | null;
+  statistics: Float64Array[] | null;
+  blockSize: number;
+}
+
+/**
+ * Step up to `count` generations and post the newest rows back, along with
+ * all of them packed for the history
+ */
+function run(count: number): number {
+  const rows: (Uint32Array | Uint8Array)[] = [];
+  const deadline = performance.now() + STEP_BUDGET_MS;
+  const { states, boundary } = engine.getConfig();
+  const width = engine.cellCount;
+  const bits = bitsPerCell(states);
+  const size = blockSize === null ? 0 : Math.min(blockSize, maxBlockSize(states));
+  const computed: Computed = {
+    history: [],
+    cycleKeys: width <= MAX_CYCLE_WIDTH ? [] : null,
+    statistics: size > 0 ? [] : null,
+    blockSize: size,
+  };
+  // Only the measured cells are unpacked for statistics
+  const measured = measuredCells(width);
+  const current = () => (engine.isPacked ? engine.getPackedCells() : engine.getCells());
+  const measure = (row: Uint32Array | Uint8Array) =>
+    row instanceof Uint32Array
+      ? unpackRow(row, measured.length, undefined, measured.start)
+      : row.subarray(measured.start, measured.start + measured.length);
+  let previous = size > 0 ? measure(current()) : null;
+  let done = 0;
+
+  while (done < count && (done === 0 || performance.now() < deadline)) {
+    engine.step();
+    const row = current();
+    rows.push(row);
+    if (rows.length > keepRows) rows.shift();
+
+    // Binary rows are already packed the way the history keeps them
+    if (row instanceof Uint32Array) {
+      computed.history.push(row);
+    } else {
+      const words = new Uint32Array(packedWords(width, bits));
+      packCells(row, bits, words);
+      computed.history.push(words);
+    }
+    if (computed.cycleKeys) {
+      const cells = row instanceof Uint32Array ? unpackRow(row, width) : row;
+      const key = cycleKey(cells, boundary.type === 'periodic');
+      computed.cycleKeys.push(key.hash, key.offset);
+    }
+    if (computed.statistics) {
+      const cells = measure(row);
+      const slot = new Float64Array(slotSize(size));
+      measureRow(cells, previous, states, size, slot, 0);
+      computed.statistics.push(slot);
+      previous = cells;
+    }
+    done++;
+  }
+
+  if (rows.length > 0) post(rows, computed);
+  return done;
+}
+
+function post(rows: (Uint32Array | Uint8Array)[], computed: Computed): void {
+  const packed = engine.isPacked;
+  const width = engine.cellCount;
+  const { states } = engine.getConfig();
+  const rowSize = packed ? wordCount(width) : width;
+  const data = packed ? new Uint32Array(rows.length * rowSize) : new Uint8Array(rows.length * rowSize);
+  rows.forEach((row, i) => data.set(row, i * rowSize));
+
+  const historyWords = packedWords(width, bitsPerCell(states));
+  const count = computed.history.length;
+  const history = new Uint32Array(count * historyWords);
+  computed.history.forEach((row, i) => history.set(row, i * historyWords));
+  const cycleKeys = computed.cycleKeys && Float64Array.from(computed.cycleKeys);
+  const statistics = computed.statistics && new Float64Array(count * slotSize(computed.blockSize));
+  computed.statistics?.forEach((slot, i) => statistics?.set(slot, i * slot.length));
+
+  const batch: RowBatch = {
+    type: 'batch',
+    epoch,
+    generation: engine.generation,
+    width,
+    rowCount: rows.length,
+    packed,
+    data: data.buffer,
+    historyCount: count,
+    states,
+    history: history.buffer,
+    cycleKeys: cycleKeys && cycleKeys.buffer,
+    statistics: statistics && statistics.buffer,
+    blockSize: computed.blockSize,
+  };
+  const transfer = [data.buffer, history.buffer, cycleKeys?.buffer, statistics?.buffer];
+  ctx.postMessage(batch, transfer.filter((buffer) => buffer !== undefined));
+}
+
+function tick(): void {
+  const now = performance.now();
+  carry += (speed * (now - lastTick)) / 1000;
+  lastTick = now;
+
+  const due = Math.floor(carry);
+  if (due > 0) {
+    const done = run(due);
+    // If we could not keep up, drop the backlog instead of piling it up
+    carry = done === due ? carry - due : 0;
+  }
+
+  timer = setTimeout(tick, TICK_MS);
+}
+
+function stop(): void {
+  if (timer !== null) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      engine.configure(message.config);
+      engine.setCells(message.cells, message.generation);
+      keepRows = Math.max(1, message.keepRows);
+      blockSize = message.blockSize;
+      epoch = message.epoch;
+      break;
+    case 'play':
+      speed = message.speed;
+      stop();
+      lastTick = performance.now();
+      carry = 0;
+      timer = setTimeout(tick, TICK_MS);
+      break;
+    case 'pause':
+      stop();
+      break;
+    case 'step':
+      run(message.count);
+      break;
+    case 'rule':
+      engine.configure(message.config);
+      break;
+    case 'seed':
+      engine.setCells(message.cells, message.generation);
+      epoch = message.epoch;
+      break;
+    case 'speed':
+      speed = message.speed;
+      break;
+    case 'view':
+      keepRows = Math.max(1, message.keepRows);
+      break;
+    case 'statistics':
+      blockSize = message.blockSize;
+      break;
+  }
+};
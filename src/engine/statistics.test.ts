@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_MEASURED_WIDTH, StatisticsBuffer, maxBlockSize, statisticsCsv } from './statistics';
+import { createRng, randomRow } from '../utils/random';
+
+// Entropy from the blocks spelled out as strings
+function naiveEntropy(row: Uint8Array, size: number): number {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + size <= row.length; i++) {
+    const block = row.subarray(i, i + size).join(',');
+    counts.set(block, (counts.get(block) ?? 0) + 1);
+  }
+  const blocks = row.length - size + 1;
+  let bits = 0;
+  for (const count of counts.values()) bits -= (count / blocks) * Math.log2(count / blocks);
+  return bits;
+}
+
+describe('StatisticsBuffer', () => {
+  const random = createRng(25);
+
+  for (const states of [2, 3, 5]) {
+    it(`measures rows with ${states} states`, () => {
+      const blockSize = Math.min(5, maxBlockSize(states));
+      const buffer = new StatisticsBuffer();
+      const rows = Array.from({ length: 6 }, () =>
+        randomRow(40, states, { seed: Math.floor(random() * 1000), density: 0.4, window: null, placement: 'bernoulli' })
+      );
+      rows.forEach((row, i) => buffer.push(row, i > 0 ? rows[i - 1] : null, 10 + i, states, blockSize));
+
+      const stats = buffer.range(0, 100);
+      expect(stats.map((s) => s.generation)).toEqual([10, 11, 12, 13, 14, 15]);
+      stats.forEach((s, i) => {
+        const row = rows[i];
+        expect(s.density).toBeCloseTo(row.filter((cell) => cell !== 0).length / row.length, 12);
+        s.entropy.forEach((bits, size) => expect(bits).toBeCloseTo(naiveEntropy(row, size + 1), 10));
+        expect(s.entropy).toHaveLength(blockSize);
+        if (i === 0) expect(s.activity).toBeNull();
+        else expect(s.activity).toBeCloseTo(row.filter((cell, x) => cell !== rows[i - 1][x]).length / row.length, 12);
+        expect(s.runs.reduce((sum, share) => sum + share, 0)).toBeCloseTo(1, 12);
+      });
+    });
+  }
+
+  it('counts run lengths with a shared last bucket', () => {
+    const buffer = new StatisticsBuffer();
+    const row = Uint8Array.from([1, 0, 0, ...new Array(20).fill(1), 0]);
+    buffer.push(row, null, 0, 2, 1);
+    const [{ runs }] = buffer.range(0, 1);
+    expect(runs[0]).toBeCloseTo(0.5);
+    expect(runs[1]).toBeCloseTo(0.25);
+    expect(runs[15]).toBeCloseTo(0.25);
+  });
+
+  it('measures the central cells of wide rows', () => {
+    const width = MAX_MEASURED_WIDTH + 100;
+    const row = new Uint8Array(width);
+    // Live cells only outside the central window
+    row.fill(1, 0, 50);
+    row.fill(1, width - 50);
+    const buffer = new StatisticsBuffer();
+    buffer.push(row, null, 0, 2, 2);
+    expect(buffer.range(0, 1)[0].density).toBe(0);
+  });
+
+  it('replaces the newest generation, starts over after a gap and wraps when full', () => {
+    const buffer = new StatisticsBuffer(3);
+    const zeros = new Uint8Array(8);
+    const ones = new Uint8Array(8).fill(1);
+    buffer.push(zeros, null, 0, 2, 3);
+    buffer.push(zeros, zeros, 1, 2, 3);
+    buffer.push(ones, zeros, 1, 2, 3);
+    expect(buffer.range(0, 2).map((s) => [s.density, s.activity])).toEqual([
+      [0, null],
+      [1, 1],
+    ]);
+
+    buffer.push(zeros, null, 5, 2, 3);
+    expect(buffer.firstGeneration).toBe(5);
+    for (let generation = 6; generation < 10; generation++) buffer.push(ones, null, generation, 2, 3);
+    expect(buffer.range(0, 100).map((s) => s.generation)).toEqual([7, 8, 9]);
+
+    // A new block size starts over too
+    buffer.push(ones, null, 10, 2, 4);
+    expect(buffer.range(0, 100).map((s) => s.generation)).toEqual([10]);
+    expect(buffer.blockSize).toBe(4);
+  });
+
+  it('limits block sizes to what can be counted', () => {
+    expect(maxBlockSize(2)).toBe(12);
+    expect(maxBlockSize(4)).toBe(8);
+    expect(maxBlockSize(8)).toBe(5);
+    const buffer = new StatisticsBuffer();
+    buffer.push(new Uint8Array(10), null, 0, 8, 12);
+    expect(buffer.blockSize).toBe(5);
+  });
+
+  it('writes a CSV header for the block sizes measured', () => {
+    const buffer = new StatisticsBuffer();
+    buffer.push(Uint8Array.from([0, 1, 1, 0]), null, 3, 2, 2);
+    const [header, line] = statisticsCsv(buffer.range(0, 10)).split('\n');
+    expect(header.split(',').slice(0, 5)).toEqual(['generation', 'density', 'entropy_1', 'entropy_2', 'activity']);
+    expect(line.split(',').slice(0, 5)).toEqual(['3', '0.5', '1', String(naiveEntropy(Uint8Array.from([0, 1, 1, 0]), 2)), '']);
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Per-generation statistics of a run.
+ *
+ * For every row: the density of live (non-zero) cells, the Shannon entropy
+ * of the blocks of 1 to k consecutive cells, the activity (fraction of
+ * cells that differ from the previous generation) and the distribution of
+ * run lengths, runs being maximal stretches of cells in the same state.
+ * Blocks and runs do not wrap around the lattice edges. Rows wider than
+ * MAX_MEASURED_WIDTH are measured over their central MAX_MEASURED_WIDTH
+ * cells, which keeps the cost per generation bounded.
+ *
+ * A bounded ring buffer keeps them for the most recent generations. It is
+ * only fed while the charts are shown and holds no storage otherwise.
+ */
+
+export const DEFAULT_BLOCK_SIZE = 4;
+export const MAX_BLOCK_SIZE = 12;
+// Block sizes stop where k^size would need a larger table of counts
+const MAX_BLOCK_PATTERNS = 1 << 16;
+// Runs this long and longer share the last bucket
+export const MAX_RUN_LENGTH = 16;
+export const MAX_MEASURED_WIDTH = 1 << 12;
+export const STATISTICS_CAPACITY = 1 << 16;
+
+// Generations allocated before the first growth step
+const INITIAL_SLOTS = 1024;
+
+export interface GenerationStatistics {
+  generation: number;
+  density: number;
+  // Entropy in bits of blocks of 1, 2, ... k cells
+  entropy: number[];
+  // Null when the previous generation is unknown
+  activity: number | null;
+  // Fraction of runs with each length from 1 to MAX_RUN_LENGTH
+  runs: number[];
+}
+
+/**
+ * Largest block size whose patterns can be counted with `states` states
+ */
+export function maxBlockSize(states: number): number {
+  let size = 1;
+  while (size < MAX_BLOCK_SIZE && Math.pow(states, size + 1) <= MAX_BLOCK_PATTERNS) size++;
+  return size;
+}
+
+// Layout of one generation's slot: density, k entropies, activity (NaN
+// when unknown), then the run length buckets
+const DENSITY = 0;
+const ENTROPY = 1;
+
+export function slotSize(blockSize: number): number {
+  return ENTROPY + blockSize + 1 + MAX_RUN_LENGTH;
+}
+
+// Counts of block patterns, zeroed again after every use
+let counts = new Uint32Array(0);
+
+/**
+ * Measure `row` into the slot at `offset` of `out`. `blockSize` must not
+ * exceed maxBlockSize(states).
+ */
+export function measureRow(
+  row: Uint8Array,
+  previous: Uint8Array | null,
+  states: number,
+  blockSize: number,
+  out: Float64Array,
+  offset: number
+): void {
+  const cells = centralCells(row);
+  const width = cells.length;
+  const activityAt = offset + ENTROPY + blockSize;
+  const runsAt = activityAt + 1;
+
+  let live = 0;
+  for (let i = 0; i < width; i++) if (cells[i] !== 0) live++;
+  out[offset + DENSITY] = width > 0 ? live / width : 0;
+
+  const patterns = Math.pow(states, blockSize);
+  if (counts.length < patterns) counts = new Uint32Array(patterns);
+  for (let size = 1; size <= blockSize; size++) {
+    const blocks = width - size + 1;
+    let bits = 0;
+    if (blocks > 0) {
+      // Blocks are read as base-k numbers, sliding one cell at a time. The
+      // second pass takes each pattern once, clearing its count as it goes.
+      const high = Math.pow(states, size - 1);
+      for (let pass = 0; pass < 2; pass++) {
+        let block = 0;
+        for (let i = 0; i < size - 1; i++) block = block * states + cells[i];
+        for (let i = size - 1; i < width; i++) {
+          block = (block % high) * states + cells[i];
+          if (pass === 0) {
+            counts[block]++;
+          } else if (counts[block] > 0) {
+            const p = counts[block] / blocks;
+            bits -= p * Math.log2(p);
+            counts[block] = 0;
+          }
+        }
+      }
+    }
+    out[offset + ENTROPY + size - 1] = bits;
+  }
+
+  const before = previous && previous.length === row.length ? centralCells(previous) : null;
+  if (before) {
+    let changed = 0;
+    for (let i = 0; i < width; i++) if (cells[i] !== before[i]) changed++;
+    out[activityAt] = width > 0 ? changed / width : 0;
+  } else {
+    out[activityAt] = NaN;
+  }
+
+  out.fill(0, runsAt, runsAt + MAX_RUN_LENGTH);
+  let runCount = 0;
+  for (let start = 0; start < width; ) {
+    let end = start + 1;
+    while (end < width && cells[end] === cells[start]) end++;
+    out[runsAt + Math.min(end - start, MAX_RUN_LENGTH) - 1]++;
+    runCount++;
+    start = end;
+  }
+  for (let i = 0; i < MAX_RUN_LENGTH && runCount > 0; i++) out[runsAt + i] /= runCount;
+}
+
+/**
+ * Cells of a row of `width` cells that are measured; measuring just these
+ * gives the same result as the whole row
+ */
+export function measuredCells(width: number): { start: number; length: number } {
+  const length = Math.min(width, MAX_MEASURED_WIDTH);
+  return { start: Math.floor((width - length) / 2), length };
+}
+
+function centralCells(row: Uint8Array): Uint8Array {
+  const { start, length } = measuredCells(row.length);
+  return length === row.length ? row : row.subarray(start, start + length);
+}
+
+export class StatisticsBuffer {
+  private data = new Float64Array(0);
+  private allocatedSlots = 0;
+  // Slot of the oldest generation; only moves once the buffer is full
+  private head = 0;
+  private count = 0;
+  private _lastGeneration = -1;
+  private states = 2;
+  private _blockSize = DEFAULT_BLOCK_SIZE;
+
+  constructor(private readonly capacity = STATISTICS_CAPACITY) {}
+
+  get size(): number {
+    return this.count;
+  }
+
+  get firstGeneration(): number {
+    return this._lastGeneration - this.count + 1;
+  }
+
+  get lastGeneration(): number {
+    return this._lastGeneration;
+  }
+
+  /**
+   * Largest block size measured, which may be less than asked for when
+   * there are many states
+   */
+  get blockSize(): number {
+    return this._blockSize;
+  }
+
+  /**
+   * Drop every generation and the storage that held them
+   */
+  clear(): void {
+    this.data = new Float64Array(0);
+    this.allocatedSlots = 0;
+    this.head = 0;
+    this.count = 0;
+    this._lastGeneration = -1;
+  }
+
+  /**
+   * Record the row for `generation`, with the same rules as
+   * HistoryBuffer.push: the newest generation again replaces it and
+   * anything other than the next generation starts over. Changing the
+   * states or block size starts over too.
+   */
+  push(row: Uint8Array, previous: Uint8Array | null, generation: number, states: number, blockSize: number): void {
+    this.shape(states, blockSize);
+    const slot = this.claim(generation);
+    measureRow(row, previous, states, this._blockSize, this.data, slot * slotSize(this._blockSize));
+  }
+
+  /**
+   * Record `count` consecutive generations ending at `lastGeneration` that
+   * were measured elsewhere with measureRow, slot after slot
+   */
+  pushSlots(slots: Float64Array, count: number, lastGeneration: number, states: number, blockSize: number): void {
+    this.shape(states, blockSize);
+    const size = slotSize(this._blockSize);
+    for (let i = Math.max(0, count - this.capacity); i < count; i++) {
+      const slot = this.claim(lastGeneration - count + 1 + i);
+      this.data.set(slots.subarray(i * size, (i + 1) * size), slot * size);
+    }
+  }
+
+  /**
+   * Statistics for generations [first, last), clipped to what is held
+   */
+  range(first: number, last: number): GenerationStatistics[] {
+    const stats: GenerationStatistics[] = [];
+    const start = Math.max(first, this.firstGeneration);
+    const end = Math.min(last, this._lastGeneration + 1);
+    for (let generation = start; generation < end; generation++) {
+      stats.push(this.read(this.slot(generation - this.firstGeneration), generation));
+    }
+    return stats;
+  }
+
+  private shape(states: number, blockSize: number): void {
+    const size = Math.min(blockSize, maxBlockSize(states));
+    if (states !== this.states || size !== this._blockSize) {
+      this.clear();
+      this.states = states;
+      this._blockSize = size;
+    }
+  }
+
+  // Slot for `generation`, making room for it
+  private claim(generation: number): number {
+    if (this.count > 0 && generation === this._lastGeneration) return this.slot(this.count - 1);
+    if (this.count > 0 && generation !== this._lastGeneration + 1) this.clear();
+
+    if (this.count === this.capacity) {
+      this.head = (this.head + 1) % this.allocatedSlots;
+      this.count--;
+    } else if (this.count === this.allocatedSlots) {
+      this.grow();
+    }
+    this.count++;
+    this._lastGeneration = generation;
+    return this.slot(this.count - 1);
+  }
+
+  private slot(index: number): number {
+    return (this.head + index) % this.allocatedSlots;
+  }
+
+  // Only called while the buffer has never wrapped, so head is still 0
+  private grow(): void {
+    const slots = Math.min(this.capacity, Math.max(INITIAL_SLOTS, this.allocatedSlots * 2));
+    const data = new Float64Array(slots * slotSize(this._blockSize));
+    data.set(this.data);
+    this.data = data;
+    this.allocatedSlots = slots;
+  }
+
+  private read(slot: number, generation: number): GenerationStatistics {
+    const offset = slot * slotSize(this._blockSize);
+    const activityAt = offset + ENTROPY + this._blockSize;
+    const activity = this.data[activityAt];
+    return {
+      generation,
+      density: this.data[offset + DENSITY],
+      entropy: Array.from(this.data.subarray(offset + ENTROPY, activityAt)),
+      activity: Number.isNaN(activity) ? null : activity,
+      runs: Array.from(this.data.subarray(activityAt + 1, activityAt + 1 + MAX_RUN_LENGTH)),
+    };
+  }
+}
+
+/**
+ * Statistics as CSV, one line per generation
+ */
+export function statisticsCsv(stats: GenerationStatistics[]): string {
+  const blockSize = stats.length > 0 ? stats[0].entropy.length : 0;
+  const header = [
+    'generation',
+    'density',
+    ...Array.from({ length: blockSize }, (_, i) => `entropy_${i + 1}`),
+    'activity',
+    ...Array.from({ length: MAX_RUN_LENGTH }, (_, i) => (i + 1 < MAX_RUN_LENGTH ? `run_${i + 1}` : `run_${i + 1}_plus`)),
+  ];
+  const lines = stats.map(({ generation, density, entropy, activity, runs }) =>
+    [generation, density, ...entropy, activity ?? '', ...runs].join(',')
+  );
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
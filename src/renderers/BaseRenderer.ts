@@ -1,20 +1,6 @@
-/**
- * Types for the cellular automata state
- */
-export interface CellState {
-  cells: boolean[];
-  previousGenerations: boolean[][];
-  generation: number;
-  rule: number;
-  viewport: {
-    width: number;
-    height: number;
-    cellSize: number;
-    cellMargin: number;
-    renderMargin: number;
-    maxVisibleGenerations: number;
-  };
-}
+import { CellState } from '../types/CellState';
+
+export type { CellState };
 
 /**
  * Base interface for all renderers (Canvas2D, WebGL, etc.)
@@ -1,9 +1,15 @@
 import { BaseRenderer, CellState } from './BaseRenderer';
+import { screenLayout, visibleCellRange, visibleRowRange } from './geometry';
+import { columnSpans, reduceRow, rowSpan } from './density';
+import { colormapTable } from '../utils/colormap';
 
 export class Canvas2DRenderer implements BaseRenderer {
   private canvas: HTMLCanvasElement | null = null;
   private ctx: CanvasRenderingContext2D | null = null;
   private dpr: number = 1;
+  // Cells under each pixel column for density rendering, kept while the layout holds
+  private spans: Int32Array | null = null;
+  private spansKey = '';
 
   initialize(canvas: HTMLCanvasElement): void {
     this.canvas = canvas;
@@ -52,55 +58,107 @@ export class Canvas2DRenderer implements BaseRenderer {
   render(state: CellState): void {
     if (!this.ctx || !this.canvas) return;
 
-    const { cells, previousGenerations } = state;
-    const { 
-      cellSize, 
-      cellMargin, 
-      renderMargin,
-      maxVisibleGenerations
-    } = state.viewport;
+    if (state.viewport.density) {
+      this.renderDensity(state);
+      return;
+    }
 
-    // Clear the canvas with background color
-    this.ctx.fillStyle = '#1a1a1a'; // Dark background
+    const { cells, previousGenerations, palette } = state;
+    const { cellSize, pitch, rowPitch, left, top } = screenLayout(state.viewport);
+    const visibleGenerations = previousGenerations.slice(-state.viewport.maxVisibleGenerations);
+    // Only walk the cells that land on the canvas; wide lattices are cropped
+    const columns = visibleCellRange(state.viewport, cells.length);
+    const rows = visibleRowRange(state.viewport, visibleGenerations.length + 1);
+    // Keep a one pixel gap between cells, but never draw them empty
+    const drawSize = Math.max(cellSize - 1, 1);
+
+    // Clear the canvas with the state 0 color
+    this.ctx.fillStyle = palette[0];
     this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
 
-    // Set cell color
-    this.ctx.fillStyle = '#4a9eff'; // Light blue
-
-    // Helper for pixel-perfect cell rendering
-    const fillCell = (x: number, y: number) => {
+    // Helper for pixel-perfect cell rendering, only switching fill color when the state changes
+    let currentState = -1;
+    const fillCell = (x: number, y: number, cell: number) => {
+      if (cell !== currentState) {
+        this.ctx!.fillStyle = palette[cell];
+        currentState = cell;
+      }
       this.ctx!.fillRect(
         Math.floor(x) + 0.5,
         Math.floor(y) + 0.5,
-        cellSize - 1,
-        cellSize - 1
+        drawSize,
+        drawSize
       );
     };
 
-    // Render previous generations
-    const visibleGenerations = previousGenerations.slice(-maxVisibleGenerations);
-    visibleGenerations.forEach((genCells, index) => {
-      const y = index * (cellSize + cellMargin);
-      genCells.forEach((cell, x) => {
+    // Previous generations from the top, the current generation at the bottom
+    for (let r = rows.first; r < rows.last; r++) {
+      const row = r < visibleGenerations.length ? visibleGenerations[r] : cells;
+      const y = top + r * rowPitch;
+      for (let x = columns.first; x < columns.last; x++) {
+        const cell = row[x];
         if (cell) {
-          fillCell(
-            renderMargin + x * (cellSize + cellMargin),
-            y
-          );
+          fillCell(left + x * pitch, y, cell);
+        }
+      }
+    }
+  }
+
+  /**
+   * CPU reduction: average each pixel's block of cells and generations and
+   * map it through the colormap
+   */
+  private renderDensity(state: CellState): void {
+    if (!this.ctx || !this.canvas) return;
+
+    const { cells, previousGenerations, states, palette } = state;
+    const { cellSize, rowPitch, left, top } = screenLayout(state.viewport);
+    const table = colormapTable(state.viewport.density!.colormap);
+
+    this.ctx.fillStyle = palette[0];
+    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    // The part of the canvas covered by the lattice and its history
+    const rows = [...previousGenerations.slice(-state.viewport.maxVisibleGenerations), cells];
+    const x0 = Math.max(0, Math.floor(left));
+    const y0 = Math.max(0, Math.floor(top));
+    const pixelWidth = Math.min(this.canvas.width, Math.ceil(left + cells.length * cellSize)) - x0;
+    const pixelHeight = Math.min(this.canvas.height, Math.ceil(top + rows.length * rowPitch)) - y0;
+    if (pixelWidth <= 0 || pixelHeight <= 0) return;
+
+    const key = `${cells.length}:${cellSize}:${left}:${pixelWidth}`;
+    if (!this.spans || key !== this.spansKey) {
+      this.spans = columnSpans(cells.length, (x0 - left) / cellSize, 1 / cellSize, pixelWidth);
+      this.spansKey = key;
+    }
+    const spans = this.spans;
+
+    const image = this.ctx.createImageData(pixelWidth, pixelHeight);
+    const pixels = image.data;
+    const sums = new Float32Array(pixelWidth);
+
+    for (let y = 0; y < pixelHeight; y++) {
+      const { first, last } = rowSpan(y0 + y - top, rowPitch, rows.length);
+      sums.fill(0);
+      for (let r = first; r < last; r++) {
+        const values = reduceRow(rows[r], spans, states);
+        for (let x = 0; x < pixelWidth; x++) {
+          sums[x] += values[x];
         }
-      });
-    });
-
-    // Render current generation at the bottom
-    const currentY = visibleGenerations.length * (cellSize + cellMargin);
-    cells.forEach((cell, x) => {
-      if (cell) {
-        fillCell(
-          renderMargin + x * (cellSize + cellMargin),
-          currentY
-        );
       }
-    });
+
+      const count = last - first;
+      for (let x = 0; x < pixelWidth; x++) {
+        const entry = Math.min(255, Math.round((sums[x] / count) * 255)) * 3;
+        const offset = (y * pixelWidth + x) * 4;
+        pixels[offset] = table[entry];
+        pixels[offset + 1] = table[entry + 1];
+        pixels[offset + 2] = table[entry + 2];
+        pixels[offset + 3] = 255;
+      }
+    }
+
+    this.ctx.putImageData(image, x0, y0);
   }
 
   dispose(): void {
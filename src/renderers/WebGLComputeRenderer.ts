@@ -1,5 +1,14 @@
 import { BaseRenderer } from './BaseRenderer';
 import { CellState } from '../types/CellState';
+import { MAX_RADIUS, MAX_STATES, RuleKind, ruleLookup, ruleToToggles } from '../utils/rules';
+import { paletteToFloat32, parseHexColor } from '../utils/palette';
+import { COLORMAP_SIZE, Colormap, colormapTable } from '../utils/colormap';
+import { BoundaryCondition, DEFAULT_BOUNDARY, cellAt } from '../utils/boundary';
+import { screenLayout, visibleCellRange } from './geometry';
+import { columnSpans, reduceRow } from './density';
+
+// Rule tables are uploaded as a 2D texture this many entries wide
+const RULE_TABLE_WIDTH = 256;
 
 // Helper functions since they're not exported from BaseWebGLRenderer
 function createShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
@@ -55,40 +64,52 @@ in vec2 v_texCoord;
 out vec4 outColor;
 
 uniform sampler2D u_state;
-uniform int u_rule;
-uniform float u_maxGenerations;
+// The generation shown, over the visible window and u_radius cells either
+// side of it, with cells beyond the lattice edges already resolved
+uniform sampler2D u_row;
+uniform highp usampler2D u_ruleTable;
+uniform int u_radius;
+uniform int u_states;
+uniform bool u_totalistic;
+uniform int u_width;
+// Texture row that receives the new generation, and how far the older
+// rows move up to make room for it (1 once every visible row is in use)
+uniform int u_newRow;
+uniform int u_shift;
+
+// Cell states are stored as raw byte values in the red channel.
+int cellAt(int x) {
+  return int(texelFetch(u_row, ivec2(x + u_radius, 0), 0).r * 255.0 + 0.5);
+}
 
 void main() {
-  ivec2 size = textureSize(u_state, 0);
-  int width = size.x;
-  int height = size.y;
-  
   // Calculate current position
   ivec2 pos = ivec2(gl_FragCoord.xy);
   
-  // For all rows except the bottom row, copy from row below
-  if (pos.y > 0) {
-    outColor = texelFetch(u_state, ivec2(pos.x, pos.y - 1), 0);
+  // Rows are oldest first; every other row keeps its generation
+  if (pos.y != u_newRow) {
+    outColor = texelFetch(u_state, ivec2(pos.x, pos.y + u_shift), 0);
+    return;
+  }
+  if (pos.x >= u_width) {
+    outColor = vec4(0.0);
     return;
   }
   
-  // For the bottom row (newest generation), compute next state
-  // Get states of left, center, and right cells from the first row
-  int leftIndex = (pos.x - 1 + width) % width;
-  int rightIndex = (pos.x + 1) % width;
-  
-  // Sample from the first row
-  float left = texelFetch(u_state, ivec2(leftIndex, 0), 0).r > 0.5 ? 1.0 : 0.0;
-  float center = texelFetch(u_state, ivec2(pos.x, 0), 0).r > 0.5 ? 1.0 : 0.0;
-  float right = texelFetch(u_state, ivec2(rightIndex, 0), 0).r > 0.5 ? 1.0 : 0.0;
-  
-  // Convert to binary pattern (0-7)
-  int pattern = int(left) * 4 + int(center) * 2 + int(right);
+  // For the new row (newest generation), compute next state
+  // Read the 2r+1 neighborhood, leftmost cell as the high digit
+  int pattern = 0;
+  for (int d = -${MAX_RADIUS}; d <= ${MAX_RADIUS}; d++) {
+    if (d < -u_radius || d > u_radius) continue;
+    int cell = cellAt(pos.x + d);
+    pattern = u_totalistic ? pattern + cell : pattern * u_states + cell;
+  }
   
-  // Apply rule (check if bit is set in rule number)
-  float nextState = float((u_rule >> pattern) & 1);
+  // Look up the output state in the rule table
+  ivec2 entry = ivec2(pattern % ${RULE_TABLE_WIDTH}, pattern / ${RULE_TABLE_WIDTH});
+  float nextState = float(texelFetch(u_ruleTable, entry, 0).r) / 255.0;
   
-  outColor = vec4(nextState, nextState, nextState, 1.0);
+  outColor = vec4(nextState, 0.0, 0.0, 1.0);
 }`;
 
 // Fragment shader for displaying the CA state
@@ -106,13 +127,15 @@ uniform vec2 u_resolution;
 uniform float u_cellSize;
 uniform float u_cellMargin;
 uniform float u_renderMargin;
+uniform float u_top;
+uniform vec3 u_palette[${MAX_STATES}];
 
 void main() {
   vec2 coord = v_texCoord * u_resolution;
   
   // Calculate cell position
   float cellX = (coord.x - u_renderMargin) / (u_cellSize + u_cellMargin);
-  float cellY = coord.y / (u_cellSize + u_cellMargin);
+  float cellY = (coord.y - u_top) / (u_cellSize + u_cellMargin);
   
   // Check if we're in the margin between cells
   vec2 cellFract = fract(vec2(cellX, cellY));
@@ -128,20 +151,67 @@ void main() {
   
   // Check bounds
   if (cellIndex < 0.0 || cellIndex >= float(textureSize(u_state, 0).x) || 
-      genOffset >= float(u_maxGenerations)) {
+      genOffset < 0.0 || genOffset >= float(u_maxGenerations)) {
     outColor = vec4(0.1, 0.1, 0.1, 1.0);
     return;
   }
   
   // Sample state texture
   vec4 state = texelFetch(u_state, ivec2(int(cellIndex), int(genOffset)), 0);
+  int cell = clamp(int(state.r * 255.0 + 0.5), 0, ${MAX_STATES - 1});
   
   // Fade out older generations
   float alpha = 1.0 - (genOffset / float(u_maxGenerations)) * 0.7;
-  outColor = vec4(
-    state.r > 0.5 ? vec3(0.29, 0.61, 1.0) : vec3(0.0),
-    alpha
-  );
+  outColor = vec4(u_palette[cell], alpha);
+}`;
+
+// Fragment shader for zoomed-out density rendering
+const densityShaderSource = `#version 300 es
+precision highp float;
+precision highp sampler2D;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+// Level 0 holds one density texel per cell (or block of cells, for lattices
+// wider than a texture) and generation; its mipmaps form the pyramid
+uniform sampler2D u_density;
+uniform sampler2D u_colormap;
+uniform vec2 u_resolution;
+uniform float u_renderMargin;
+uniform float u_top;
+// Level 0 texels covered by one pixel, horizontally and vertically
+uniform vec2 u_footprint;
+uniform vec3 u_background;
+
+const int MAX_SAMPLES = 16;
+
+void main() {
+  vec2 coord = v_texCoord * u_resolution;
+  vec2 size = vec2(textureSize(u_density, 0));
+  vec2 texel = vec2(coord.x - u_renderMargin, coord.y - u_top) * u_footprint;
+
+  if (any(lessThan(texel, vec2(0.0))) || any(greaterThanEqual(texel, size))) {
+    outColor = vec4(u_background, 1.0);
+    return;
+  }
+
+  // Mipmaps shrink both axes together, so pick the level matching the
+  // shorter side of the footprint and take samples along the longer side
+  float minor = max(min(u_footprint.x, u_footprint.y), 1.0);
+  float major = max(max(u_footprint.x, u_footprint.y), 1.0);
+  int samples = int(min(ceil(major / minor), float(MAX_SAMPLES)));
+  vec2 axis = u_footprint.x >= u_footprint.y ? vec2(u_footprint.x, 0.0) : vec2(0.0, u_footprint.y);
+
+  float sum = 0.0;
+  for (int i = 0; i < MAX_SAMPLES; i++) {
+    if (i >= samples) break;
+    vec2 offset = axis * ((float(i) + 0.5) / float(samples) - 0.5);
+    sum += textureLod(u_density, (texel + offset) / size, log2(minor)).r;
+  }
+  float density = sum / float(samples);
+
+  outColor = vec4(texelFetch(u_colormap, ivec2(int(density * 255.0 + 0.5), 0), 0).rgb, 1.0);
 }`;
 
 export class WebGLComputeRenderer implements BaseRenderer {
@@ -150,12 +220,42 @@ export class WebGLComputeRenderer implements BaseRenderer {
   private computeProgram: WebGLProgram | null = null;
   private quadBuffer: WebGLBuffer | null = null;
   private textures: WebGLTexture[] = [];
+  private ruleTexture: WebGLTexture | null = null;
   private framebuffers: WebGLFramebuffer[] = [];
   private currentTexture = 0;
   private textureWidth = 1;
   private textureHeight = 1;
   private generation = 0;
-  private rule = 0;
+  private rule = -1n;
+  private radius = 1;
+  private states = 2;
+  private ruleKind: RuleKind = 'general';
+  private boundary: BoundaryCondition = DEFAULT_BOUNDARY;
+  private cellCount = 1;
+  // Row the texture shows as its newest generation, and how many of the
+  // visible generations it holds
+  private cells: Uint8Array | null = null;
+  private rowCount = 0;
+  private visibleRows = 0;
+  // First lattice column held in the state texture; only the visible
+  // window of a wide lattice is uploaded
+  private firstColumn = 0;
+  // The generation stepped from: the visible window and the neighbours
+  // its edge cells need
+  private rowTexture: WebGLTexture | null = null;
+
+  // Density rendering state
+  private densityProgram: WebGLProgram | null = null;
+  private densityTexture: WebGLTexture | null = null;
+  private colormapTexture: WebGLTexture | null = null;
+  private colormap: Colormap | null = null;
+  // Rows the density texture was built from, to skip redundant uploads
+  private densityCells: Uint8Array | null = null;
+  private densityHistory: Uint8Array[] | null = null;
+  private densityStates = 0;
+  // Cells averaged into each level 0 texel
+  private densityFactor = 1;
+  private densitySpans: Int32Array | null = null;
 
   initialize(canvas: HTMLCanvasElement): void {
     const gl = canvas.getContext('webgl2');
@@ -171,13 +271,16 @@ export class WebGLComputeRenderer implements BaseRenderer {
     const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
     const displayFragShader = createShader(gl, gl.FRAGMENT_SHADER, displayShaderSource);
     const computeFragShader = createShader(gl, gl.FRAGMENT_SHADER, computeShaderSource);
+    const densityFragShader = createShader(gl, gl.FRAGMENT_SHADER, densityShaderSource);
     
     this.displayProgram = createProgram(gl, vertexShader, displayFragShader);
     this.computeProgram = createProgram(gl, vertexShader, computeFragShader);
+    this.densityProgram = createProgram(gl, vertexShader, densityFragShader);
     
     gl.deleteShader(vertexShader);
     gl.deleteShader(displayFragShader);
     gl.deleteShader(computeFragShader);
+    gl.deleteShader(densityFragShader);
 
     // Create quad buffer
     const positions = new Float32Array([
@@ -194,6 +297,24 @@ export class WebGLComputeRenderer implements BaseRenderer {
     // Initialize textures
     this.initializeTextures();
 
+    this.ruleTexture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, this.ruleTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+    // Trilinear minification over the mipmap pyramid
+    this.densityTexture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, this.densityTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+    this.colormapTexture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, this.colormapTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
     // Create framebuffers for ping-pong
     for (let i = 0; i < 2; i++) {
       const fb = gl.createFramebuffer();
@@ -216,10 +337,10 @@ export class WebGLComputeRenderer implements BaseRenderer {
       gl.createTexture(),
       gl.createTexture()
     ];
+    this.rowTexture = gl.createTexture();
 
-    // Initialize both textures with null data
-    for (let i = 0; i < 2; i++) {
-      const texture = this.textures[i];
+    // Initialize all textures with null data
+    for (const texture of [...this.textures, this.rowTexture]) {
       if (!texture) continue;
 
       gl.bindTexture(gl.TEXTURE_2D, texture);
@@ -251,9 +372,10 @@ export class WebGLComputeRenderer implements BaseRenderer {
 
     const { cells, previousGenerations } = state;
     const { maxVisibleGenerations } = state.viewport;
+    const { first, last } = visibleCellRange(state.viewport, cells.length);
 
     // Calculate texture dimensions
-    const width = cells.length;
+    const width = Math.max(1, last - first);
     const height = maxVisibleGenerations;
 
     // Round up to power of 2 if needed
@@ -270,15 +392,10 @@ export class WebGLComputeRenderer implements BaseRenderer {
     // Fill all pixels with 0 first
     data.fill(0);
     
-    // Then set the active cells
+    // Then copy the cell states, row by row
     visibleGenerations.forEach((genCells, i) => {
       const y = i;  // Start from top
-      genCells.forEach((cell, x) => {
-        if (cell) {
-          const idx = y * texWidth + x;  // Use texWidth for stride
-          data[idx] = 255;
-        }
-      });
+      data.set(genCells.subarray(first, last), y * texWidth);  // Use texWidth for stride
     });
 
     // Resize textures if needed
@@ -318,7 +435,171 @@ export class WebGLComputeRenderer implements BaseRenderer {
     );
 
     this.currentTexture = 0;
+    this.cellCount = width;
+    this.firstColumn = first;
     this.generation = state.generation;
+    this.cells = cells;
+    this.rowCount = visibleGenerations.length;
+    this.visibleRows = height;
+  }
+
+  /**
+   * Upload the part of `row` the next generation's visible window depends
+   * on, with cells beyond the lattice edges taken from the boundary
+   */
+  private updateRowTexture(row: Uint8Array): void {
+    if (!this.gl) return;
+    const gl = this.gl;
+
+    const start = this.firstColumn - this.radius;
+    const data = new Uint8Array(this.cellCount + 2 * this.radius);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = cellAt(row, start + i, this.boundary);
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, this.rowTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, data.length, 1, 0, gl.RED, gl.UNSIGNED_BYTE, data);
+  }
+
+  private updateRuleTexture(state: CellState): void {
+    if (!this.gl) return;
+    const gl = this.gl;
+
+    const spec = { radius: state.radius, states: state.states, kind: state.ruleKind };
+    const lookup = ruleLookup(ruleToToggles(state.rule, spec));
+
+    const height = Math.ceil(lookup.length / RULE_TABLE_WIDTH);
+    const data = new Uint8Array(RULE_TABLE_WIDTH * height);
+    data.set(lookup);
+
+    gl.bindTexture(gl.TEXTURE_2D, this.ruleTexture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.R8UI,
+      RULE_TABLE_WIDTH,
+      height,
+      0,
+      gl.RED_INTEGER,
+      gl.UNSIGNED_BYTE,
+      data
+    );
+
+    this.rule = state.rule;
+    this.radius = state.radius;
+    this.states = state.states;
+    this.ruleKind = state.ruleKind;
+  }
+
+  /**
+   * Upload the visible history as densities and rebuild its mipmaps. Rows
+   * wider than the largest texture are pre-reduced on the CPU.
+   */
+  private updateDensityTexture(state: CellState): void {
+    if (!this.gl) return;
+    const gl = this.gl;
+
+    const { cells, previousGenerations, states } = state;
+    const maxSize: number = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+    const rows = [...previousGenerations.slice(-state.viewport.maxVisibleGenerations), cells].slice(-maxSize);
+
+    const factor = Math.ceil(cells.length / maxSize);
+    const width = Math.ceil(cells.length / factor);
+    const spans = this.densitySpans;
+    if (factor > 1 && (!spans || spans.length !== width * 2 || spans[width * 2 - 1] !== cells.length)) {
+      this.densitySpans = columnSpans(cells.length, 0, factor, width);
+    }
+
+    // Cell state to density byte
+    const levels = new Uint8Array(states);
+    for (let i = 0; i < states; i++) {
+      levels[i] = Math.round((i * 255) / (states - 1));
+    }
+
+    const data = new Uint8Array(width * rows.length);
+    rows.forEach((row, y) => {
+      const offset = y * width;
+      if (factor === 1) {
+        for (let x = 0; x < width; x++) {
+          data[offset + x] = levels[row[x]];
+        }
+      } else {
+        const values = reduceRow(row, this.densitySpans!, states);
+        for (let x = 0; x < width; x++) {
+          data[offset + x] = Math.round(values[x] * 255);
+        }
+      }
+    });
+
+    gl.bindTexture(gl.TEXTURE_2D, this.densityTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, width, rows.length, 0, gl.RED, gl.UNSIGNED_BYTE, data);
+    gl.generateMipmap(gl.TEXTURE_2D);
+
+    this.densityCells = cells;
+    this.densityHistory = previousGenerations;
+    this.densityStates = states;
+    this.densityFactor = factor;
+  }
+
+  private updateColormapTexture(colormap: Colormap): void {
+    if (!this.gl) return;
+    const gl = this.gl;
+
+    gl.bindTexture(gl.TEXTURE_2D, this.colormapTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB8, COLORMAP_SIZE, 1, 0, gl.RGB, gl.UNSIGNED_BYTE, colormapTable(colormap));
+    this.colormap = colormap;
+  }
+
+  private renderDensity(state: CellState): void {
+    if (!this.gl || !this.densityProgram) return;
+    const gl = this.gl;
+    const { density } = state.viewport;
+    if (!density) return;
+
+    if (
+      state.cells !== this.densityCells ||
+      state.previousGenerations !== this.densityHistory ||
+      state.states !== this.densityStates
+    ) {
+      this.updateDensityTexture(state);
+    }
+    if (density.colormap !== this.colormap) {
+      this.updateColormapTexture(density.colormap);
+    }
+
+    const program = this.densityProgram;
+    gl.useProgram(program);
+
+    const positionLoc = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(positionLoc);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 0, 0);
+
+    const layout = screenLayout(state.viewport);
+    const footprintX = 1 / (layout.cellSize * this.densityFactor);
+    gl.uniform2f(gl.getUniformLocation(program, 'u_resolution'), gl.canvas.width, gl.canvas.height);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_renderMargin'), layout.left);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_top'), layout.top);
+    gl.uniform2f(gl.getUniformLocation(program, 'u_footprint'), footprintX, 1 / layout.rowPitch);
+    gl.uniform3fv(gl.getUniformLocation(program, 'u_background'), parseHexColor(state.palette[0]));
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.densityTexture);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_density'), 0);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.colormapTexture);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_colormap'), 1);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, gl.canvas.width, gl.canvas.height);
+    gl.clearColor(0.1, 0.1, 0.1, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    const error = gl.getError();
+    if (error !== gl.NO_ERROR) {
+      console.error('GL Error in renderDensity:', error);
+    }
   }
 
   private computeNextState(): void {
@@ -326,23 +607,34 @@ export class WebGLComputeRenderer implements BaseRenderer {
     const gl = this.gl;
 
     // Bind the compute shader
-    gl.useProgram(this.computeProgram);
+    const program = this.computeProgram;
+    gl.useProgram(program);
 
     // Set up vertex attributes
-    const positionLoc = gl.getAttribLocation(this.computeProgram, 'a_position');
+    const positionLoc = gl.getAttribLocation(program, 'a_position');
     gl.enableVertexAttribArray(positionLoc);
     gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
     gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 0, 0);
 
-    // Set up source texture
+    // Set up source textures
     gl.activeTexture(gl.TEXTURE0);
     gl.bindTexture(gl.TEXTURE_2D, this.textures[this.currentTexture]);
-    const stateLoc = gl.getUniformLocation(this.computeProgram, 'u_state');
-    const ruleLoc = gl.getUniformLocation(this.computeProgram, 'u_rule');
-    const maxGenLoc = gl.getUniformLocation(this.computeProgram, 'u_maxGenerations');
-    gl.uniform1i(stateLoc, 0);
-    gl.uniform1i(ruleLoc, this.rule);  // Use the current rule
-    gl.uniform1f(maxGenLoc, this.textureHeight);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_state'), 0);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.rowTexture);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_row'), 1);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_radius'), this.radius);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_states'), this.states);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_totalistic'), this.ruleKind === 'totalistic' ? 1 : 0);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_width'), this.cellCount);
+
+    // Bind the rule table (uses the current rule)
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, this.ruleTexture);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_ruleTable'), 2);
+    const full = this.rowCount === this.visibleRows;
+    gl.uniform1i(gl.getUniformLocation(program, 'u_newRow'), full ? this.rowCount - 1 : this.rowCount);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_shift'), full ? 1 : 0);
 
     // Render to the other texture
     const nextTexture = 1 - this.currentTexture;
@@ -361,6 +653,18 @@ export class WebGLComputeRenderer implements BaseRenderer {
     }
 
     this.currentTexture = nextTexture;
+    this.rowCount = Math.min(this.rowCount + 1, this.visibleRows);
+  }
+
+  /**
+   * Move the texture on to `state`, one generation past the one it shows,
+   * by stepping that generation on the GPU
+   */
+  private advance(state: CellState, previous: Uint8Array): void {
+    this.updateRowTexture(previous);
+    this.computeNextState();
+    this.cells = state.cells;
+    this.generation = state.generation;
   }
 
   render(state: CellState): void {
@@ -375,11 +679,38 @@ export class WebGLComputeRenderer implements BaseRenderer {
       canvas.height = state.viewport.height;
     }
 
-    // Update state texture if generation changed
-    if (state.generation !== this.generation) {
-      console.log('Generation changed:', state.generation);
-      this.rule = state.rule;  // Store the current rule
-      this.updateTexture(state);
+    if (state.viewport.density) {
+      this.renderDensity(state);
+      return;
+    }
+
+    this.boundary = state.boundary;
+
+    // Re-upload the rule table if the rule changed
+    if (
+      state.rule !== this.rule ||
+      state.radius !== this.radius ||
+      state.states !== this.states ||
+      state.ruleKind !== this.ruleKind
+    ) {
+      this.updateRuleTexture(state);
+    }
+
+    // The texture always shows state.cells as generation state.generation.
+    // The next generation after the one shown is stepped on the GPU; any
+    // other change of rows or of the visible window is uploaded again.
+    const { first, last } = visibleCellRange(state.viewport, state.cells.length);
+    const sameWindow =
+      first === this.firstColumn &&
+      Math.max(1, last - first) === this.cellCount &&
+      state.viewport.maxVisibleGenerations === this.visibleRows;
+    if (!sameWindow || state.cells !== this.cells || state.generation !== this.generation) {
+      const previous = state.previousGenerations[state.previousGenerations.length - 1];
+      if (sameWindow && state.generation === this.generation + 1 && previous === this.cells) {
+        this.advance(state, previous);
+      } else {
+        this.updateTexture(state);
+      }
     }
 
     // Use display shader
@@ -396,9 +727,14 @@ export class WebGLComputeRenderer implements BaseRenderer {
     gl.uniform1f(gl.getUniformLocation(program, 'u_generation'), state.generation);
     gl.uniform1f(gl.getUniformLocation(program, 'u_maxGenerations'), state.viewport.maxVisibleGenerations);
     gl.uniform2f(gl.getUniformLocation(program, 'u_resolution'), gl.canvas.width, gl.canvas.height);
-    gl.uniform1f(gl.getUniformLocation(program, 'u_cellSize'), state.viewport.cellSize);
-    gl.uniform1f(gl.getUniformLocation(program, 'u_cellMargin'), state.viewport.cellMargin);
-    gl.uniform1f(gl.getUniformLocation(program, 'u_renderMargin'), state.viewport.renderMargin);
+    const layout = screenLayout(state.viewport);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_cellSize'), layout.cellSize);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_cellMargin'), layout.cellMargin);
+    // Texture column 0 is lattice column `firstColumn`
+    const renderMargin = layout.left + this.firstColumn * layout.pitch;
+    gl.uniform1f(gl.getUniformLocation(program, 'u_renderMargin'), renderMargin);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_top'), layout.top);
+    gl.uniform3fv(gl.getUniformLocation(program, 'u_palette'), paletteToFloat32(state.palette));
 
     // Bind state texture
     gl.activeTexture(gl.TEXTURE0);
@@ -418,9 +754,6 @@ export class WebGLComputeRenderer implements BaseRenderer {
     if (error !== gl.NO_ERROR) {
       console.error('GL Error in render:', error);
     }
-
-    // Compute next state
-    this.computeNextState();
   }
 
   cleanup(): void {
@@ -429,7 +762,12 @@ export class WebGLComputeRenderer implements BaseRenderer {
 
     if (this.displayProgram) gl.deleteProgram(this.displayProgram);
     if (this.computeProgram) gl.deleteProgram(this.computeProgram);
+    if (this.densityProgram) gl.deleteProgram(this.densityProgram);
+    if (this.densityTexture) gl.deleteTexture(this.densityTexture);
+    if (this.colormapTexture) gl.deleteTexture(this.colormapTexture);
     if (this.quadBuffer) gl.deleteBuffer(this.quadBuffer);
+    if (this.ruleTexture) gl.deleteTexture(this.ruleTexture);
+    if (this.rowTexture) gl.deleteTexture(this.rowTexture);
     
     this.textures.forEach(texture => {
       if (texture) gl.deleteTexture(texture);
@@ -1,5 +1,8 @@
 import { BaseRenderer, CellState } from './BaseRenderer';
 import { createShader, createProgram } from '../utils/webgl';
+import { parseHexColor } from '../utils/palette';
+import { BOUNDARY_GLSL, BoundaryCondition, DEFAULT_BOUNDARY, setBoundaryUniforms } from '../utils/boundary';
+import { screenLayout } from './geometry';
 
 // Vertex shader just creates a full-screen quad
 const vertexShaderSource = `#version 300 es
@@ -27,13 +30,14 @@ uniform vec2 u_resolution;
 uniform float u_cellSize;
 uniform float u_cellMargin;
 uniform float u_renderMargin;
+uniform float u_top;
 
 void main() {
   vec2 coord = v_texCoord * u_resolution;
   
   // Calculate cell position
   float cellX = (coord.x - u_renderMargin) / (u_cellSize + u_cellMargin);
-  float cellY = coord.y / (u_cellSize + u_cellMargin); // No need to flip Y anymore
+  float cellY = (coord.y - u_top) / (u_cellSize + u_cellMargin); // No need to flip Y anymore
   
   // Check if we're in the margin between cells
   vec2 cellFract = fract(vec2(cellX, cellY));
@@ -49,7 +53,7 @@ void main() {
   
   // Check bounds
   if (cellIndex < 0.0 || cellIndex >= float(textureSize(u_state, 0).x) || 
-      genOffset >= float(u_maxGenerations)) {
+      genOffset < 0.0 || genOffset >= float(u_maxGenerations)) {
     outColor = vec4(0.1, 0.1, 0.1, 1.0);
     return;
   }
@@ -75,16 +79,16 @@ in vec2 v_texCoord;
 out vec4 outColor;
 
 uniform sampler2D u_state;
-
+${BOUNDARY_GLSL}
 float getCell(ivec2 offset) {
   ivec2 size = textureSize(u_state, 0);
   ivec2 coord = ivec2(gl_FragCoord.xy) + offset;
   
-  // Wrap around edges
-  coord = ivec2(
-    (coord.x + size.x) % size.x,
-    (coord.y + size.y) % size.y
-  );
+  // Resolve columns through the boundary condition, wrap rows
+  int x = boundaryIndex(coord.x, size.x);
+  if (x == -1) return u_boundaryLeft > 0 ? 1.0 : 0.0;
+  if (x == -2) return u_boundaryRight > 0 ? 1.0 : 0.0;
+  coord = ivec2(x, (coord.y + size.y) % size.y);
   
   return texelFetch(u_state, coord, 0).r;
 }
@@ -125,6 +129,7 @@ export class WebGLRenderer implements BaseRenderer {
   private textureWidth = 0;
   private textureHeight = 0;
   private generation = 0;
+  private boundary: BoundaryCondition = DEFAULT_BOUNDARY;
 
   initialize(canvas: HTMLCanvasElement): void {
     const gl = canvas.getContext('webgl2');
@@ -215,8 +220,9 @@ export class WebGLRenderer implements BaseRenderer {
     if (!this.gl) return;
     const gl = this.gl;
 
-    const { cells, previousGenerations } = state;
+    const { cells, previousGenerations, palette } = state;
     const { maxVisibleGenerations } = state.viewport;
+    const colors = palette.map((color) => parseHexColor(color).map((c) => Math.round(c * 255)));
 
     // Calculate texture dimensions
     const width = cells.length;
@@ -277,10 +283,11 @@ export class WebGLRenderer implements BaseRenderer {
         if (x < width) {
           const idx = (y * width + x) * 4;
           if (cell) {
-            data[idx] = 74;     // R (0.29 * 255)
-            data[idx+1] = 156;  // G (0.61 * 255)
-            data[idx+2] = 255;  // B (1.0 * 255)
-            data[idx+3] = 255;  // A (1.0 * 255)
+            const [r, g, b] = colors[cell];
+            data[idx] = r;
+            data[idx+1] = g;
+            data[idx+2] = b;
+            data[idx+3] = 255;
           }
         }
       });
@@ -327,6 +334,7 @@ export class WebGLRenderer implements BaseRenderer {
     gl.activeTexture(gl.TEXTURE0);
     gl.bindTexture(gl.TEXTURE_2D, this.textures[this.currentTexture]);
     gl.uniform1i(gl.getUniformLocation(this.computeProgram, 'u_state'), 0);
+    setBoundaryUniforms(gl, this.computeProgram, this.boundary);
 
     // Render to the other texture
     const nextTexture = 1 - this.currentTexture;
@@ -347,6 +355,7 @@ export class WebGLRenderer implements BaseRenderer {
     if (state.generation !== this.generation) {
       this.updateTexture(state);
     }
+    this.boundary = state.boundary;
 
     // Use display shader
     gl.useProgram(this.displayProgram);
@@ -362,9 +371,11 @@ export class WebGLRenderer implements BaseRenderer {
     gl.uniform1f(gl.getUniformLocation(program, 'u_generation'), state.generation);
     gl.uniform1f(gl.getUniformLocation(program, 'u_maxGenerations'), state.viewport.maxVisibleGenerations);
     gl.uniform2f(gl.getUniformLocation(program, 'u_resolution'), gl.canvas.width, gl.canvas.height);
-    gl.uniform1f(gl.getUniformLocation(program, 'u_cellSize'), state.viewport.cellSize);
-    gl.uniform1f(gl.getUniformLocation(program, 'u_cellMargin'), state.viewport.cellMargin);
-    gl.uniform1f(gl.getUniformLocation(program, 'u_renderMargin'), state.viewport.renderMargin);
+    const layout = screenLayout(state.viewport);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_cellSize'), layout.cellSize);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_cellMargin'), layout.cellMargin);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_renderMargin'), layout.left);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_top'), layout.top);
 
     // Bind state texture
     gl.activeTexture(gl.TEXTURE0);
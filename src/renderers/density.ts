@@ -0,0 +1,69 @@
+/**
+ * Density reduction for lattices wider than the screen. A cell's value is
+ * its state scaled to [0, 1], so for binary rules the average over a block
+ * of cells is the fraction of live cells.
+ */
+
+/**
+ * Cells under each pixel column: pixel i covers cells
+ * [spans[2i], spans[2i + 1]), always at least one cell when it covers the
+ * lattice at all. `start` is the (fractional) cell at the left of pixel 0.
+ */
+export function columnSpans(cellCount: number, start: number, cellsPerPixel: number, pixelCount: number): Int32Array {
+  const spans = new Int32Array(pixelCount * 2);
+  const clamp = (cell: number) => Math.min(cellCount, Math.max(0, cell));
+  for (let i = 0; i < pixelCount; i++) {
+    const first = Math.floor(start + i * cellsPerPixel);
+    const last = Math.max(first + 1, Math.floor(start + (i + 1) * cellsPerPixel));
+    spans[i * 2] = clamp(first);
+    spans[i * 2 + 1] = clamp(last);
+  }
+  return spans;
+}
+
+interface ReducedRow {
+  spans: Int32Array;
+  states: number;
+  values: Float32Array;
+}
+
+// History rows never change once computed, so their reductions are reused
+// across frames for as long as the layout stays the same
+const reducedCache = new WeakMap<Uint8Array, ReducedRow>();
+
+/**
+ * Average value of each pixel column of a row
+ */
+export function reduceRow(row: Uint8Array, spans: Int32Array, states: number): Float32Array {
+  const cached = reducedCache.get(row);
+  if (cached && cached.spans === spans && cached.states === states) {
+    return cached.values;
+  }
+
+  const pixels = spans.length / 2;
+  const values = new Float32Array(pixels);
+  const scale = 1 / (states - 1);
+
+  for (let i = 0; i < pixels; i++) {
+    const start = spans[i * 2];
+    const end = spans[i * 2 + 1];
+    let sum = 0;
+    for (let x = start; x < end; x++) {
+      sum += row[x];
+    }
+    values[i] = end > start ? (sum * scale) / (end - start) : 0;
+  }
+
+  reducedCache.set(row, { spans, states, values });
+  return values;
+}
+
+/**
+ * Rows covered by pixel row `y`, counted from the top of the oldest row,
+ * when each row is `rowSize` pixels tall; always at least one
+ */
+export function rowSpan(y: number, rowSize: number, rowCount: number): { first: number; last: number } {
+  const first = Math.max(0, Math.min(rowCount - 1, Math.floor(y / rowSize)));
+  const last = Math.max(first + 1, Math.min(rowCount, Math.floor((y + 1) / rowSize)));
+  return { first, last };
+}
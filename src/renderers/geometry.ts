@@ -0,0 +1,129 @@
+import { CellState } from '../types/CellState';
+
+/**
+ * Shared cell geometry. Renderers and anything mapping between pixels and
+ * cells (painting, exporters) go through these so they agree exactly.
+ */
+
+/**
+ * How the lattice is laid out across the canvas width:
+ * - fit:   largest whole-pixel cell size that shows the entire lattice
+ * - scale: fractional cell size that stretches the lattice to the full width
+ * - crop:  the user's cell size, centered, clipping whatever does not fit
+ * - density: the full width with no margins, where a pixel may cover many
+ *   cells and shows their average density
+ */
+export type ViewMode = 'fit' | 'scale' | 'crop' | 'density';
+
+/**
+ * Cell size used for drawing, never below one pixel except in density mode
+ */
+export function viewCellSize(
+  viewMode: ViewMode,
+  availableWidth: number,
+  latticeWidth: number,
+  cellSize: number,
+  cellMargin: number
+): number {
+  switch (viewMode) {
+    case 'fit':
+      return Math.max(1, Math.floor(availableWidth / latticeWidth) - cellMargin);
+    case 'scale':
+      return Math.max(1, availableWidth / latticeWidth - cellMargin);
+    case 'crop':
+      return cellSize;
+    case 'density':
+      return availableWidth / latticeWidth;
+  }
+}
+
+/**
+ * Pan and zoom applied on top of the layout: a point at (x, y) in the
+ * untransformed layout lands on screen at (x * zoom + panX, y * zoom + panY)
+ */
+export interface ViewTransform {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export const IDENTITY_TRANSFORM: ViewTransform = { zoom: 1, panX: 0, panY: 0 };
+
+export const MIN_ZOOM = 1 / 16;
+export const MAX_ZOOM = 64;
+
+/**
+ * Scale by `factor` around the screen point (x, y), which stays put
+ */
+export function zoomAt(transform: ViewTransform, factor: number, x: number, y: number): ViewTransform {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, transform.zoom * factor));
+  const applied = zoom / transform.zoom;
+  return {
+    zoom,
+    panX: x - (x - transform.panX) * applied,
+    panY: y - (y - transform.panY) * applied,
+  };
+}
+
+/**
+ * Where cells land on screen once the view transform is applied
+ */
+export interface ScreenLayout {
+  cellSize: number;
+  cellMargin: number;
+  // Distance between the left edges of neighboring cells
+  pitch: number;
+  // Distance between the top edges of consecutive generations
+  rowPitch: number;
+  // Screen position of the left edge of cell 0 and the top of the oldest row
+  left: number;
+  top: number;
+}
+
+export function screenLayout(viewport: CellState['viewport']): ScreenLayout {
+  const { zoom, panX, panY } = viewport.transform;
+  // Density rendering packs cells edge to edge and sizes rows separately
+  const cellMargin = viewport.density ? 0 : viewport.cellMargin * zoom;
+  const cellSize = viewport.cellSize * zoom;
+  const pitch = cellSize + cellMargin;
+  return {
+    cellSize,
+    cellMargin,
+    pitch,
+    rowPitch: viewport.density ? viewport.density.rowSize * zoom : pitch,
+    left: viewport.renderMargin * zoom + panX,
+    top: panY,
+  };
+}
+
+/**
+ * Range [first, last) of cell indices that land on the canvas
+ */
+export function visibleCellRange(viewport: CellState['viewport'], cellCount: number): { first: number; last: number } {
+  const { pitch, left } = screenLayout(viewport);
+  const first = Math.max(0, Math.floor(-left / pitch));
+  const last = Math.min(cellCount, Math.ceil((viewport.width - left) / pitch));
+  return { first, last: Math.max(first, last) };
+}
+
+/**
+ * Range [first, last) of row indices, oldest first, that land on the canvas
+ */
+export function visibleRowRange(viewport: CellState['viewport'], rowCount: number): { first: number; last: number } {
+  const { rowPitch, top } = screenLayout(viewport);
+  const first = Math.max(0, Math.floor(-top / rowPitch));
+  const last = Math.min(rowCount, Math.ceil((viewport.height - top) / rowPitch));
+  return { first, last: Math.max(first, last) };
+}
+
+/**
+ * Cell and row index, oldest row first, under a screen point. Either may
+ * fall outside the lattice; points on a margin belong to the cell before it.
+ */
+export function cellAt(viewport: CellState['viewport'], x: number, y: number): { cell: number; row: number } {
+  const { pitch, rowPitch, left, top } = screenLayout(viewport);
+  return {
+    cell: Math.floor((x - left) / pitch),
+    row: Math.floor((y - top) / rowPitch),
+  };
+}
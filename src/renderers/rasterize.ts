@@ -0,0 +1,36 @@
+import { CellState } from './BaseRenderer';
+import { screenLayout, visibleCellRange, visibleRowRange } from './geometry';
+
+/**
+ * Draw a frame into palette indices instead of onto a canvas, with the same
+ * layout and culling as Canvas2DRenderer. Used for exports that need exact
+ * cell states rather than antialiased colors. Density views are not
+ * supported; they need more colors than the palette has.
+ */
+export function rasterize(state: CellState): Uint8Array {
+  const { cells, previousGenerations, viewport } = state;
+  const { width, height } = viewport;
+  const pixels = new Uint8Array(width * height);
+  const { cellSize, pitch, rowPitch, left, top } = screenLayout(viewport);
+  const visibleGenerations = previousGenerations.slice(-viewport.maxVisibleGenerations);
+  const columns = visibleCellRange(viewport, cells.length);
+  const rows = visibleRowRange(viewport, visibleGenerations.length + 1);
+  // Keep a one pixel gap between cells, but never draw them empty
+  const drawSize = Math.max(cellSize - 1, 1);
+
+  for (let r = rows.first; r < rows.last; r++) {
+    const row = r < visibleGenerations.length ? visibleGenerations[r] : cells;
+    const y0 = Math.max(0, Math.floor(top + r * rowPitch));
+    const y1 = Math.min(height, Math.floor(top + r * rowPitch) + drawSize);
+    for (let x = columns.first; x < columns.last; x++) {
+      const cell = row[x];
+      if (!cell) continue;
+      const x0 = Math.max(0, Math.floor(left + x * pitch));
+      const x1 = Math.min(width, Math.floor(left + x * pitch) + drawSize);
+      for (let y = y0; y < y1; y++) {
+        pixels.fill(cell, y * width + x0, y * width + x1);
+      }
+    }
+  }
+  return pixels;
+}
@@ -1,106 +1,146 @@
 import { create } from 'zustand';
 import { useSimulationStore } from './useSimulationStore';
 import { RendererType } from '../renderers/RendererFactory';
+import { DEFAULT_PALETTE } from '../utils/palette';
+import { Colormap, DEFAULT_COLORMAP } from '../utils/colormap';
+import { IDENTITY_TRANSFORM, ViewMode, ViewTransform, viewCellSize, zoomAt } from '../renderers/geometry';
 
 const SIDEBAR_WIDTH = 300;
 
 interface RenderState {
   // Render configuration
+  viewMode: ViewMode;
   cellSize: number;
   cellMargin: number;
   availableWidth: number;
+  viewCellSize: number;
   renderWidth: number;
   renderMargin: number;
   maxVisibleGenerations: number;
+  // Pixel height of one generation
+  rowSize: number;
+  // Pan and zoom on the spacetime canvas
+  viewTransform: ViewTransform;
   activeRenderer: RendererType;
+  palette: string[];
+  colormap: Colormap;
 
   // Actions
+  setViewMode: (viewMode: ViewMode) => void;
   setCellSize: (size: number) => void;
   setCellMargin: (margin: number) => void;
   updateCanvasSize: (windowWidth: number) => void;
   setActiveRenderer: (type: RendererType) => void;
+  setPaletteColor: (state: number, color: string) => void;
+  setColormap: (colormap: Colormap) => void;
+  panView: (dx: number, dy: number) => void;
+  zoomView: (factor: number, x: number, y: number) => void;
+  resetView: () => void;
 }
 
+interface ViewSettings {
+  latticeWidth: number;
+  viewMode: ViewMode;
+  cellSize: number;
+  cellMargin: number;
+}
+
+const DEFAULT_VIEW_MODE: ViewMode = 'fit';
+// Upper bound on cells kept for display, so huge lattices keep fewer rows
+const MAX_RETAINED_CELLS = 1 << 26;
 const DEFAULT_CELL_SIZE = 4;
 const DEFAULT_CELL_MARGIN = 0;
 
-const calculateCanvasMetrics = (windowWidth: number, cellSize: number, cellMargin: number) => {
+const calculateCanvasMetrics = (windowWidth: number, settings: ViewSettings) => {
+  const { latticeWidth, viewMode, cellSize, cellMargin } = settings;
   const availableWidth = windowWidth - SIDEBAR_WIDTH;
-  const maxCells = Math.floor(availableWidth / (cellSize + cellMargin));
-  const renderWidth = maxCells * (cellSize + cellMargin);
+  const size = viewCellSize(viewMode, availableWidth, latticeWidth, cellSize, cellMargin);
+  // Density rendering packs cells edge to edge
+  const margin = viewMode === 'density' ? 0 : cellMargin;
+  const renderWidth = latticeWidth * (size + margin);
   const renderMargin = Math.floor((availableWidth - renderWidth) / 2);
   // Subtract some padding to ensure we don't overflow
-  const maxVisibleGenerations = Math.floor((window.innerHeight - 100) / cellSize);
+  const height = window.innerHeight - 100;
+  const maxVisibleGenerations = Math.max(1, Math.min(
+    Math.floor(height / size),
+    Math.floor(MAX_RETAINED_CELLS / latticeWidth)
+  ));
+  const rowSize = viewMode === 'density' ? height / maxVisibleGenerations : size + margin;
   
   return {
     availableWidth,
-    maxCells,
+    viewCellSize: size,
     renderWidth,
     renderMargin,
-    maxVisibleGenerations
+    maxVisibleGenerations,
+    rowSize
   };
 };
 
 export const useRenderStore = create<RenderState>((set, get) => {
+  let windowWidth = window.innerWidth;
+
+  // The lattice width belongs to the simulation store; the view only follows it
+  const updateView = (changes: Partial<ViewSettings> = {}) => {
+    const { viewMode, cellSize, cellMargin } = get();
+    const { latticeWidth } = useSimulationStore.getState();
+    const settings = { latticeWidth, viewMode, cellSize, cellMargin, ...changes };
+    set({ ...changes, ...calculateCanvasMetrics(windowWidth, settings) });
+  };
+
+  useSimulationStore.subscribe((state, previous) => {
+    if (state.latticeWidth !== previous.latticeWidth) {
+      updateView();
+    }
+  });
+
   // Initialize with default metrics
-  const initialMetrics = calculateCanvasMetrics(
-    window.innerWidth,
-    DEFAULT_CELL_SIZE,
-    DEFAULT_CELL_MARGIN
-  );
+  const initialMetrics = calculateCanvasMetrics(windowWidth, {
+    latticeWidth: useSimulationStore.getState().latticeWidth,
+    viewMode: DEFAULT_VIEW_MODE,
+    cellSize: DEFAULT_CELL_SIZE,
+    cellMargin: DEFAULT_CELL_MARGIN
+  });
 
   return {
     // Initial state
+    viewMode: DEFAULT_VIEW_MODE,
     cellSize: DEFAULT_CELL_SIZE,
     cellMargin: DEFAULT_CELL_MARGIN,
     activeRenderer: 'canvas2d',
+    palette: DEFAULT_PALETTE,
+    colormap: DEFAULT_COLORMAP,
+    viewTransform: IDENTITY_TRANSFORM,
     ...initialMetrics,
 
-    setCellSize: (size) => {
-      const metrics = calculateCanvasMetrics(
-        window.innerWidth,
-        size,
-        get().cellMargin
-      );
+    setViewMode: (viewMode) => updateView({ viewMode }),
 
-      // Update simulation store with new max cells
-      useSimulationStore.getState().updateMaxCells(metrics.maxCells);
+    setCellSize: (size) => updateView({ cellSize: size }),
 
-      set({
-        cellSize: size,
-        ...metrics
-      });
-    },
+    setCellMargin: (margin) => updateView({ cellMargin: margin }),
 
-    setCellMargin: (margin) => {
-      const metrics = calculateCanvasMetrics(
-        window.innerWidth,
-        get().cellSize,
-        margin
-      );
+    updateCanvasSize: (width) => {
+      windowWidth = width;
+      updateView();
+    },
 
-      // Update simulation store with new max cells
-      useSimulationStore.getState().updateMaxCells(metrics.maxCells);
+    setActiveRenderer: (type) => set({ activeRenderer: type }),
 
-      set({
-        cellMargin: margin,
-        ...metrics
-      });
+    setPaletteColor: (state, color) => {
+      const palette = [...get().palette];
+      palette[state] = color;
+      set({ palette });
     },
 
-    updateCanvasSize: (windowWidth) => {
-      const metrics = calculateCanvasMetrics(
-        windowWidth,
-        get().cellSize,
-        get().cellMargin
-      );
+    setColormap: (colormap) => set({ colormap }),
 
-      // Update simulation store with new max cells
-      useSimulationStore.getState().updateMaxCells(metrics.maxCells);
-
-      set(metrics);
+    panView: (dx, dy) => {
+      const { viewTransform } = get();
+      set({ viewTransform: { ...viewTransform, panX: viewTransform.panX + dx, panY: viewTransform.panY + dy } });
     },
 
-    setActiveRenderer: (type) => set({ activeRenderer: type }),
+    zoomView: (factor, x, y) => set({ viewTransform: zoomAt(get().viewTransform, factor, x, y) }),
+
+    resetView: () => set({ viewTransform: IDENTITY_TRANSFORM }),
   };
 });
@@ -1,58 +1,153 @@
 import { create } from 'zustand';
+import {
+  RuleKind,
+  RuleSpec,
+  convertRule,
+  ruleToToggles,
+  supportsGeneralRule,
+  togglesToRule
+} from '../utils/rules';
+import { BoundaryCondition, DEFAULT_BOUNDARY } from '../utils/boundary';
+import { SimulationEngine } from '../engine/SimulationEngine';
+import { DEFAULT_LATTICE_WIDTH, clampLatticeWidth, resizeRow } from '../utils/lattice';
+import { DEFAULT_RANDOM_OPTIONS, RandomOptions, randomSeed } from '../utils/random';
+import { patternRow } from '../utils/initialCondition';
+import { InitPattern } from '../types/Experiment';
 
 interface SimulationState {
   // Core simulation state
-  cells: boolean[];
-  previousGenerations: boolean[][];
-  rule: number;
-  ruleToggles: boolean[];
+  cells: Uint8Array;
+  previousGenerations: Uint8Array[];
+  rule: bigint;
+  radius: number;
+  states: number;
+  ruleKind: RuleKind;
+  ruleToggles: number[];
+  boundary: BoundaryCondition;
   generation: number;
   isPlaying: boolean;
   speed: number;
-  lastInitPattern: 'single' | 'random' | 'filled' | 'empty' | 'alternating';
-  maxCells: number;
+  lastInitPattern: InitPattern | 'custom';
+  // Settings for the next random row
+  randomOptions: RandomOptions;
+  // Settings that produced the current random row, so a reset restores it exactly
+  lastInitRandom: RandomOptions | null;
+  // Explicit row the run started from when it was not made by a pattern
+  lastInitRow: Uint8Array | null;
+  latticeWidth: number;
   
   // Actions
-  setCells: (cells: boolean[]) => void;
-  setRule: (rule: number) => void;
-  setRuleToggles: (toggles: boolean[]) => void;
+  setCells: (cells: Uint8Array) => void;
+  setRule: (rule: bigint) => void;
+  setRadius: (radius: number) => void;
+  setStates: (states: number) => void;
+  setRuleKind: (kind: RuleKind) => void;
+  setBoundary: (boundary: BoundaryCondition) => void;
+  setRuleToggles: (toggles: number[]) => void;
   toggleRule: (index: number) => void;
   setIsPlaying: (isPlaying: boolean) => void;
   setSpeed: (speed: number) => void;
   step: () => void;
   incrementGeneration: () => void;
   resetGeneration: () => void;
-  initializePattern: (pattern: 'single' | 'random' | 'filled' | 'empty' | 'alternating') => void;
-  setPresetRule: (ruleNumber: number) => void;
-  updateMaxCells: (maxCells: number) => void;
+  initializePattern: (pattern: InitPattern, random?: RandomOptions) => void;
+  setInitialRow: (row: Uint8Array) => void;
+  // Overwrite cells of the current generation starting at `first`
+  paintCells: (first: number, values: Uint8Array) => void;
+  setRandomOptions: (changes: Partial<RandomOptions>) => void;
+  rerollRandom: () => void;
+  setPresetRule: (ruleNumber: number | bigint, spec?: Partial<RuleSpec>) => void;
+  setLatticeWidth: (width: number) => void;
 }
 
 const DEFAULT_SPEED = 10;
-const DEFAULT_RULE = 30;
+const DEFAULT_RULE = 30n;
+const DEFAULT_RULE_SPEC: RuleSpec = { radius: 1, states: 2, kind: 'general' };
 
 export const useSimulationStore = create<SimulationState>((set, get) => {
+  // The engine does the lattice arithmetic; the store mirrors its rows for rendering
+  const engine = new SimulationEngine();
+  let engineCells: Uint8Array | null = null;
+
+  // Bring the engine in line with the store. Configuring is cheap when nothing
+  // changed, and the row is only re-packed when the store replaced it
+  // (presets, resizes, setCells).
+  const syncEngine = () => {
+    const { cells, generation, rule, radius, states, ruleKind, boundary } = get();
+    engine.configure({ rule, radius, states, ruleKind, boundary });
+    if (cells !== engineCells) {
+      engine.setCells(cells, generation);
+      engineCells = cells;
+    }
+  };
+
+  const getRuleSpec = (): RuleSpec => {
+    const { radius, states, ruleKind } = get();
+    return { radius, states, kind: ruleKind };
+  };
+
+  // Change the rule's shape, carrying the current rule over where possible
+  const reshapeRule = (change: Partial<RuleSpec>) => {
+    const from = getRuleSpec();
+    const to = { ...from, ...change };
+    if (to.kind === 'general' && !supportsGeneralRule(to.radius, to.states)) {
+      to.kind = 'totalistic';
+    }
+    const rule = convertRule(get().rule, from, to);
+    // Cells in states that no longer exist collapse onto the highest one
+    const clampState = (cell: number) => Math.min(cell, to.states - 1);
+    const { boundary } = get();
+    const cells = to.states < from.states ? get().cells.map(clampState) : get().cells;
+    set({
+      cells,
+      boundary: { ...boundary, left: clampState(boundary.left), right: clampState(boundary.right) },
+      rule,
+      radius: to.radius,
+      states: to.states,
+      ruleKind: to.kind,
+      ruleToggles: ruleToToggles(rule, to)
+    });
+  };
+
   return {
     // Initial state
-    cells: new Array(100).fill(false), // Default size, will be updated by render store
+    cells: new Uint8Array(DEFAULT_LATTICE_WIDTH),
     previousGenerations: [],
     rule: DEFAULT_RULE,
-    ruleToggles: new Array(8).fill(false),
+    radius: DEFAULT_RULE_SPEC.radius,
+    states: DEFAULT_RULE_SPEC.states,
+    ruleKind: DEFAULT_RULE_SPEC.kind,
+    ruleToggles: ruleToToggles(DEFAULT_RULE, DEFAULT_RULE_SPEC),
+    boundary: DEFAULT_BOUNDARY,
     isPlaying: false,
     generation: 0,
     speed: DEFAULT_SPEED,
     lastInitPattern: 'single',
-    maxCells: 100, // Will be updated by render store
+    randomOptions: { ...DEFAULT_RANDOM_OPTIONS, seed: randomSeed() },
+    lastInitRandom: null,
+    lastInitRow: null,
+    latticeWidth: DEFAULT_LATTICE_WIDTH,
 
     setCells: (cells) => set({ cells }),
 
-    setRule: (rule) => set({ rule }),
+    setRule: (rule) => set({ rule, ruleToggles: ruleToToggles(rule, getRuleSpec()) }),
+
+    setRadius: (radius) => reshapeRule({ radius }),
 
-    setRuleToggles: (toggles) => set({ ruleToggles: toggles }),
+    setStates: (states) => reshapeRule({ states }),
+
+    setRuleKind: (kind) => reshapeRule({ kind }),
+
+    setBoundary: (boundary) => set({ boundary }),
+
+    setRuleToggles: (toggles) => set({ ruleToggles: toggles, rule: togglesToRule(toggles, get().states) }),
 
     toggleRule: (index) => {
+      const { states } = get();
       const toggles = [...get().ruleToggles];
-      toggles[index] = !toggles[index];
-      set({ ruleToggles: toggles });
+      // Cycle through the output states; for binary rules this is a flip
+      toggles[index] = (toggles[index] + 1) % states;
+      set({ ruleToggles: toggles, rule: togglesToRule(toggles, states) });
     },
 
     setIsPlaying: (isPlaying) => set({ isPlaying }),
@@ -60,21 +155,16 @@ export const useSimulationStore = create<SimulationState>((set, get) => {
     setSpeed: (speed) => set({ speed }),
 
     step: () => {
-      const { cells, ruleToggles } = get();
-      const nextCells = new Array(cells.length).fill(false);
-
-      for (let i = 0; i < cells.length; i++) {
-        const left = cells[(i - 1 + cells.length) % cells.length];
-        const center = cells[i];
-        const right = cells[(i + 1) % cells.length];
-        const idx = (left ? 4 : 0) + (center ? 2 : 0) + (right ? 1 : 0);
-        nextCells[i] = ruleToggles[7 - idx];
-      }
+      syncEngine();
+      engine.step();
+      const nextCells = engine.getCells();
+      engineCells = nextCells;
 
+      // Rows are never mutated once emitted, so the old row can be kept as is
       set(state => ({
-        previousGenerations: [...state.previousGenerations, [...cells]],
+        previousGenerations: state.previousGenerations.concat([state.cells]),
         cells: nextCells,
-        generation: state.generation + 1
+        generation: engine.generation
       }));
     },
 
@@ -89,65 +179,97 @@ export const useSimulationStore = create<SimulationState>((set, get) => {
     },
 
     resetGeneration: () => {
-      const { lastInitPattern } = get();
-      get().initializePattern(lastInitPattern);
+      const { lastInitPattern, lastInitRandom, lastInitRow, randomOptions, latticeWidth, states } = get();
+      if (lastInitPattern === 'custom') {
+        // The lattice may have been resized or lost states since
+        const row = resizeRow(lastInitRow ?? new Uint8Array(0), latticeWidth).map((cell) => Math.min(cell, states - 1));
+        get().setInitialRow(row);
+      } else {
+        get().initializePattern(lastInitPattern, lastInitRandom ?? randomOptions);
+      }
       set({ generation: 0, previousGenerations: [] });
     },
 
-    initializePattern: (pattern) => {
-      const { maxCells } = get();
-      const newCells = new Array(maxCells).fill(false);
-      
-      switch (pattern) {
-        case 'single':
-          newCells[Math.floor(maxCells / 2)] = true;
-          break;
-        case 'random':
-          for (let i = 0; i < maxCells; i++) {
-            newCells[i] = Math.random() > 0.5;
-          }
-          break;
-        case 'filled':
-          newCells.fill(true);
-          break;
-        case 'alternating':
-          for (let i = 0; i < maxCells; i++) {
-            newCells[i] = i % 2 === 0;
-          }
-          break;
-      }
-      
+    initializePattern: (pattern, random = get().randomOptions) => {
+      const { latticeWidth, states } = get();
+      const newCells = patternRow(pattern, latticeWidth, states, random);
+
       set({
         cells: newCells,
         lastInitPattern: pattern,
+        lastInitRandom: pattern === 'random' ? random : null,
+        lastInitRow: null,
         generation: 0,
         previousGenerations: []
       });
     },
 
-    setPresetRule: (ruleNumber) => {
-      const toggles = new Array(8).fill(false);
-      for (let i = 0; i < 8; i++) {
-        toggles[7 - i] = Boolean(ruleNumber & (1 << i));
+    setInitialRow: (row) => {
+      if (row.length !== get().latticeWidth) {
+        set({ latticeWidth: row.length });
       }
-      set({ rule: ruleNumber, ruleToggles: toggles });
+      set({
+        cells: Uint8Array.from(row),
+        lastInitPattern: 'custom',
+        lastInitRandom: null,
+        lastInitRow: Uint8Array.from(row),
+        generation: 0,
+        previousGenerations: []
+      });
     },
 
-    updateMaxCells: (maxCells) => {
-      const { cells } = get();
-      const newCells = new Array(maxCells).fill(false);
-      
-      // Copy over existing cells, centered in new array
-      const offset = Math.floor((maxCells - cells.length) / 2);
-      cells.forEach((cell, i) => {
-        if (i + offset >= 0 && i + offset < maxCells) {
-          newCells[i + offset] = cell;
-        }
+    paintCells: (first, values) => {
+      const { cells, generation, states } = get();
+      const next = Uint8Array.from(cells);
+      const start = Math.max(0, first);
+      const end = Math.min(next.length, first + values.length);
+      for (let i = start; i < end; i++) {
+        next[i] = Math.min(values[i - first], states - 1);
+      }
+      // Edits to generation 0 become the initial row that a reset restores;
+      // later ones are defects injected into the running simulation
+      if (generation === 0) {
+        set({ cells: next, lastInitPattern: 'custom', lastInitRandom: null, lastInitRow: Uint8Array.from(next) });
+      } else {
+        set({ cells: next });
+      }
+    },
+
+    setRandomOptions: (changes) => {
+      const randomOptions = { ...get().randomOptions, ...changes };
+      set({ randomOptions });
+      // Show the effect right away when the lattice holds a random row
+      if (get().lastInitPattern === 'random') {
+        get().initializePattern('random', randomOptions);
+      }
+    },
+
+    rerollRandom: () => {
+      const randomOptions = { ...get().randomOptions, seed: randomSeed() };
+      set({ randomOptions });
+      get().initializePattern('random', randomOptions);
+    },
+
+    setPresetRule: (ruleNumber, spec = {}) => {
+      const rule = BigInt(ruleNumber);
+      const nextSpec = { ...getRuleSpec(), ...spec };
+      set({
+        rule,
+        radius: nextSpec.radius,
+        states: nextSpec.states,
+        ruleKind: nextSpec.kind,
+        ruleToggles: ruleToToggles(rule, nextSpec)
       });
+    },
+
+    setLatticeWidth: (width) => {
+      const latticeWidth = clampLatticeWidth(width);
+      const { cells, previousGenerations } = get();
 
       set({
-        maxCells,
-        cells: newCells
+        latticeWidth,
+        cells: resizeRow(cells, latticeWidth),
+        previousGenerations: previousGenerations.map((row) => resizeRow(row, latticeWidth))
       });
     }
   };
@@ -1,118 +1,500 @@
 import { create } from 'zustand';
 import { RendererType, hasWebGLSupport } from '../renderers/RendererFactory';
+import {
+  RuleKind,
+  RuleSpec,
+  convertRule,
+  ruleToToggles,
+  supportsGeneralRule,
+  togglesToRule
+} from '../utils/rules';
+import { BoundaryCondition, DEFAULT_BOUNDARY } from '../utils/boundary';
+import { EngineConfig, SimulationEngine } from '../engine/SimulationEngine';
+import { BatchHistory, SimulationWorkerClient } from '../engine/SimulationWorkerClient';
+import { HistoryBuffer } from '../engine/HistoryBuffer';
+import { bitsPerCell, packedWords, unpackCells } from '../engine/packing';
+import { CycleDetector, CycleStatus } from '../engine/CycleDetector';
+import { DEFAULT_BLOCK_SIZE, GenerationStatistics, StatisticsBuffer } from '../engine/statistics';
+import { DEFAULT_PALETTE } from '../utils/palette';
+import { Colormap, DEFAULT_COLORMAP } from '../utils/colormap';
+import { DEFAULT_LATTICE_WIDTH, clampLatticeWidth, resizeRow } from '../utils/lattice';
+import { DEFAULT_RANDOM_OPTIONS, RandomOptions, randomSeed } from '../utils/random';
+import { patternRow } from '../utils/initialCondition';
+import { Experiment, InitPattern, InitialCondition } from '../types/Experiment';
+import { Brush, DEFAULT_BRUSH } from '../utils/brush';
+import { MAX_SESSION_HISTORY_BYTES, Session } from '../utils/session';
+import { IDENTITY_TRANSFORM, ViewMode, ViewTransform, viewCellSize, zoomAt } from '../renderers/geometry';
 
 const SIDEBAR_WIDTH = 300;
 
+export type Overlay = 'atlas' | 'basins';
+
+// A row on the canvas under the pointer
+export interface HoveredRow {
+  generation: number;
+  cells: Uint8Array;
+}
+
 interface AutomatonState {
   // Simulation state
-  cells: boolean[];
-  previousGenerations: boolean[][];
-  rule: number;
-  ruleToggles: boolean[];
+  cells: Uint8Array;
+  previousGenerations: Uint8Array[];
+  rule: bigint;
+  radius: number;
+  states: number;
+  ruleKind: RuleKind;
+  ruleToggles: number[];
+  boundary: BoundaryCondition;
   isPlaying: boolean;
   generation: number;
   speed: number;
-  lastInitPattern: 'single' | 'random' | 'filled' | 'empty' | 'alternating';
+  lastInitPattern: InitPattern | 'custom';
+  // Settings for the next random row
+  randomOptions: RandomOptions;
+  // Settings that produced the current random row, so a reset restores it exactly
+  lastInitRandom: RandomOptions | null;
+  // Explicit row the run started from when it was not made by a pattern
+  lastInitRow: Uint8Array | null;
+  latticeWidth: number;
+  // Oldest generation still held for scrollback
+  historyStart: number;
+  // Generation shown at the bottom of the canvas, or null to follow the simulation
+  scrollback: number | null;
+  // Whether the run has been seen to repeat, and how
+  cycle: CycleStatus;
+  pauseOnCycle: boolean;
+  // Charts of per-generation statistics beside the canvas
+  showStatistics: boolean;
+  // Largest block size for block entropy
+  blockSize: number;
   
   // Render state
+  viewMode: ViewMode;
   cellSize: number;
   cellMargin: number;
   availableWidth: number;
-  maxCells: number;
+  viewCellSize: number;
   renderWidth: number;
   renderMargin: number;
   maxVisibleGenerations: number;
+  // Pixel height of one generation
+  rowSize: number;
+  // Pan and zoom on the spacetime canvas
+  viewTransform: ViewTransform;
   activeRenderer: RendererType;
+  palette: string[];
+  colormap: Colormap;
+  // How clicks on the current generation paint it
+  brush: Brush;
+  // Full-size view covering the canvas, if any
+  overlay: Overlay | null;
+  hoveredRow: HoveredRow | null;
   
   // Actions
-  setCells: (cells: boolean[]) => void;
-  setRule: (rule: number) => void;
-  setRuleToggles: (toggles: boolean[]) => void;
+  setCells: (cells: Uint8Array) => void;
+  setRule: (rule: bigint) => void;
+  setRadius: (radius: number) => void;
+  setStates: (states: number) => void;
+  setRuleKind: (kind: RuleKind) => void;
+  setBoundary: (boundary: BoundaryCondition) => void;
+  setRuleToggles: (toggles: number[]) => void;
   toggleRule: (index: number) => void;
   setIsPlaying: (isPlaying: boolean) => void;
   incrementGeneration: () => void;
   resetGeneration: () => void;
   setCellSize: (size: number) => void;
   setCellMargin: (margin: number) => void;
+  setViewMode: (viewMode: ViewMode) => void;
+  setLatticeWidth: (width: number) => void;
   setSpeed: (speed: number) => void;
+  setPauseOnCycle: (pause: boolean) => void;
+  setShowStatistics: (show: boolean) => void;
+  setBlockSize: (size: number) => void;
   step: () => void;
-  initializePattern: (pattern: 'single' | 'random' | 'filled' | 'empty' | 'alternating') => void;
-  setPresetRule: (ruleNumber: number) => void;
+  // Rows from the worker; `computed` holds every row of its batch
+  applyRows: (rows: Uint8Array[], generation: number, computed?: BatchHistory) => void;
+  initializePattern: (pattern: InitPattern, random?: RandomOptions) => void;
+  setInitialRow: (row: Uint8Array) => void;
+  // Overwrite cells of the current generation starting at `first`
+  paintCells: (first: number, values: Uint8Array) => void;
+  setRandomOptions: (changes: Partial<RandomOptions>) => void;
+  rerollRandom: () => void;
+  setPresetRule: (ruleNumber: number | bigint, spec?: Partial<RuleSpec>) => void;
   updateCanvasSize: (windowWidth: number) => void;
   setActiveRenderer: (type: RendererType) => void;
+  setPaletteColor: (state: number, color: string) => void;
+  setColormap: (colormap: Colormap) => void;
+  setBrush: (changes: Partial<Brush>) => void;
+  setOverlay: (overlay: Overlay | null) => void;
+  setHoveredRow: (row: HoveredRow | null) => void;
+  panView: (dx: number, dy: number) => void;
+  zoomView: (factor: number, x: number, y: number) => void;
+  resetView: () => void;
+  scrollTo: (generation: number | null) => void;
+  getHistoryRows: (first: number, last: number) => Uint8Array[];
+  // Statistics for generations [first, last) that are still held
+  getStatistics: (first: number, last: number) => GenerationStatistics[];
+  getExperiment: () => Experiment;
+  loadExperiment: (experiment: Experiment) => void;
+  getSession: (includeHistory: boolean) => Session;
+  loadSession: (session: Session) => void;
 }
 
+// State that ends up in a permalink; changes to anything else leave the link alone
+export const EXPERIMENT_KEYS: (keyof AutomatonState)[] = [
+  'rule',
+  'radius',
+  'states',
+  'ruleKind',
+  'boundary',
+  'latticeWidth',
+  'lastInitPattern',
+  'lastInitRandom',
+  'lastInitRow',
+  'speed',
+  'viewMode',
+  'cellSize',
+  'cellMargin',
+  'colormap',
+  'palette',
+  'activeRenderer'
+];
+
 const DEFAULT_CELL_SIZE = 2;
 const DEFAULT_SPEED = 60;
-const DEFAULT_RULE = 110;
+const DEFAULT_RULE = 110n;
+const DEFAULT_RULE_SPEC: RuleSpec = { radius: 1, states: 2, kind: 'general' };
 const DEFAULT_CELL_MARGIN = 0;
 
-const calculateCanvasMetrics = (windowWidth: number, cellSize: number, cellMargin: number) => {
+const DEFAULT_VIEW_MODE: ViewMode = 'fit';
+// Upper bound on cells kept for display, so huge lattices keep fewer rows
+const MAX_RETAINED_CELLS = 1 << 26;
+
+interface ViewSettings {
+  latticeWidth: number;
+  viewMode: ViewMode;
+  cellSize: number;
+  cellMargin: number;
+}
+
+// View metrics only depend on the window and the view settings; the lattice
+// itself is never touched here
+const calculateCanvasMetrics = (windowWidth: number, settings: ViewSettings) => {
+  const { latticeWidth, viewMode, cellSize, cellMargin } = settings;
   const availableWidth = windowWidth - SIDEBAR_WIDTH;
-  const maxCells = Math.floor(availableWidth / (cellSize + cellMargin));
-  const renderWidth = maxCells * (cellSize + cellMargin);
+  const size = viewCellSize(viewMode, availableWidth, latticeWidth, cellSize, cellMargin);
+  // Density rendering packs cells edge to edge
+  const margin = viewMode === 'density' ? 0 : cellMargin;
+  const renderWidth = latticeWidth * (size + margin);
+  // Negative when the lattice is wider than the canvas, which crops it evenly
   const renderMargin = Math.floor((availableWidth - renderWidth) / 2);
   
   // Calculate max generations that fit in the viewport
-  const maxVisibleGenerations = Math.floor(window.innerHeight / (cellSize + cellMargin));
+  const maxVisibleGenerations = Math.max(1, Math.min(
+    Math.floor(window.innerHeight / (size + margin)),
+    Math.floor(MAX_RETAINED_CELLS / latticeWidth)
+  ));
+
+  // When the retained history is shorter than a square-cell picture would
+  // need, density rendering stretches it over the full height instead
+  const rowSize = viewMode === 'density'
+    ? window.innerHeight / maxVisibleGenerations
+    : size + margin;
   
   return {
     availableWidth,
-    maxCells,
+    viewCellSize: size,
     renderWidth,
     renderMargin,
-    maxVisibleGenerations
+    maxVisibleGenerations,
+    rowSize
   };
 };
 
-export const useStore = create<AutomatonState>((set, get) => {
-  const initialMetrics = calculateCanvasMetrics(window.innerWidth, DEFAULT_CELL_SIZE, DEFAULT_CELL_MARGIN);
+const engineConfig = (state: AutomatonState): EngineConfig => ({
+  rule: state.rule,
+  radius: state.radius,
+  states: state.states,
+  ruleKind: state.ruleKind,
+  boundary: state.boundary
+});
+
+const configChanged = (a: EngineConfig, b: EngineConfig) =>
+  (Object.keys(a) as (keyof EngineConfig)[]).some((key) => a[key] !== b[key]);
+
+export const useStore = create<AutomatonState>((set, get, api) => {
+  const initialMetrics = calculateCanvasMetrics(window.innerWidth, {
+    latticeWidth: DEFAULT_LATTICE_WIDTH,
+    viewMode: DEFAULT_VIEW_MODE,
+    cellSize: DEFAULT_CELL_SIZE,
+    cellMargin: DEFAULT_CELL_MARGIN
+  });
   
+  // The engine does the lattice arithmetic; the store mirrors its rows for rendering
+  const engine = new SimulationEngine();
+  let engineCells: Uint8Array | null = null;
+
+  // Bring the engine in line with the store. Configuring is cheap when nothing
+  // changed, and the row is only re-packed when the store replaced it
+  // (presets, resizes, setCells).
+  const syncEngine = () => {
+    const { cells, generation } = get();
+    engine.configure(engineConfig(get()));
+    if (cells !== engineCells) {
+      engine.setCells(cells, generation);
+      engineCells = cells;
+    }
+  };
+
+  // Every generation passes through the history buffer for scrollback.
+  // Rows from stepping are recorded as they are made; any other change to
+  // the cells is caught by the subscription below.
+  const history = new HistoryBuffer();
+  let historyCells: Uint8Array | null = null;
+  // Statistics are taken of the same rows, but only while they are charted
+  const statistics = new StatisticsBuffer();
+
+  // The cycle search follows the same rows and checks repeats against the
+  // history. Replacing the cells or changing the rule or boundary starts it
+  // over (see the subscription below).
+  const cycles = new CycleDetector((generation) => history.get(generation));
+  let cycleCells: Uint8Array | null = null;
+
+  // Rows made here are recorded cell by cell. Batches from the worker come
+  // with every row already packed and its cycle key and statistics worked
+  // out, so their words are only copied.
+  const recordRows = (rows: Uint8Array[], generation: number, computed?: BatchHistory) => {
+    const { states, showStatistics, blockSize } = get();
+    if (computed) {
+      const { rowCount, cycleKeys } = computed;
+      history.pushPacked(computed.words, rowCount, generation, computed.width, computed.states);
+      if (showStatistics && computed.statistics) {
+        statistics.pushSlots(computed.statistics, rowCount, generation, computed.states, computed.blockSize);
+      }
+      for (let i = 0; cycleKeys && i < rowCount; i++) {
+        cycles.observe(generation - rowCount + 1 + i, { hash: cycleKeys[2 * i], offset: cycleKeys[2 * i + 1] });
+      }
+    } else {
+      const first = generation - rows.length + 1;
+      // Activity compares each row with the one before
+      let previous = showStatistics ? history.get(first - 1) : null;
+      rows.forEach((row, i) => {
+        history.push(row, first + i, states);
+        if (showStatistics) statistics.push(row, previous, first + i, states, blockSize);
+        cycles.observe(first + i, cycles.keyOf(row));
+        previous = row;
+      });
+    }
+    historyCells = rows[rows.length - 1];
+    cycleCells = historyCells;
+
+    if (cycles.status !== get().cycle) {
+      set({ cycle: cycles.status });
+      if (cycles.status.state === 'found' && get().pauseOnCycle && get().isPlaying) {
+        get().setIsPlaying(false);
+      }
+    }
+  };
+
+  // Measure the rows of the live view again, for charts that were just
+  // shown or changed; older generations are not worth the wait
+  const remeasure = () => {
+    statistics.clear();
+    const { showStatistics, generation, maxVisibleGenerations, states, blockSize } = get();
+    if (!showStatistics) return;
+    const first = Math.max(history.firstGeneration, generation - maxVisibleGenerations);
+    let previous = history.get(first - 1);
+    history.rows(first, generation + 1).forEach((row, i) => {
+      statistics.push(row, previous, first + i, states, blockSize);
+      previous = row;
+    });
+  };
+
+  // Keep the scrolled-back position on rows that are still held
+  const clampScrollback = (scrollback: number | null) =>
+    scrollback === null ? null : Math.max(scrollback, history.firstGeneration);
+
+  api.subscribe((state, prev) => {
+    if (state.cells === historyCells && state.states === prev.states) return;
+    if (state.cells === prev.cells && state.states === prev.states) return;
+
+    const before = history.firstGeneration;
+    history.push(state.cells, state.generation, state.states);
+    if (state.showStatistics) {
+      statistics.push(state.cells, history.get(state.generation - 1), state.generation, state.states, state.blockSize);
+    }
+    historyCells = state.cells;
+    if (history.firstGeneration !== before || state.scrollback !== null) {
+      set({ historyStart: history.firstGeneration, scrollback: null });
+    }
+  });
+
+  api.subscribe((state, prev) => {
+    const replaced = state.cells !== prev.cells && state.cells !== cycleCells;
+    if (!replaced && !configChanged(engineConfig(state), engineConfig(prev))) return;
+    cycles.reset(state.cells, state.generation, state.boundary.type === 'periodic');
+    cycleCells = state.cells;
+    set({ cycle: cycles.status });
+  });
+
+  // While playing, generations are computed in a worker when one is available.
+  // The worker is created on first play. It sends the rows the canvas can
+  // show as cells and all of them packed for the history.
+  let simulationWorker: SimulationWorkerClient | null = null;
+  let workerCells: Uint8Array | null = null;
+
+  const getWorker = () => {
+    if (!simulationWorker && SimulationWorkerClient.isSupported()) {
+      simulationWorker = new SimulationWorkerClient();
+      simulationWorker.onBatch = (rows, generation, computed) => get().applyRows(rows, generation, computed);
+    }
+    return simulationWorker;
+  };
+
+  // Forward changes made while playing so the worker stays authoritative
+  api.subscribe((state, prev) => {
+    if (!simulationWorker || !state.isPlaying) return;
+
+    const config = engineConfig(state);
+    if (configChanged(config, engineConfig(prev))) {
+      simulationWorker.setRule(config);
+    }
+    if (state.cells !== prev.cells && state.cells !== workerCells) {
+      simulationWorker.seed(state.cells, state.generation);
+    }
+    if (state.speed !== prev.speed) {
+      simulationWorker.setSpeed(state.speed);
+    }
+    if (state.maxVisibleGenerations !== prev.maxVisibleGenerations) {
+      simulationWorker.setKeepRows(state.maxVisibleGenerations + 1);
+    }
+    if (state.showStatistics !== prev.showStatistics || state.blockSize !== prev.blockSize) {
+      simulationWorker.setStatistics(state.showStatistics ? state.blockSize : null);
+    }
+  });
+
+  const updateView = (changes: Partial<ViewSettings>, windowWidth = window.innerWidth) => {
+    const { latticeWidth, viewMode, cellSize, cellMargin } = get();
+    const settings = { latticeWidth, viewMode, cellSize, cellMargin, ...changes };
+    set({ ...changes, ...calculateCanvasMetrics(windowWidth, settings) });
+  };
+
+  const getRuleSpec = (): RuleSpec => {
+    const { radius, states, ruleKind } = get();
+    return { radius, states, kind: ruleKind };
+  };
+
+  // Change the rule's shape, carrying the current rule over where possible
+  const reshapeRule = (change: Partial<RuleSpec>) => {
+    const from = getRuleSpec();
+    const to = { ...from, ...change };
+    if (to.kind === 'general' && !supportsGeneralRule(to.radius, to.states)) {
+      to.kind = 'totalistic';
+    }
+    const rule = convertRule(get().rule, from, to);
+    // Cells in states that no longer exist collapse onto the highest one
+    const clampState = (cell: number) => Math.min(cell, to.states - 1);
+    const { boundary } = get();
+    const cells = to.states < from.states ? get().cells.map(clampState) : get().cells;
+    set({
+      cells,
+      boundary: { ...boundary, left: clampState(boundary.left), right: clampState(boundary.right) },
+      rule,
+      radius: to.radius,
+      states: to.states,
+      ruleKind: to.kind,
+      ruleToggles: ruleToToggles(rule, to)
+    });
+  };
+
   return {
     // Initial simulation state
     cells: (() => {
-      const cells = new Array(initialMetrics.maxCells).fill(false);
-      cells[Math.floor(initialMetrics.maxCells / 2)] = true;
+      const cells = new Uint8Array(DEFAULT_LATTICE_WIDTH);
+      cells[Math.floor(DEFAULT_LATTICE_WIDTH / 2)] = 1;
       return cells;
     })(),
     previousGenerations: [],
     rule: DEFAULT_RULE,
-    ruleToggles: (() => {
-      const toggles = new Array(8).fill(false);
-      // Set rule 30 toggles
-      for (let i = 0; i < 8; i++) {
-        toggles[i] = Boolean(DEFAULT_RULE & (1 << i));
-      }
-      return toggles;
-    })(),
+    radius: DEFAULT_RULE_SPEC.radius,
+    states: DEFAULT_RULE_SPEC.states,
+    ruleKind: DEFAULT_RULE_SPEC.kind,
+    ruleToggles: ruleToToggles(DEFAULT_RULE, DEFAULT_RULE_SPEC),
+    boundary: DEFAULT_BOUNDARY,
     isPlaying: false,
     generation: 0,
     speed: DEFAULT_SPEED,
     lastInitPattern: 'single',
+    randomOptions: { ...DEFAULT_RANDOM_OPTIONS, seed: randomSeed() },
+    lastInitRandom: null,
+    lastInitRow: null,
+    latticeWidth: DEFAULT_LATTICE_WIDTH,
+    historyStart: 0,
+    scrollback: null,
+    cycle: cycles.status,
+    pauseOnCycle: false,
+    showStatistics: false,
+    blockSize: DEFAULT_BLOCK_SIZE,
     
     // Initial render state
+    viewMode: DEFAULT_VIEW_MODE,
     cellSize: DEFAULT_CELL_SIZE,
     cellMargin: DEFAULT_CELL_MARGIN,
     availableWidth: initialMetrics.availableWidth,
-    maxCells: initialMetrics.maxCells,
+    viewCellSize: initialMetrics.viewCellSize,
     renderWidth: initialMetrics.renderWidth,
     renderMargin: initialMetrics.renderMargin,
     maxVisibleGenerations: initialMetrics.maxVisibleGenerations,
+    rowSize: initialMetrics.rowSize,
     activeRenderer: hasWebGLSupport() ? 'webgl' : 'canvas2d',
+    palette: DEFAULT_PALETTE,
+    colormap: DEFAULT_COLORMAP,
+    viewTransform: IDENTITY_TRANSFORM,
+    brush: DEFAULT_BRUSH,
+    overlay: null,
+    hoveredRow: null,
     
     setCells: (cells) => set({ cells }),
 
-    setRule: (rule) => set({ rule }),
+    setRule: (rule) => set({ rule, ruleToggles: ruleToToggles(rule, getRuleSpec()) }),
+
+    setRadius: (radius) => reshapeRule({ radius }),
+
+    setStates: (states) => reshapeRule({ states }),
 
-    setRuleToggles: (toggles) => set({ ruleToggles: toggles }),
+    setRuleKind: (kind) => reshapeRule({ kind }),
+
+    setBoundary: (boundary) => set({ boundary }),
+
+    setRuleToggles: (toggles) => set({ ruleToggles: toggles, rule: togglesToRule(toggles, get().states) }),
 
     toggleRule: (index) => {
+      const { states } = get();
       const toggles = [...get().ruleToggles];
-      toggles[index] = !toggles[index];
-      set({ ruleToggles: toggles });
+      // Cycle through the output states; for binary rules this is a flip
+      toggles[index] = (toggles[index] + 1) % states;
+      set({ ruleToggles: toggles, rule: togglesToRule(toggles, states) });
     },
 
-    setIsPlaying: (isPlaying) => set({ isPlaying }),
+    setIsPlaying: (isPlaying) => {
+      const worker = getWorker();
+      if (worker) {
+        if (isPlaying) {
+          const state = get();
+          worker.init(
+            engineConfig(state),
+            state.cells,
+            state.generation,
+            state.maxVisibleGenerations + 1,
+            state.showStatistics ? state.blockSize : null
+          );
+          worker.play(state.speed);
+        } else {
+          worker.pause();
+        }
+      }
+      set({ isPlaying });
+    },
 
     incrementGeneration: () => {
       const { cells, previousGenerations, generation, maxVisibleGenerations } = get();
@@ -130,141 +512,313 @@ export const useStore = create<AutomatonState>((set, get) => {
     },
 
     resetGeneration: () => {
-      const { lastInitPattern } = get();
-      get().initializePattern(lastInitPattern);
+      const { lastInitPattern, lastInitRandom, lastInitRow, randomOptions, latticeWidth, states } = get();
+      if (lastInitPattern === 'custom') {
+        // The lattice may have been resized or lost states since
+        const row = resizeRow(lastInitRow ?? new Uint8Array(0), latticeWidth).map((cell) => Math.min(cell, states - 1));
+        get().setInitialRow(row);
+      } else {
+        get().initializePattern(lastInitPattern, lastInitRandom ?? randomOptions);
+      }
       set({ generation: 0, previousGenerations: [] });
     },
 
-    setCellSize: (size) => {
-      const metrics = calculateCanvasMetrics(window.innerWidth, size, get().cellMargin);
-      const newCells = new Array(metrics.maxCells).fill(false);
-      
-      // Copy over existing cells, centered in new array
-      const { cells } = get();
-      const offset = Math.floor((metrics.maxCells - cells.length) / 2);
-      cells.forEach((cell, i) => {
-        if (i + offset >= 0 && i + offset < metrics.maxCells) {
-          newCells[i + offset] = cell;
-        }
-      });
+    setCellSize: (size) => updateView({ cellSize: size }),
 
-      set({
-        cellSize: size,
-        cells: newCells,
-        ...metrics
-      });
-    },
+    setCellMargin: (margin) => updateView({ cellMargin: margin }),
 
-    setCellMargin: (margin) => {
-      const metrics = calculateCanvasMetrics(window.innerWidth, get().cellSize, margin);
-      const newCells = new Array(metrics.maxCells).fill(false);
-      
-      // Copy over existing cells, centered in new array
-      const { cells } = get();
-      const offset = Math.floor((metrics.maxCells - cells.length) / 2);
-      cells.forEach((cell, i) => {
-        if (i + offset >= 0 && i + offset < metrics.maxCells) {
-          newCells[i + offset] = cell;
-        }
-      });
+    setViewMode: (viewMode) => updateView({ viewMode }),
+
+    setLatticeWidth: (width) => {
+      const latticeWidth = clampLatticeWidth(width);
+      const { cells, previousGenerations } = get();
 
+      // Keep the picture continuous by re-centering the history as well
       set({
-        cellMargin: margin,
-        cells: newCells,
-        ...metrics
+        cells: resizeRow(cells, latticeWidth),
+        previousGenerations: previousGenerations.map((row) => resizeRow(row, latticeWidth))
       });
+      updateView({ latticeWidth });
     },
 
     setSpeed: (speed) => set({ speed }),
 
+    setPauseOnCycle: (pauseOnCycle) => set({ pauseOnCycle }),
+
+    setShowStatistics: (showStatistics) => {
+      set({ showStatistics });
+      remeasure();
+    },
+
+    setBlockSize: (blockSize) => {
+      set({ blockSize });
+      remeasure();
+    },
+
     step: () => {
-      const { cells, ruleToggles } = get();
-      const nextCells = new Array(cells.length).fill(false);
-
-      for (let i = 0; i < cells.length; i++) {
-        const left = cells[(i - 1 + cells.length) % cells.length];
-        const center = cells[i];
-        const right = cells[(i + 1) % cells.length];
-        const idx = (left ? 4 : 0) + (center ? 2 : 0) + (right ? 1 : 0);
-        nextCells[i] = ruleToggles[7 - idx];
+      // While the worker runs it owns the lattice
+      if (simulationWorker && get().isPlaying) {
+        simulationWorker.step();
+        return;
       }
 
+      syncEngine();
+      engine.step();
+      const nextCells = engine.getCells();
+      engineCells = nextCells;
+      recordRows([nextCells], engine.generation);
+
       set(state => {
-        const newPreviousGenerations = [...state.previousGenerations];
-        if (newPreviousGenerations.length >= state.maxVisibleGenerations) {
-          newPreviousGenerations.shift();
-        }
+        // Drop the oldest row once the canvas is full
+        const start = Math.max(0, state.previousGenerations.length + 1 - state.maxVisibleGenerations);
+        const newPreviousGenerations = state.previousGenerations.slice(start);
         newPreviousGenerations.push(state.cells);
 
         return {
           cells: nextCells,
           previousGenerations: newPreviousGenerations,
-          generation: state.generation + 1
+          generation: engine.generation,
+          historyStart: history.firstGeneration,
+          scrollback: clampScrollback(state.scrollback)
         };
       });
     },
 
-    initializePattern: (pattern) => {
-      const { maxCells } = get();
-      const newCells = new Array(maxCells).fill(false);
-      
-      switch (pattern) {
-        case 'single':
-          newCells[Math.floor(maxCells / 2)] = true;
-          break;
-        case 'random':
-          for (let i = 0; i < maxCells; i++) {
-            newCells[i] = Math.random() > 0.5;
-          }
-          break;
-        case 'filled':
-          newCells.fill(true);
-          break;
-        case 'alternating':
-          for (let i = 0; i < maxCells; i++) {
-            newCells[i] = i % 2 === 0;
-          }
-          break;
-      }
-      
+    applyRows: (rows, generation, computed) => {
+      if (rows.length === 0) return;
+      const nextCells = rows[rows.length - 1];
+      workerCells = nextCells;
+      recordRows(rows, generation, computed);
+
+      set(state => {
+        const newPreviousGenerations = state.previousGenerations.concat([state.cells], rows.slice(0, -1));
+        const start = Math.max(0, newPreviousGenerations.length - state.maxVisibleGenerations);
+
+        return {
+          cells: nextCells,
+          previousGenerations: newPreviousGenerations.slice(start),
+          generation,
+          historyStart: history.firstGeneration,
+          scrollback: clampScrollback(state.scrollback)
+        };
+      });
+    },
+
+    initializePattern: (pattern, random = get().randomOptions) => {
+      const { latticeWidth, states } = get();
+      const newCells = patternRow(pattern, latticeWidth, states, random);
+
       set({
         cells: newCells,
         lastInitPattern: pattern,
+        lastInitRandom: pattern === 'random' ? random : null,
+        lastInitRow: null,
         generation: 0,
         previousGenerations: []
       });
     },
 
-    setPresetRule: (ruleNumber) => {
-      const toggles = new Array(8).fill(false);
-      for (let i = 0; i < 8; i++) {
-        toggles[7 - i] = ((ruleNumber >> i) & 1) === 1;
+    setInitialRow: (row) => {
+      if (row.length !== get().latticeWidth) {
+        updateView({ latticeWidth: row.length });
       }
-      set({ rule: ruleNumber, ruleToggles: toggles });
+      set({
+        cells: Uint8Array.from(row),
+        lastInitPattern: 'custom',
+        lastInitRandom: null,
+        lastInitRow: Uint8Array.from(row),
+        generation: 0,
+        previousGenerations: []
+      });
     },
 
-    updateCanvasSize: (windowWidth) => {
-      const metrics = calculateCanvasMetrics(windowWidth, get().cellSize, get().cellMargin);
-      const newCells = new Array(metrics.maxCells).fill(false);
-      
-      // Copy over existing cells, centered in new array
-      const { cells } = get();
-      const offset = Math.floor((metrics.maxCells - cells.length) / 2);
-      cells.forEach((cell, i) => {
-        if (i + offset >= 0 && i + offset < metrics.maxCells) {
-          newCells[i + offset] = cell;
-        }
-      });
+    paintCells: (first, values) => {
+      const { cells, generation, states } = get();
+      const next = Uint8Array.from(cells);
+      const start = Math.max(0, first);
+      const end = Math.min(next.length, first + values.length);
+      for (let i = start; i < end; i++) {
+        next[i] = Math.min(values[i - first], states - 1);
+      }
+      // Edits to generation 0 become the initial row that a reset restores;
+      // later ones are defects injected into the running simulation
+      if (generation === 0) {
+        set({ cells: next, lastInitPattern: 'custom', lastInitRandom: null, lastInitRow: Uint8Array.from(next) });
+      } else {
+        set({ cells: next });
+      }
+    },
 
+    setRandomOptions: (changes) => {
+      const randomOptions = { ...get().randomOptions, ...changes };
+      set({ randomOptions });
+      // Show the effect right away when the lattice holds a random row
+      if (get().lastInitPattern === 'random') {
+        get().initializePattern('random', randomOptions);
+      }
+    },
+
+    rerollRandom: () => {
+      const randomOptions = { ...get().randomOptions, seed: randomSeed() };
+      set({ randomOptions });
+      get().initializePattern('random', randomOptions);
+    },
+
+    setPresetRule: (ruleNumber, spec = {}) => {
+      const rule = BigInt(ruleNumber);
+      const nextSpec = { ...getRuleSpec(), ...spec };
       set({
-        cells: newCells,
-        ...metrics
+        rule,
+        radius: nextSpec.radius,
+        states: nextSpec.states,
+        ruleKind: nextSpec.kind,
+        ruleToggles: ruleToToggles(rule, nextSpec)
       });
     },
 
+    updateCanvasSize: (windowWidth) => updateView({}, windowWidth),
+
     setActiveRenderer: (type) => {
       console.log('Store: Setting renderer to', type);
       set({ activeRenderer: type });
     },
+
+    setPaletteColor: (state, color) => {
+      const palette = [...get().palette];
+      palette[state] = color;
+      set({ palette });
+    },
+
+    setColormap: (colormap) => set({ colormap }),
+
+    setBrush: (changes) => set({ brush: { ...get().brush, ...changes } }),
+
+    setOverlay: (overlay) => set({ overlay }),
+
+    setHoveredRow: (hoveredRow) => set({ hoveredRow }),
+
+    panView: (dx, dy) => {
+      const { viewTransform } = get();
+      set({ viewTransform: { ...viewTransform, panX: viewTransform.panX + dx, panY: viewTransform.panY + dy } });
+    },
+
+    zoomView: (factor, x, y) => set({ viewTransform: zoomAt(get().viewTransform, factor, x, y) }),
+
+    resetView: () => set({ viewTransform: IDENTITY_TRANSFORM }),
+
+    scrollTo: (generation) => {
+      const live = generation === null || generation >= get().generation;
+      set({ scrollback: live ? null : clampScrollback(Math.floor(generation)) });
+    },
+
+    getHistoryRows: (first, last) => history.rows(first, last),
+
+    getStatistics: (first, last) => statistics.range(first, last),
+
+    getExperiment: () => {
+      const state = get();
+      const { lastInitPattern, lastInitRandom, lastInitRow } = state;
+      let init: InitialCondition;
+      if (lastInitPattern === 'custom') {
+        init = { pattern: 'custom', row: lastInitRow ?? new Uint8Array(state.latticeWidth) };
+      } else if (lastInitPattern === 'random') {
+        init = { pattern: 'random', random: lastInitRandom ?? state.randomOptions };
+      } else {
+        init = { pattern: lastInitPattern };
+      }
+      return {
+        rule: state.rule,
+        radius: state.radius,
+        states: state.states,
+        ruleKind: state.ruleKind,
+        boundary: state.boundary,
+        latticeWidth: state.latticeWidth,
+        init,
+        speed: state.speed,
+        view: {
+          viewMode: state.viewMode,
+          cellSize: state.cellSize,
+          cellMargin: state.cellMargin,
+          colormap: state.colormap,
+          palette: state.palette,
+          renderer: state.activeRenderer
+        }
+      };
+    },
+
+    loadExperiment: (experiment) => {
+      const { init, view } = experiment;
+      get().setIsPlaying(false);
+      get().setPresetRule(experiment.rule, {
+        radius: experiment.radius,
+        states: experiment.states,
+        kind: experiment.ruleKind
+      });
+      set({
+        boundary: experiment.boundary,
+        speed: experiment.speed,
+        colormap: view.colormap,
+        palette: view.palette,
+        activeRenderer: view.renderer === 'webgl' && !hasWebGLSupport() ? 'canvas2d' : view.renderer,
+        viewTransform: IDENTITY_TRANSFORM
+      });
+      updateView({
+        latticeWidth: experiment.latticeWidth,
+        viewMode: view.viewMode,
+        cellSize: view.cellSize,
+        cellMargin: view.cellMargin
+      });
+
+      if (init.pattern === 'custom') {
+        get().setInitialRow(init.row);
+      } else if (init.pattern === 'random') {
+        set({ randomOptions: init.random });
+        get().initializePattern('random', init.random);
+      } else {
+        get().initializePattern(init.pattern);
+      }
+    },
+
+    getSession: (includeHistory) => {
+      const experiment = get().getExperiment();
+      if (!includeHistory) return { experiment, history: null };
+
+      // Saved packed as held, and only the newest rows that fit
+      const { historyStart, generation } = get();
+      const rowBytes = 4 * packedWords(history.width, bitsPerCell(history.states));
+      const rowCount = Math.max(1, Math.floor(MAX_SESSION_HISTORY_BYTES / rowBytes));
+      const saved = history.packedRows(Math.max(historyStart, generation + 1 - rowCount), generation + 1);
+      return { experiment, history: saved.rowCount > 0 ? saved : null };
+    },
+
+    loadSession: ({ experiment, history: saved }) => {
+      get().loadExperiment(experiment);
+      if (!saved) return;
+
+      // Carry on from the last saved generation with the rest as scrollback.
+      // Only the rows in view are unpacked; the others are copied as they are.
+      const { firstGeneration, rowCount, words } = saved;
+      const { latticeWidth: width, states } = experiment;
+      const bits = bitsPerCell(states);
+      const rowWords = packedWords(width, bits);
+      const generation = firstGeneration + rowCount - 1;
+      const shown = Math.min(rowCount, get().maxVisibleGenerations + 1);
+      const rows = Array.from({ length: shown }, (_, i) =>
+        unpackCells(words, width, bits, (rowCount - shown + i) * rowWords)
+      );
+      history.clear();
+      statistics.clear();
+      if (rowCount > shown) {
+        history.pushPacked(words, rowCount - shown, generation - shown, width, states);
+      }
+      recordRows(rows, generation);
+      set({
+        cells: rows[rows.length - 1],
+        previousGenerations: rows.slice(-get().maxVisibleGenerations - 1, -1),
+        generation,
+        historyStart: history.firstGeneration,
+        scrollback: null
+      });
+    },
   };
 });
@@ -0,0 +1,15 @@
+/**
+ * Frames for an animated export, shared by the GIF and APNG encoders
+ */
+export interface AnimationOptions {
+  width: number;
+  height: number;
+  // #rrggbb colors, indexed by the pixel values of each frame
+  palette: string[];
+  frameCount: number;
+  // Palette index of every pixel of frame `index`, row by row
+  frame: (index: number) => Uint8Array;
+  fps: number;
+  // Times to play the animation; 0 repeats forever
+  loops: number;
+}
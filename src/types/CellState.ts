@@ -1,8 +1,28 @@
+import { RuleKind } from '../utils/rules';
+import { BoundaryCondition } from '../utils/boundary';
+import { Colormap } from '../utils/colormap';
+import type { ViewTransform } from '../renderers/geometry';
+
+/**
+ * Zoomed-out rendering, where a pixel shows the average density of the
+ * cells and generations it covers
+ */
+export interface DensityView {
+  // Pixel height of one generation, independent of the cell width
+  rowSize: number;
+  colormap: Colormap;
+}
+
 export interface CellState {
-  cells: boolean[];
-  previousGenerations: boolean[][];
+  cells: Uint8Array;
+  previousGenerations: Uint8Array[];
   generation: number;
-  rule: number;
+  rule: bigint;
+  radius: number;
+  states: number;
+  ruleKind: RuleKind;
+  boundary: BoundaryCondition;
+  palette: string[];
   viewport: {
     width: number;
     height: number;
@@ -10,5 +30,9 @@ export interface CellState {
     cellMargin: number;
     renderMargin: number;
     maxVisibleGenerations: number;
+    // Set when rendering densities instead of individual cells
+    density: DensityView | null;
+    // Pan and zoom on top of the layout above
+    transform: ViewTransform;
   };
 }
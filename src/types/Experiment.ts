@@ -0,0 +1,39 @@
+import { RuleKind } from '../utils/rules';
+import { BoundaryCondition } from '../utils/boundary';
+import { RandomOptions } from '../utils/random';
+import { Colormap } from '../utils/colormap';
+import { ViewMode } from '../renderers/geometry';
+import { RendererType } from '../renderers/RendererFactory';
+
+export type InitPattern = 'single' | 'random' | 'filled' | 'empty' | 'alternating';
+
+/**
+ * How generation 0 was made: a named pattern, a seeded random row, or an
+ * explicit row for anything else (painted, typed or imported)
+ */
+export type InitialCondition =
+  | { pattern: Exclude<InitPattern, 'random'> }
+  | { pattern: 'random'; random: RandomOptions }
+  | { pattern: 'custom'; row: Uint8Array };
+
+/**
+ * Everything needed to reproduce a run and the way it is shown
+ */
+export interface Experiment {
+  rule: bigint;
+  radius: number;
+  states: number;
+  ruleKind: RuleKind;
+  boundary: BoundaryCondition;
+  latticeWidth: number;
+  init: InitialCondition;
+  speed: number;
+  view: {
+    viewMode: ViewMode;
+    cellSize: number;
+    cellMargin: number;
+    colormap: Colormap;
+    palette: string[];
+    renderer: RendererType;
+  };
+}
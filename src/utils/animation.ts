@@ -0,0 +1,89 @@
+import { CellState } from '../types/CellState';
+import { IDENTITY_TRANSFORM } from '../renderers/geometry';
+import { rasterize } from '../renderers/rasterize';
+
+/**
+ * Frames of the scrolling spacetime view for animated exports. Frame i
+ * shows generation first + i * step at the bottom with the generations
+ * before it above, exactly as the canvas would with the same cell size,
+ * margin and number of visible rows.
+ */
+
+export interface AnimationRegion {
+  firstGeneration: number;
+  lastGeneration: number;
+  // Generations advanced per frame
+  step: number;
+  // Cells [firstCell, lastCell] of each row
+  firstCell: number;
+  lastCell: number;
+  // Generations visible in each frame, the newest included
+  visibleRows: number;
+  cellSize: number;
+  cellMargin: number;
+}
+
+export interface AnimationFrames {
+  width: number;
+  height: number;
+  frameCount: number;
+  frame: (index: number) => Uint8Array;
+}
+
+/**
+ * `getRow` returns the full row of a generation, or null when it is not
+ * held; `base` supplies the rule and palette fields of each snapshot.
+ */
+export function animationFrames(
+  region: AnimationRegion,
+  getRow: (generation: number) => Uint8Array | null,
+  base: Omit<CellState, 'cells' | 'previousGenerations' | 'generation' | 'viewport'>
+): AnimationFrames {
+  const cellCount = region.lastCell - region.firstCell + 1;
+  const pitch = region.cellSize + region.cellMargin;
+  const viewport: CellState['viewport'] = {
+    width: cellCount * pitch,
+    height: region.visibleRows * pitch,
+    cellSize: region.cellSize,
+    cellMargin: region.cellMargin,
+    renderMargin: 0,
+    maxVisibleGenerations: region.visibleRows - 1,
+    density: null,
+    transform: IDENTITY_TRANSFORM,
+  };
+
+  // Consecutive frames share most of their rows
+  const cache = new Map<number, Uint8Array | null>();
+  const croppedRow = (generation: number) => {
+    if (!cache.has(generation)) {
+      cache.set(generation, getRow(generation)?.subarray(region.firstCell, region.lastCell + 1) ?? null);
+    }
+    return cache.get(generation)!;
+  };
+
+  return {
+    width: viewport.width,
+    height: viewport.height,
+    frameCount: Math.floor((region.lastGeneration - region.firstGeneration) / region.step) + 1,
+    frame: (index) => {
+      const generation = region.firstGeneration + index * region.step;
+      const oldest = generation - region.visibleRows + 1;
+      for (const cached of cache.keys()) {
+        if (cached < oldest) cache.delete(cached);
+      }
+
+      const rows: Uint8Array[] = [];
+      for (let g = oldest; g <= generation; g++) {
+        const row = croppedRow(g);
+        if (row) rows.push(row);
+      }
+      return rasterize({
+        ...base,
+        cells: rows.pop() ?? new Uint8Array(cellCount),
+        previousGenerations: rows,
+        generation,
+        viewport,
+      });
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { BasinGraph } from '../engine/basins';
+
+/**
+ * Radial layout of one basin of attraction, in the style of DDLab: the
+ * attractor cycle sits on an inner circle (or at the center for a fixed
+ * point) and the transient trees fan out from it, one ring per step away
+ * from the attractor. Every subtree gets an angle in proportion to its
+ * number of leaves, so the leaves, the Gardens of Eden, end up evenly
+ * spaced around the outside.
+ */
+
+export interface BasinLayout {
+  // States in the basin
+  nodes: Uint32Array;
+  // Positions within the unit circle
+  x: Float32Array;
+  y: Float32Array;
+  // Index into `nodes` of each node's successor
+  next: Int32Array;
+  // 1 for states with no predecessor
+  gardenOfEden: Uint8Array;
+  // 1 for states on the attractor cycle
+  onCycle: Uint8Array;
+}
+
+// Radius of the attractor cycle, leaving the rest for the trees
+const CYCLE_RADIUS = 0.25;
+
+export function layoutBasin(graph: BasinGraph, index: number): BasinLayout {
+  const { successor, basin, depth } = graph;
+  const { attractor, size, maxTransient } = graph.basins[index];
+
+  // Number the basin's states, attractor first in cycle order
+  const local = new Int32Array(successor.length).fill(-1);
+  const nodes = new Uint32Array(size);
+  let count = 0;
+  for (const state of attractor) {
+    local[state] = count;
+    nodes[count++] = state;
+  }
+  for (let state = 0; state < successor.length; state++) {
+    if (basin[state] === index && local[state] < 0) {
+      local[state] = count;
+      nodes[count++] = state;
+    }
+  }
+
+  const next = new Int32Array(size);
+  const childCount = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    next[i] = local[successor[nodes[i]]];
+    if (i >= attractor.length) childCount[next[i]]++;
+  }
+  // Cycle states always have their predecessor on the cycle
+  const gardenOfEden = new Uint8Array(size);
+  for (let i = attractor.length; i < size; i++) {
+    if (childCount[i] === 0) gardenOfEden[i] = 1;
+  }
+  const onCycle = new Uint8Array(size);
+  onCycle.fill(1, 0, attractor.length);
+
+  // Children of every node, packed by parent
+  const childStart = new Uint32Array(size + 1);
+  for (let i = 0; i < size; i++) childStart[i + 1] = childStart[i] + childCount[i];
+  const children = new Uint32Array(size);
+  const fill = childStart.slice(0, size);
+  for (let i = attractor.length; i < size; i++) children[fill[next[i]]++] = i;
+
+  // Transient states by distance from the attractor
+  const byDepth: number[][] = Array.from({ length: maxTransient + 1 }, () => []);
+  for (let i = attractor.length; i < size; i++) byDepth[depth[nodes[i]]].push(i);
+
+  // Leaves under every node, counted from the outside in
+  const weight = new Float64Array(size);
+  for (let d = maxTransient; d >= 1; d--) {
+    for (const i of byDepth[d]) {
+      weight[i] = Math.max(1, weight[i]);
+      weight[next[i]] += weight[i];
+    }
+  }
+  for (let i = 0; i < attractor.length; i++) weight[i] = Math.max(1, weight[i]);
+
+  // Angular range of every node; children split their parent's range
+  const arcStart = new Float64Array(size);
+  const arcSpan = new Float64Array(size);
+  const x = new Float32Array(size);
+  const y = new Float32Array(size);
+  const cycleRadius = attractor.length === 1 ? 0 : CYCLE_RADIUS;
+  const ringStep = maxTransient > 0 ? (1 - cycleRadius) / maxTransient : 0;
+
+  const place = (i: number, radius: number) => {
+    const angle = arcStart[i] + arcSpan[i] / 2;
+    x[i] = radius * Math.cos(angle);
+    y[i] = radius * Math.sin(angle);
+  };
+  let total = 0;
+  for (let i = 0; i < attractor.length; i++) total += weight[i];
+  let angle = -Math.PI / 2;
+  for (let i = 0; i < attractor.length; i++) {
+    arcStart[i] = angle;
+    arcSpan[i] = (2 * Math.PI * weight[i]) / total;
+    angle += arcSpan[i];
+    place(i, cycleRadius);
+  }
+
+  const splitArc = (parent: number) => {
+    let childWeight = 0;
+    for (let c = childStart[parent]; c < childStart[parent + 1]; c++) childWeight += weight[children[c]];
+    let cursor = arcStart[parent];
+    for (let c = childStart[parent]; c < childStart[parent + 1]; c++) {
+      const child = children[c];
+      arcStart[child] = cursor;
+      arcSpan[child] = (arcSpan[parent] * weight[child]) / childWeight;
+      cursor += arcSpan[child];
+    }
+  };
+  for (let i = 0; i < attractor.length; i++) splitArc(i);
+  for (let d = 1; d <= maxTransient; d++) {
+    for (const i of byDepth[d]) {
+      place(i, cycleRadius + d * ringStep);
+      splitArc(i);
+    }
+  }
+
+  return { nodes, x, y, next, gardenOfEden, onCycle };
+}
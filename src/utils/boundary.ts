@@ -0,0 +1,99 @@
+/**
+ * Boundary conditions for finite lattices.
+ *
+ * - periodic:   the lattice is a ring
+ * - fixed:      cells beyond the left/right edge hold constant values
+ * - reflective: the lattice is mirrored about its edge cells (s[-i] = s[i])
+ * - open:       the edge cells extend outward (s[-i] = s[0])
+ *
+ * The CPU step and every WebGL renderer must agree on these, so the GLSL
+ * version lives here next to the TypeScript one.
+ */
+
+export type BoundaryType = 'periodic' | 'fixed' | 'reflective' | 'open';
+
+export interface BoundaryCondition {
+  type: BoundaryType;
+  // Edge values, only used by fixed boundaries
+  left: number;
+  right: number;
+}
+
+export const DEFAULT_BOUNDARY: BoundaryCondition = { type: 'periodic', left: 0, right: 0 };
+
+// Integer ids passed to shaders as u_boundary
+export const BOUNDARY_TYPE_IDS: Record<BoundaryType, number> = {
+  periodic: 0,
+  fixed: 1,
+  reflective: 2,
+  open: 3,
+};
+
+/**
+ * Map a possibly out-of-range index onto the lattice.
+ * Returns -1 for a fixed left edge and -2 for a fixed right edge.
+ */
+export function boundaryIndex(i: number, width: number, type: BoundaryType): number {
+  if (i >= 0 && i < width) return i;
+
+  switch (type) {
+    case 'periodic':
+      return ((i % width) + width) % width;
+    case 'fixed':
+      return i < 0 ? -1 : -2;
+    case 'reflective': {
+      if (width === 1) return 0;
+      const period = 2 * width - 2;
+      const j = ((i % period) + period) % period;
+      return j < width ? j : period - j;
+    }
+    case 'open':
+      return i < 0 ? 0 : width - 1;
+  }
+}
+
+/**
+ * Value of the cell at index i, which may lie beyond either edge
+ */
+export function cellAt(cells: ArrayLike<number>, i: number, boundary: BoundaryCondition): number {
+  const index = boundaryIndex(i, cells.length, boundary.type);
+  if (index === -1) return boundary.left;
+  if (index === -2) return boundary.right;
+  return cells[index];
+}
+
+/**
+ * GLSL counterpart of boundaryIndex, for shaders that declare the
+ * u_boundary, u_boundaryLeft and u_boundaryRight uniforms.
+ */
+export const BOUNDARY_GLSL = `
+uniform int u_boundary;
+uniform int u_boundaryLeft;
+uniform int u_boundaryRight;
+
+int boundaryIndex(int x, int width) {
+  if (x >= 0 && x < width) return x;
+  if (u_boundary == ${BOUNDARY_TYPE_IDS.periodic}) return ((x % width) + width) % width;
+  if (u_boundary == ${BOUNDARY_TYPE_IDS.fixed}) return x < 0 ? -1 : -2;
+  if (u_boundary == ${BOUNDARY_TYPE_IDS.reflective}) {
+    if (width == 1) return 0;
+    int period = 2 * width - 2;
+    int j = ((x % period) + period) % period;
+    return j < width ? j : period - j;
+  }
+  return x < 0 ? 0 : width - 1;
+}
+`;
+
+/**
+ * Set the uniforms declared by BOUNDARY_GLSL on the currently bound program
+ */
+export function setBoundaryUniforms(
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  boundary: BoundaryCondition
+): void {
+  gl.uniform1i(gl.getUniformLocation(program, 'u_boundary'), BOUNDARY_TYPE_IDS[boundary.type]);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_boundaryLeft'), boundary.left);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_boundaryRight'), boundary.right);
+}
@@ -0,0 +1,72 @@
+/**
+ * Painting cells on the current generation. A stroke repeats its pattern
+ * from a fixed anchor, so dragging across the row tiles the pattern and
+ * painting over the same cells twice gives the same result.
+ */
+
+export type BrushMode = 'toggle' | 'pattern';
+
+export interface Brush {
+  mode: BrushMode;
+  // Cells stamped by the pattern brush, centered on the pointer
+  pattern: Uint8Array;
+}
+
+export const MAX_BRUSH_LENGTH = 64;
+
+export const DEFAULT_BRUSH: Brush = {
+  mode: 'toggle',
+  pattern: Uint8Array.of(1, 0, 1),
+};
+
+export interface BrushStroke {
+  // Cell where pattern[0] lands
+  anchor: number;
+  pattern: Uint8Array;
+}
+
+/**
+ * Parse a brush pattern of state digits such as "1101"; null if it is
+ * empty, too long or uses a state the rule does not have
+ */
+export function parseBrushPattern(text: string, states: number): Uint8Array | null {
+  const digits = text.replace(/\s+/g, '');
+  if (digits.length === 0 || digits.length > MAX_BRUSH_LENGTH) return null;
+  const pattern = new Uint8Array(digits.length);
+  for (let i = 0; i < digits.length; i++) {
+    const state = digits.charCodeAt(i) - 48;
+    if (state < 0 || state >= states) return null;
+    pattern[i] = state;
+  }
+  return pattern;
+}
+
+export function formatBrushPattern(pattern: Uint8Array): string {
+  return Array.from(pattern).join('');
+}
+
+/**
+ * Begin a stroke at `cell`. Toggling cycles the cell under the pointer to
+ * its next state and paints that state for the rest of the stroke.
+ */
+export function startStroke(brush: Brush, cells: Uint8Array, cell: number, states: number): BrushStroke {
+  if (brush.mode === 'toggle') {
+    return { anchor: cell, pattern: Uint8Array.of(((cells[cell] ?? 0) + 1) % states) };
+  }
+  const pattern = brush.pattern.map((state) => Math.min(state, states - 1));
+  return { anchor: cell - Math.floor(pattern.length / 2), pattern };
+}
+
+/**
+ * Cells painted by the stroke over [first, last): the first cell and the
+ * values to write from it
+ */
+export function strokeCells(stroke: BrushStroke, first: number, last: number): { first: number; values: Uint8Array } {
+  const { anchor, pattern } = stroke;
+  const values = new Uint8Array(Math.max(0, last - first));
+  for (let i = 0; i < values.length; i++) {
+    const offset = (first + i - anchor) % pattern.length;
+    values[i] = pattern[offset < 0 ? offset + pattern.length : offset];
+  }
+  return { first, values };
+}
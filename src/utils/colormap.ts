@@ -0,0 +1,61 @@
+/**
+ * Colormaps for density rendering. Each maps a density in [0, 1] to a color
+ * through a 256 entry lookup table interpolated from a few control points.
+ */
+
+export type Colormap = 'grayscale' | 'viridis' | 'inferno';
+
+export const COLORMAPS: Colormap[] = ['grayscale', 'viridis', 'inferno'];
+
+export const DEFAULT_COLORMAP: Colormap = 'grayscale';
+
+export const COLORMAP_SIZE = 256;
+
+const CONTROL_POINTS: Record<Colormap, [number, number, number][]> = {
+  grayscale: [
+    [0, 0, 0],
+    [255, 255, 255],
+  ],
+  viridis: [
+    [68, 1, 84],
+    [59, 82, 139],
+    [33, 145, 140],
+    [94, 201, 98],
+    [253, 231, 37],
+  ],
+  inferno: [
+    [0, 0, 4],
+    [87, 16, 110],
+    [188, 55, 84],
+    [249, 142, 9],
+    [252, 255, 164],
+  ],
+};
+
+const tableCache = new Map<Colormap, Uint8Array>();
+
+/**
+ * RGB lookup table, COLORMAP_SIZE entries of three bytes
+ */
+export function colormapTable(colormap: Colormap): Uint8Array {
+  const cached = tableCache.get(colormap);
+  if (cached) return cached;
+
+  const points = CONTROL_POINTS[colormap];
+  const segments = points.length - 1;
+  const table = new Uint8Array(COLORMAP_SIZE * 3);
+
+  for (let i = 0; i < COLORMAP_SIZE; i++) {
+    const t = (i / (COLORMAP_SIZE - 1)) * segments;
+    const segment = Math.min(Math.floor(t), segments - 1);
+    const f = t - segment;
+    const from = points[segment];
+    const to = points[segment + 1];
+    for (let c = 0; c < 3; c++) {
+      table[i * 3 + c] = Math.round(from[c] + (to[c] - from[c]) * f);
+    }
+  }
+
+  tableCache.set(colormap, table);
+  return table;
+}
@@ -0,0 +1,59 @@
+import { BoundaryCondition, cellAt } from './boundary';
+import { RuleKind } from './rules';
+
+/**
+ * The de Bruijn diagram of a rule. Nodes are the k^(2r) windows of 2r
+ * cells and every neighborhood of 2r+1 cells is an edge from the window on
+ * its left to the window on its right, labelled with the rule's output. A
+ * row traces a walk through the diagram, one edge per cell, and its image
+ * is the sequence of labels along the walk.
+ *
+ * Windows and neighborhoods are numbered as base-k digits with the
+ * leftmost cell most significant, the same as rule table patterns, so
+ * edge e runs from node floor(e / k) to node e mod k^(2r).
+ */
+
+export interface DeBruijnEdge {
+  from: number;
+  to: number;
+  output: number;
+  // Index into the rule toggles that sets `output`
+  toggle: number;
+}
+
+export function windowCount(radius: number, states: number): number {
+  return Math.pow(states, 2 * radius);
+}
+
+export function deBruijnEdges(toggles: number[], radius: number, states: number, kind: RuleKind): DeBruijnEdge[] {
+  const nodeCount = windowCount(radius, states);
+  const span = 2 * radius + 1;
+  const edges: DeBruijnEdge[] = [];
+  for (let edge = 0; edge < nodeCount * states; edge++) {
+    let pattern = edge;
+    if (kind === 'totalistic') {
+      pattern = 0;
+      for (let i = 0, rest = edge; i < span; i++, rest = Math.floor(rest / states)) pattern += rest % states;
+    }
+    const toggle = toggles.length - 1 - pattern;
+    edges.push({ from: Math.floor(edge / states), to: edge % nodeCount, output: toggles[toggle], toggle });
+  }
+  return edges;
+}
+
+/**
+ * How many times the walk traced by `row` uses every edge. The boundary
+ * supplies the cells beyond either end.
+ */
+export function rowWalk(row: Uint8Array, radius: number, states: number, boundary: BoundaryCondition): Uint32Array {
+  const nodeCount = windowCount(radius, states);
+  const visits = new Uint32Array(nodeCount * states);
+  // Slide the neighborhood along, dropping its leftmost digit each step
+  let edge = 0;
+  for (let i = -radius; i < radius; i++) edge = edge * states + cellAt(row, i, boundary);
+  for (let i = 0; i < row.length; i++) {
+    edge = (edge % nodeCount) * states + cellAt(row, i + radius, boundary);
+    visits[edge]++;
+  }
+  return visits;
+}
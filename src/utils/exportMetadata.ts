@@ -0,0 +1,45 @@
+import { Experiment } from '../types/Experiment';
+import { formatRule } from './rules';
+import { encodeExperiment } from './permalink';
+
+/**
+ * Human-readable description of an exported run, as keyword → value pairs
+ * for image metadata. `Experiment` holds the permalink parameters, which
+ * are enough to reproduce the run.
+ */
+export function describeExperiment(experiment: Experiment, firstGeneration: number, lastGeneration: number): Record<string, string> {
+  const { init, boundary } = experiment;
+  const spec = { radius: experiment.radius, states: experiment.states, kind: experiment.ruleKind };
+  const metadata: Record<string, string> = {
+    Software: '1D Cellular Automata Explorer',
+    Rule: `${formatRule(experiment.rule, spec)} (${experiment.ruleKind}, r=${experiment.radius}, k=${experiment.states})`,
+    Boundary: boundary.type === 'fixed' ? `fixed ${boundary.left}|${boundary.right}` : boundary.type,
+    Width: String(experiment.latticeWidth),
+    Initial: init.pattern,
+    Generations: `${firstGeneration}-${lastGeneration}`,
+  };
+  if (init.pattern === 'random') {
+    metadata.Seed = String(init.random.seed);
+    metadata.Density = String(init.random.density);
+  }
+  metadata.Experiment = encodeExperiment(experiment);
+  return metadata;
+}
+
+/**
+ * File name for an export of the given generations, e.g. rule-110_0-999.png
+ */
+export function exportFileName(experiment: Experiment, firstGeneration: number, lastGeneration: number, extension: string): string {
+  const spec = { radius: experiment.radius, states: experiment.states, kind: experiment.ruleKind };
+  const rule = formatRule(experiment.rule, spec).replace(/[^0-9a-zA-Z]+/g, '');
+  return `rule-${rule}_${firstGeneration}-${lastGeneration}.${extension}`;
+}
+
+/**
+ * One-line figure caption, e.g. "Rule 110 (r=1, k=2), generations 0–99"
+ */
+export function experimentCaption(experiment: Experiment, firstGeneration: number, lastGeneration: number): string {
+  const spec = { radius: experiment.radius, states: experiment.states, kind: experiment.ruleKind };
+  const kind = experiment.ruleKind === 'totalistic' ? 'totalistic, ' : '';
+  return `Rule ${formatRule(experiment.rule, spec)} (${kind}r=${experiment.radius}, k=${experiment.states}), generations ${firstGeneration}–${lastGeneration}`;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGif } from './gif';
+
+interface Gif {
+  width: number;
+  height: number;
+  colors: number[][];
+  loops: number | null;
+  frames: { delay: number; pixels: Uint8Array }[];
+}
+
+// Just enough of a GIF decoder to read back what the encoder writes
+function readGif(bytes: Uint8Array): Gif {
+  let offset = 0;
+  const byte = () => bytes[offset++];
+  const uint16 = () => byte() | (byte() << 8);
+  const subBlocks = () => {
+    const data: number[] = [];
+    for (let size = byte(); size > 0; size = byte()) {
+      data.push(...bytes.subarray(offset, offset + size));
+      offset += size;
+    }
+    return Uint8Array.from(data);
+  };
+
+  expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe('GIF89a');
+  offset = 6;
+  const width = uint16();
+  const height = uint16();
+  const flags = byte();
+  offset += 2;
+  const colors = Array.from({ length: 2 << (flags & 7) }, () => [byte(), byte(), byte()]);
+
+  const gif: Gif = { width, height, colors, loops: null, frames: [] };
+  let delay = 0;
+  for (;;) {
+    const introducer = byte();
+    if (introducer === 0x3b) break;
+    if (introducer === 0x21) {
+      const label = byte();
+      const data = subBlocks();
+      if (label === 0xf9) delay = data[1] | (data[2] << 8);
+      if (label === 0xff) gif.loops = data[12] | (data[13] << 8);
+      continue;
+    }
+    expect(introducer).toBe(0x2c);
+    offset += 8;
+    expect(byte()).toBe(0);
+    const minCodeSize = byte();
+    gif.frames.push({ delay, pixels: lzwDecode(subBlocks(), minCodeSize, width * height) });
+  }
+  expect(offset).toBe(bytes.length);
+  return gif;
+}
+
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = 0;
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  const pixels: number[] = [];
+  let previous: number[] | null = null;
+  for (let bit = 0; bit + codeSize <= data.length * 8; ) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) break;
+    let entry: number[];
+    if (code < table.length) entry = table[code];
+    else if (previous && code === table.length) entry = [...previous, previous[0]];
+    else throw new Error(`Bad code ${code}`);
+    pixels.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+  expect(pixels.length).toBe(pixelCount);
+  return Uint8Array.from(pixels);
+}
+
+describe('encodeGif', () => {
+  it('stores frames losslessly with the palette, delay and loop count', async () => {
+    const [width, height, frameCount] = [9, 5, 3];
+    const frames = Array.from({ length: frameCount }, (_, f) =>
+      Uint8Array.from({ length: width * height }, (_, i) => (i * (f + 1) + (i >> 2)) % 3)
+    );
+    const blob = await encodeGif({
+      width,
+      height,
+      palette: ['#000000', '#ff8000', '#ffffff'],
+      frameCount,
+      frame: (i) => frames[i],
+      fps: 20,
+      loops: 3,
+    });
+    const gif = readGif(new Uint8Array(await blob.arrayBuffer()));
+    expect([gif.width, gif.height]).toEqual([width, height]);
+    expect(gif.colors.slice(0, 3)).toEqual([
+      [0, 0, 0],
+      [255, 128, 0],
+      [255, 255, 255],
+    ]);
+    expect(gif.loops).toBe(2);
+    expect(gif.frames.map((frame) => frame.delay)).toEqual([5, 5, 5]);
+    expect(gif.frames.map((frame) => frame.pixels)).toEqual(frames);
+  });
+
+  it('starts the code table over once it is full', async () => {
+    // Noise fills the 4096 code table many times over
+    let state = 1;
+    const pixels = Uint8Array.from({ length: 200 * 200 }, () => {
+      state = (state * 1103515245 + 12345) & 0x7fffffff;
+      return (state >> 16) % 16;
+    });
+    const palette = Array.from({ length: 16 }, (_, i) => `#${i.toString(16).repeat(6)}`);
+    const blob = await encodeGif({ width: 200, height: 200, palette, frameCount: 1, frame: () => pixels, fps: 10, loops: 1 });
+    const gif = readGif(new Uint8Array(await blob.arrayBuffer()));
+    expect(gif.loops).toBeNull();
+    expect(gif.frames[0].pixels).toEqual(pixels);
+  });
+});
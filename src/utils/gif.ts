@@ -0,0 +1,159 @@
+import { parseHexColor } from './palette';
+import { AnimationOptions } from '../types/Animation';
+
+/**
+ * Animated GIF encoder for palette frames (GIF89a, LZW compressed).
+ */
+
+const MAX_CODE_SIZE = 12;
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.buffer.length) this.flush();
+    this.buffer[this.length++] = value;
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  uint16(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  flush(): void {
+    this.chunks.push(this.buffer.slice(0, this.length));
+    this.length = 0;
+  }
+
+  blob(type: string): Blob {
+    this.flush();
+    return new Blob(this.chunks, { type });
+  }
+}
+
+/**
+ * LZW-compress `pixels` into `out` as GIF image data sub-blocks
+ */
+function writeLzw(out: ByteWriter, pixels: Uint8Array, minCodeSize: number): void {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  // Codes for (prefix code, next pixel) pairs, keyed prefix * 256 + pixel
+  const table = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xff;
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (blockLength === 255) {
+        out.byte(255);
+        out.bytes(block);
+        blockLength = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = pixels[0];
+  for (let i = 1; i < pixels.length; i++) {
+    const pixel = pixels[i];
+    const key = prefix * 256 + pixel;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 1 << MAX_CODE_SIZE) {
+      // Table full: start over rather than keep coding with a stale table
+      emit(clearCode);
+      table.clear();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      table.set(key, nextCode);
+      // The decoder grows its code size one code later than the encoder adds it
+      if (nextCode === 1 << codeSize) codeSize++;
+      nextCode++;
+    }
+    prefix = pixel;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bitBuffer & 0xff;
+  }
+  if (blockLength > 0) {
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+  }
+  out.byte(0);
+}
+
+export async function encodeGif(options: AnimationOptions): Promise<Blob> {
+  const { width, height, palette, frameCount } = options;
+  // The color table holds a power of two entries, at least four
+  const tableBits = Math.max(2, Math.ceil(Math.log2(palette.length)));
+  const out = new ByteWriter();
+
+  out.ascii('GIF89a');
+  out.uint16(width);
+  out.uint16(height);
+  out.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1));
+  out.byte(0); // background color index
+  out.byte(0); // square pixels
+  for (let i = 0; i < 1 << tableBits; i++) {
+    out.bytes(parseHexColor(palette[i] ?? palette[0]).map((component) => Math.round(component * 255)));
+  }
+
+  if (options.loops !== 1) {
+    // NETSCAPE2.0 application extension; loops beyond the first play
+    out.bytes([0x21, 0xff, 11]);
+    out.ascii('NETSCAPE2.0');
+    out.bytes([3, 1]);
+    out.uint16(options.loops === 0 ? 0 : options.loops - 1);
+    out.byte(0);
+  }
+
+  // Delays are in hundredths of a second
+  const delay = Math.max(1, Math.round(100 / options.fps));
+  for (let index = 0; index < frameCount; index++) {
+    out.bytes([0x21, 0xf9, 4, 0]);
+    out.uint16(delay);
+    out.bytes([0, 0]);
+
+    out.byte(0x2c);
+    out.uint16(0);
+    out.uint16(0);
+    out.uint16(width);
+    out.uint16(height);
+    out.byte(0);
+    writeLzw(out, options.frame(index), tableBits);
+
+    // Frames can take a while; let the page breathe between them
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  out.byte(0x3b);
+  return out.blob('image/gif');
+}
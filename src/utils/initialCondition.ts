@@ -0,0 +1,41 @@
+import { InitPattern, InitialCondition } from '../types/Experiment';
+import { DEFAULT_RANDOM_OPTIONS, RandomOptions, randomRow } from './random';
+import { resizeRow } from './lattice';
+
+/**
+ * Generation 0 rows for the initial conditions, for the stores and for
+ * anything that replays a run from its start.
+ */
+
+export function patternRow(pattern: InitPattern, width: number, states: number, random: RandomOptions): Uint8Array {
+  let cells = new Uint8Array(width);
+
+  switch (pattern) {
+    case 'single':
+      cells[Math.floor(width / 2)] = 1;
+      break;
+    case 'random':
+      cells = randomRow(width, states, random);
+      break;
+    case 'filled':
+      cells.fill(1);
+      break;
+    case 'alternating':
+      for (let i = 0; i < width; i++) {
+        cells[i] = i % 2 === 0 ? 1 : 0;
+      }
+      break;
+  }
+  return cells;
+}
+
+/**
+ * The row `init` starts from on a lattice of `width` cells. Explicit rows
+ * are re-centered and clamped to the state count.
+ */
+export function initialRow(init: InitialCondition, width: number, states: number): Uint8Array {
+  if (init.pattern === 'custom') {
+    return resizeRow(init.row, width).map((cell) => Math.min(cell, states - 1));
+  }
+  return patternRow(init.pattern, width, states, init.pattern === 'random' ? init.random : DEFAULT_RANDOM_OPTIONS);
+}
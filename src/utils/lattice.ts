@@ -0,0 +1,26 @@
+/**
+ * Lattice size limits and helpers. The lattice width is a simulation
+ * parameter of its own and never follows the window size.
+ */
+
+export const MIN_LATTICE_WIDTH = 8;
+export const MAX_LATTICE_WIDTH = 1 << 24;
+export const DEFAULT_LATTICE_WIDTH = 400;
+
+export function clampLatticeWidth(width: number): number {
+  return Math.min(MAX_LATTICE_WIDTH, Math.max(MIN_LATTICE_WIDTH, Math.floor(width)));
+}
+
+/**
+ * Copy a row into a new width, keeping it centered
+ */
+export function resizeRow(cells: Uint8Array, width: number): Uint8Array {
+  const newCells = new Uint8Array(width);
+  const offset = Math.floor((width - cells.length) / 2);
+  const start = Math.max(0, -offset);
+  const end = Math.min(cells.length, width - offset);
+  if (end > start) {
+    newCells.set(cells.subarray(start, end), start + offset);
+  }
+  return newCells;
+}
@@ -0,0 +1,52 @@
+import { MAX_STATES } from './rules';
+
+/**
+ * Default colors, one per cell state. State 0 doubles as the background.
+ */
+export const DEFAULT_PALETTE: string[] = [
+  '#1a1a1a',
+  '#4a9eff',
+  '#ff6b6b',
+  '#ffd93d',
+  '#6bcb77',
+  '#c77dff',
+  '#ff9f43',
+  '#f1f1f1',
+];
+
+/**
+ * Parse a #rrggbb color into normalized [r, g, b] components
+ */
+export function parseHexColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [
+    ((value >> 16) & 0xff) / 255,
+    ((value >> 8) & 0xff) / 255,
+    (value & 0xff) / 255,
+  ];
+}
+
+/**
+ * Flatten a palette into a vec3 array for shader uniforms, padded to MAX_STATES
+ */
+export function paletteToFloat32(palette: string[]): Float32Array {
+  const data = new Float32Array(MAX_STATES * 3);
+  for (let i = 0; i < MAX_STATES; i++) {
+    const [r, g, b] = parseHexColor(palette[i] ?? DEFAULT_PALETTE[i]);
+    data[i * 3] = r;
+    data[i * 3 + 1] = g;
+    data[i * 3 + 2] = b;
+  }
+  return data;
+}
+
+/**
+ * Ink on paper: state 0 white through the highest state in black, for
+ * exports meant for print
+ */
+export function grayscalePalette(states: number): string[] {
+  return Array.from({ length: states }, (_, state) => {
+    const level = Math.round(255 * (1 - state / (states - 1)));
+    return `#${level.toString(16).padStart(2, '0').repeat(3)}`;
+  });
+}
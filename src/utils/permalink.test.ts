@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Experiment } from '../types/Experiment';
+import { decodeExperiment, encodeExperiment } from './permalink';
+import { DEFAULT_PALETTE } from './palette';
+
+const FALLBACK: Experiment = {
+  rule: 30n,
+  radius: 1,
+  states: 2,
+  ruleKind: 'general',
+  boundary: { type: 'periodic', left: 0, right: 0 },
+  latticeWidth: 400,
+  init: { pattern: 'single' },
+  speed: 10,
+  view: { viewMode: 'fit', cellSize: 4, cellMargin: 0, colormap: 'viridis', palette: DEFAULT_PALETTE, renderer: 'webgl' },
+};
+
+describe('permalink', () => {
+  const experiments: Experiment[] = [
+    FALLBACK,
+    {
+      ...FALLBACK,
+      rule: 1635n,
+      radius: 2,
+      states: 3,
+      ruleKind: 'totalistic',
+      boundary: { type: 'fixed', left: 2, right: 1 },
+      latticeWidth: 37,
+      init: { pattern: 'random', random: { seed: 42, density: 0.25, window: 20, placement: 'fixed' } },
+      view: { ...FALLBACK.view, viewMode: 'density', palette: DEFAULT_PALETTE.map((_, i) => `#0000${i}${i}`), renderer: 'canvas2d' },
+    },
+    {
+      ...FALLBACK,
+      rule: 110n,
+      latticeWidth: 12,
+      boundary: { type: 'reflective', left: 0, right: 0 },
+      init: { pattern: 'custom', row: Uint8Array.from([0, 1, 1, 0, 1, 0, 0, 0, 1, 1, 1, 0]) },
+    },
+  ];
+
+  experiments.forEach((experiment, i) => {
+    it(`round-trips experiment ${i}`, () => {
+      expect(decodeExperiment(`#${encodeExperiment(experiment)}`, FALLBACK)).toEqual(experiment);
+    });
+  });
+
+  it('falls back field by field', () => {
+    const decoded = decodeExperiment('rule=90&r=9&bc=sideways&w=x&init=custom&row=!', FALLBACK);
+    expect(decoded).toEqual({ ...FALLBACK, rule: 90n });
+  });
+
+  it('needs a rule', () => {
+    expect(decodeExperiment('', FALLBACK)).toBeNull();
+    expect(decodeExperiment('rule=256', FALLBACK)).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { Experiment, InitialCondition } from '../types/Experiment';
+import {
+  MAX_RADIUS,
+  MAX_STATES,
+  MIN_RADIUS,
+  MIN_STATES,
+  RuleKind,
+  RuleSpec,
+  parseRule,
+  supportsGeneralRule
+} from './rules';
+import { BOUNDARY_TYPE_IDS, BoundaryCondition, BoundaryType } from './boundary';
+import { DEFAULT_PALETTE } from './palette';
+import { COLORMAPS, Colormap } from './colormap';
+import { MAX_SEED, Placement } from './random';
+import { clampLatticeWidth } from './lattice';
+import { decodeRow, encodeRow } from './rowCodec';
+import { ViewMode } from '../renderers/geometry';
+import { RendererType } from '../renderers/RendererFactory';
+
+/**
+ * Permalinks: an experiment encoded as URL hash parameters, e.g.
+ * `#v=1&rule=110&r=1&k=2&kind=g&bc=periodic&w=400&init=random&seed=42...`
+ *
+ * Decoding is forgiving: a missing or malformed parameter falls back to
+ * the given experiment rather than rejecting the whole link.
+ */
+
+const PERMALINK_VERSION = 1;
+
+const VIEW_MODES: ViewMode[] = ['fit', 'scale', 'crop', 'density'];
+const RENDERERS: RendererType[] = ['webgl', 'canvas2d'];
+const INIT_PATTERNS = ['single', 'filled', 'empty', 'alternating'] as const;
+
+export function encodeExperiment(experiment: Experiment): string {
+  const { boundary, init, view } = experiment;
+  const params = new URLSearchParams();
+
+  params.set('v', String(PERMALINK_VERSION));
+  params.set('rule', experiment.rule.toString());
+  params.set('r', String(experiment.radius));
+  params.set('k', String(experiment.states));
+  params.set('kind', experiment.ruleKind === 'general' ? 'g' : 't');
+  params.set('bc', boundary.type === 'fixed' ? `fixed.${boundary.left}.${boundary.right}` : boundary.type);
+  params.set('w', String(experiment.latticeWidth));
+
+  params.set('init', init.pattern);
+  if (init.pattern === 'random') {
+    const { random } = init;
+    params.set('seed', String(random.seed));
+    params.set('p', String(random.density));
+    if (random.window !== null) params.set('win', String(random.window));
+    if (random.placement === 'fixed') params.set('place', 'fixed');
+  } else if (init.pattern === 'custom') {
+    params.set('row', encodeRow(init.row, experiment.states));
+  }
+
+  params.set('speed', String(experiment.speed));
+  params.set('view', view.viewMode);
+  params.set('cs', String(view.cellSize));
+  params.set('cm', String(view.cellMargin));
+  params.set('cmap', view.colormap);
+  if (view.palette.some((color, i) => color !== DEFAULT_PALETTE[i])) {
+    params.set('pal', view.palette.map((color) => color.replace('#', '')).join('.'));
+  }
+  params.set('renderer', view.renderer);
+
+  return params.toString();
+}
+
+/**
+ * Decode a hash (with or without the leading #); null if it holds no experiment
+ */
+export function decodeExperiment(hash: string, fallback: Experiment): Experiment | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (!params.has('rule')) return null;
+
+  const int = (key: string, min: number, max: number, otherwise: number) => {
+    const value = Number(params.get(key));
+    return params.has(key) && Number.isInteger(value) && value >= min && value <= max ? value : otherwise;
+  };
+  const num = (key: string, min: number, max: number, otherwise: number) => {
+    const value = Number(params.get(key));
+    return params.has(key) && Number.isFinite(value) && value >= min && value <= max ? value : otherwise;
+  };
+  const oneOf = <T extends string>(key: string, options: readonly T[], otherwise: T): T => {
+    const value = params.get(key) as T | null;
+    return value !== null && options.includes(value) ? value : otherwise;
+  };
+
+  const radius = int('r', MIN_RADIUS, MAX_RADIUS, fallback.radius);
+  const states = int('k', MIN_STATES, MAX_STATES, fallback.states);
+  let ruleKind: RuleKind = params.get('kind') === 't' ? 'totalistic' : params.get('kind') === 'g' ? 'general' : fallback.ruleKind;
+  if (!supportsGeneralRule(radius, states)) ruleKind = 'totalistic';
+  const spec: RuleSpec = { radius, states, kind: ruleKind };
+  const rule = parseRule(params.get('rule') ?? '', spec);
+  if (rule === null) return null;
+
+  const latticeWidth = clampLatticeWidth(int('w', 1, Number.MAX_SAFE_INTEGER, fallback.latticeWidth));
+
+  return {
+    rule,
+    radius,
+    states,
+    ruleKind,
+    boundary: decodeBoundary(params.get('bc'), states) ?? fallback.boundary,
+    latticeWidth,
+    init: decodeInit(params, latticeWidth, states, fallback.init),
+    speed: int('speed', 1, 1000, fallback.speed),
+    view: {
+      viewMode: oneOf('view', VIEW_MODES, fallback.view.viewMode),
+      cellSize: int('cs', 1, 20, fallback.view.cellSize),
+      cellMargin: int('cm', 0, 20, fallback.view.cellMargin),
+      colormap: oneOf<Colormap>('cmap', COLORMAPS, fallback.view.colormap),
+      palette: decodePalette(params.get('pal')) ?? fallback.view.palette,
+      renderer: oneOf('renderer', RENDERERS, fallback.view.renderer),
+    },
+  };
+
+  function decodeInit(params: URLSearchParams, width: number, states: number, otherwise: InitialCondition): InitialCondition {
+    const pattern = params.get('init');
+    if (pattern === 'random') {
+      const placement: Placement = params.get('place') === 'fixed' ? 'fixed' : 'bernoulli';
+      return {
+        pattern,
+        random: {
+          seed: int('seed', 0, MAX_SEED, 1),
+          density: num('p', 0, 1, 0.5),
+          window: params.has('win') ? int('win', 0, width, width) : null,
+          placement,
+        },
+      };
+    }
+    if (pattern === 'custom') {
+      const row = decodeRow(params.get('row') ?? '', width, states);
+      return row ? { pattern, row } : otherwise;
+    }
+    const named = INIT_PATTERNS.find((name) => name === pattern);
+    return named ? { pattern: named } : otherwise;
+  }
+}
+
+function decodeBoundary(text: string | null, states: number): BoundaryCondition | null {
+  if (!text) return null;
+  const [type, left = '0', right = '0'] = text.split('.');
+  if (!(type in BOUNDARY_TYPE_IDS)) return null;
+  const edge = (value: string) => {
+    const cell = Number(value);
+    return Number.isInteger(cell) && cell >= 0 && cell < states ? cell : 0;
+  };
+  return { type: type as BoundaryType, left: edge(left), right: edge(right) };
+}
+
+function decodePalette(text: string | null): string[] | null {
+  if (!text) return null;
+  const colors = text.split('.');
+  if (colors.length !== MAX_STATES || !colors.every((color) => /^[0-9a-f]{6}$/i.test(color))) return null;
+  return colors.map((color) => `#${color.toLowerCase()}`);
+}
@@ -0,0 +1,128 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { MAX_PNG_DIMENSION, MAX_PNG_PIXELS, encodeApng, encodePng } from './png';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+// Split a PNG into its chunks, checking the signature and every CRC
+function readChunks(bytes: Uint8Array): Chunk[] {
+  expect(Array.from(bytes.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(bytes.subarray(offset + 4, offset + 8 + length)));
+    chunks.push({ type, data });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Inflate image data and unpack its scanlines, which all use filter 0
+function readPixels(data: Uint8Array[], width: number, height: number, bits: number): Uint8Array {
+  const raw = inflateSync(Buffer.concat(data));
+  const stride = 1 + Math.ceil((width * bits) / 8);
+  expect(raw.length).toBe(stride * height);
+  const pixels = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    expect(raw[y * stride]).toBe(0);
+    for (let x = 0; x < width; x++) {
+      const bit = x * bits;
+      pixels[y * width + x] = (raw[y * stride + 1 + (bit >> 3)] >> (8 - bits - (bit & 7))) & ((1 << bits) - 1);
+    }
+  }
+  return pixels;
+}
+
+const PALETTE = ['#000000', '#ff0000', '#00ff00', '#0000ff', '#ffffff'];
+
+function image(width: number, height: number, colors: number, seed: number): Uint8Array {
+  return Uint8Array.from({ length: width * height }, (_, i) => (i * 7 + seed * 13 + (i >> 3)) % colors);
+}
+
+describe('encodePng', () => {
+  for (const colors of [2, 4, 5]) {
+    it(`stores ${colors} color images losslessly`, async () => {
+      const [width, height] = [13, 9];
+      const pixels = image(width, height, colors, 1);
+      const blob = await encodePng({
+        width,
+        height,
+        palette: PALETTE.slice(0, colors),
+        text: { Title: 'Rule 30' },
+        scanline: (y) => pixels.subarray(y * width, (y + 1) * width),
+      });
+      const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+      const header = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset);
+      const bits = chunks[0].data[8];
+      expect(chunks[0].type).toBe('IHDR');
+      expect([header.getUint32(0), header.getUint32(4), bits, chunks[0].data[9]]).toEqual([width, height, colors <= 2 ? 1 : colors <= 4 ? 2 : 4, 3]);
+      expect(chunks.find((chunk) => chunk.type === 'PLTE')?.data.length).toBe(colors * 3);
+      expect(new TextDecoder('latin1').decode(chunks.find((chunk) => chunk.type === 'tEXt')?.data)).toBe('Title\0Rule 30');
+      const idat = chunks.filter((chunk) => chunk.type === 'IDAT').map((chunk) => chunk.data);
+      expect(readPixels(idat, width, height, bits)).toEqual(pixels);
+      expect(chunks[chunks.length - 1].type).toBe('IEND');
+    });
+  }
+
+  it('refuses empty images', async () => {
+    await expect(encodePng({ width: 0, height: 1, palette: PALETTE, scanline: () => new Uint8Array(0) })).rejects.toThrow();
+  });
+
+  it('refuses images larger than it exports', async () => {
+    const scanline = () => new Uint8Array(0);
+    await expect(encodePng({ width: MAX_PNG_DIMENSION + 1, height: 1, palette: PALETTE, scanline })).rejects.toThrow();
+    await expect(encodePng({ width: 1 << 15, height: MAX_PNG_PIXELS >> 14, palette: PALETTE, scanline })).rejects.toThrow();
+  });
+
+  it('passes on a failing scanline after aborting the stream', async () => {
+    const scanline = (y: number) => {
+      if (y === 3) throw new Error('row gone');
+      return new Uint8Array(8);
+    };
+    await expect(encodePng({ width: 8, height: 6, palette: PALETTE, scanline })).rejects.toThrow('row gone');
+  });
+});
+
+describe('encodeApng', () => {
+  it('stores every frame in sequence', async () => {
+    const [width, height, frameCount] = [6, 4, 3];
+    const frames = Array.from({ length: frameCount }, (_, i) => image(width, height, 4, i));
+    const blob = await encodeApng({ width, height, palette: PALETTE.slice(0, 4), frameCount, frame: (i) => frames[i], fps: 5, loops: 0 });
+    const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+
+    const control = chunks.find((chunk) => chunk.type === 'acTL');
+    expect(control && new DataView(control.data.buffer, control.data.byteOffset).getUint32(0)).toBe(frameCount);
+
+    // Frame data follows each fcTL; sequence numbers count both kinds of chunk
+    const decoded: Uint8Array[] = [];
+    let sequence = 0;
+    for (const { type, data } of chunks) {
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      if (type === 'fcTL') {
+        expect(view.getUint32(0)).toBe(sequence++);
+        decoded.push(new Uint8Array(0));
+      } else if (type === 'IDAT' || type === 'fdAT') {
+        const block = type === 'IDAT' ? data : data.subarray(4);
+        if (type === 'fdAT') expect(view.getUint32(0)).toBe(sequence++);
+        const last = decoded.length - 1;
+        decoded[last] = Uint8Array.from([...decoded[last], ...block]);
+      }
+    }
+    expect(decoded.map((data) => readPixels([data], width, height, 2))).toEqual(frames);
+  });
+});
@@ -0,0 +1,238 @@
+import { parseHexColor } from './palette';
+import { AnimationOptions } from '../types/Animation';
+
+/**
+ * Minimal streaming PNG encoder for palette images, plus animated PNG.
+ *
+ * Scanlines are requested one at a time and fed straight into the
+ * browser's zlib compressor, so the image is never held uncompressed and
+ * its size is not bounded by what a canvas can allocate.
+ */
+
+export interface PngImage {
+  width: number;
+  height: number;
+  // #rrggbb colors, indexed by the pixel values of each scanline
+  palette: string[];
+  // tEXt chunks as keyword → value; both are stored as Latin-1
+  text?: Record<string, string>;
+  // Palette index of every pixel in scanline `y`. Returning the same array
+  // for consecutive lines lets the encoder reuse the packed line.
+  scanline: (y: number) => Uint8Array;
+}
+
+// Largest width or height exported. A scanline and its packed copy are
+// held at a time, so this bounds them to a few tens of megabytes.
+export const MAX_PNG_DIMENSION = 1 << 24;
+// Largest image exported; the compressed blocks are kept until the Blob is
+// built, and noisy rows barely compress
+export const MAX_PNG_PIXELS = 2 ** 30;
+
+/**
+ * Whether a `width` by `height` image is within what the encoder exports
+ */
+export function pngFits(width: number, height: number): boolean {
+  return width <= MAX_PNG_DIMENSION && height <= MAX_PNG_DIMENSION && width * height <= MAX_PNG_PIXELS;
+}
+
+const SIGNATURE = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+const COLOR_TYPE_INDEXED = 3;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array, crc = 0xffffffff): number {
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, (crc32(out.subarray(4, 8 + data.length)) ^ 0xffffffff) >>> 0);
+  return out;
+}
+
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    return code < 256 ? code : 0x3f; // '?'
+  });
+}
+
+function textChunk(keyword: string, value: string): Uint8Array {
+  // Keywords are 1-79 characters and may not contain the separator
+  const key = latin1(keyword.slice(0, 79)).map((byte) => byte || 0x20);
+  const body = latin1(value);
+  const data = new Uint8Array(key.length + 1 + body.length);
+  data.set(key);
+  data.set(body, key.length + 1);
+  return chunk('tEXt', data);
+}
+
+/**
+ * Smallest bit depth that can index `colors` palette entries
+ */
+function bitDepth(colors: number): number {
+  if (colors <= 2) return 1;
+  if (colors <= 4) return 2;
+  if (colors <= 16) return 4;
+  return 8;
+}
+
+// Filter byte (none) followed by the pixels packed at `bits` per pixel
+function packScanline(pixels: Uint8Array, bits: number): Uint8Array {
+  const perByte = 8 / bits;
+  const line = new Uint8Array(1 + Math.ceil(pixels.length / perByte));
+  for (let x = 0; x < pixels.length; x++) {
+    const shift = 8 - bits * ((x % perByte) + 1);
+    line[1 + Math.floor(x / perByte)] |= pixels[x] << shift;
+  }
+  return line;
+}
+
+function imageHeader(width: number, height: number, bits: number): Uint8Array {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = bits;
+  header[9] = COLOR_TYPE_INDEXED;
+  return chunk('IHDR', header);
+}
+
+function paletteChunk(palette: string[]): Uint8Array {
+  const colors = new Uint8Array(palette.length * 3);
+  palette.forEach((color, i) => {
+    colors.set(parseHexColor(color).map((component) => Math.round(component * 255)), i * 3);
+  });
+  return chunk('PLTE', colors);
+}
+
+function checkDimensions(width: number, height: number): void {
+  if (width < 1 || height < 1 || !pngFits(width, height)) {
+    throw new Error(`PNG dimensions ${width}x${height} are out of range`);
+  }
+}
+
+/**
+ * Filter, pack and compress `height` scanlines; the zlib stream comes back
+ * in the blocks the compressor emitted
+ */
+async function compressScanlines(height: number, scanline: (y: number) => Uint8Array, bits: number): Promise<Uint8Array[]> {
+  const blocks: Uint8Array[] = [];
+  const compressor = new CompressionStream('deflate');
+  const writer = compressor.writable.getWriter();
+  const reading = (async () => {
+    const reader = compressor.readable.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      blocks.push(value);
+    }
+  })();
+
+  // Each line is written once the compressor has taken the one before, so
+  // lines never queue up; a failure aborts the stream
+  let closed = false;
+  try {
+    let lastPixels: Uint8Array | null = null;
+    let packed = new Uint8Array(0);
+    for (let y = 0; y < height; y++) {
+      const pixels = scanline(y);
+      if (pixels !== lastPixels) {
+        packed = packScanline(pixels, bits);
+        lastPixels = pixels;
+      }
+      await writer.write(packed);
+    }
+    await writer.close();
+    closed = true;
+  } finally {
+    if (!closed) {
+      reading.catch(() => {});
+      await writer.abort().catch(() => {});
+    }
+  }
+  await reading;
+  return blocks;
+}
+
+export async function encodePng(image: PngImage): Promise<Blob> {
+  const { width, height, palette } = image;
+  checkDimensions(width, height);
+  const bits = bitDepth(palette.length);
+
+  const parts: Uint8Array[] = [SIGNATURE, imageHeader(width, height, bits), paletteChunk(palette)];
+  for (const [keyword, value] of Object.entries(image.text ?? {})) {
+    parts.push(textChunk(keyword, value));
+  }
+  // Every block the compressor emitted becomes its own IDAT chunk
+  for (const block of await compressScanlines(height, image.scanline, bits)) {
+    parts.push(chunk('IDAT', block));
+  }
+  parts.push(chunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/png' });
+}
+
+/**
+ * Animated PNG: every frame covers the whole image and replaces the one
+ * before it. Viewers without APNG support show the first frame.
+ */
+export async function encodeApng(options: AnimationOptions): Promise<Blob> {
+  const { width, height, palette, frameCount } = options;
+  checkDimensions(width, height);
+  const bits = bitDepth(palette.length);
+  const stride = width;
+
+  const control = new Uint8Array(8);
+  const controlView = new DataView(control.buffer);
+  controlView.setUint32(0, frameCount);
+  controlView.setUint32(4, options.loops);
+
+  const parts: Uint8Array[] = [SIGNATURE, imageHeader(width, height, bits), chunk('acTL', control), paletteChunk(palette)];
+  // fcTL and fdAT chunks share one sequence
+  let sequence = 0;
+
+  for (let index = 0; index < frameCount; index++) {
+    const frameControl = new Uint8Array(26);
+    const view = new DataView(frameControl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    // Offsets stay 0; the delay is 1/fps seconds
+    view.setUint16(20, 1);
+    view.setUint16(22, options.fps);
+    parts.push(chunk('fcTL', frameControl));
+
+    const pixels = options.frame(index);
+    const blocks = await compressScanlines(height, (y) => pixels.subarray(y * stride, (y + 1) * stride), bits);
+    for (const block of blocks) {
+      if (index === 0) {
+        parts.push(chunk('IDAT', block));
+      } else {
+        const data = new Uint8Array(4 + block.length);
+        new DataView(data.buffer).setUint32(0, sequence++);
+        data.set(block, 4);
+        parts.push(chunk('fdAT', data));
+      }
+    }
+  }
+
+  parts.push(chunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/apng' });
+}
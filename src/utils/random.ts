@@ -0,0 +1,91 @@
+/**
+ * Seeded random initial conditions. The same options always produce the
+ * same row, so random runs can be reproduced and shared.
+ */
+
+export type Placement = 'bernoulli' | 'fixed';
+
+export interface RandomOptions {
+  seed: number;
+  // Probability of a live (nonzero) cell, or the exact live fraction for fixed placement
+  density: number;
+  // Width of the centered block to randomize; null randomizes the whole lattice
+  window: number | null;
+  // Bernoulli draws each cell independently; fixed places exactly round(density * n) live cells
+  placement: Placement;
+}
+
+export const MAX_SEED = 0xffffffff;
+
+export const DEFAULT_RANDOM_OPTIONS: RandomOptions = {
+  seed: 1,
+  density: 0.5,
+  window: null,
+  placement: 'bernoulli',
+};
+
+/**
+ * mulberry32: small, fast and good enough for initial conditions.
+ * Returns floats in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A fresh seed for a new random run
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED) + 1;
+}
+
+/**
+ * Parse a seed typed by the user; null if it is not a whole number in range
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed <= MAX_SEED ? seed : null;
+}
+
+/**
+ * Random row of `width` cells. Live cells take a uniformly chosen nonzero state.
+ */
+export function randomRow(width: number, states: number, options: RandomOptions): Uint8Array {
+  const rng = createRng(options.seed);
+  const cells = new Uint8Array(width);
+  const size = options.window === null ? width : Math.min(width, Math.max(0, Math.floor(options.window)));
+  const start = Math.floor((width - size) / 2);
+  const density = Math.min(1, Math.max(0, options.density));
+  const liveState = () => 1 + Math.floor(rng() * (states - 1));
+
+  if (options.placement === 'fixed') {
+    // Partial Fisher-Yates shuffle picks exactly `count` distinct cells
+    const count = Math.round(density * size);
+    const order = new Uint32Array(size);
+    for (let i = 0; i < size; i++) order[i] = i;
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(rng() * (size - i));
+      const picked = order[j];
+      order[j] = order[i];
+      order[i] = picked;
+      cells[start + picked] = liveState();
+    }
+    return cells;
+  }
+
+  for (let i = start; i < start + size; i++) {
+    if (rng() < density) {
+      cells[i] = liveState();
+    }
+  }
+  return cells;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { decodeRow, encodeRow } from './rowCodec';
+import { createRng, randomRow } from './random';
+
+describe('rowCodec', () => {
+  const random = createRng(7);
+
+  for (const states of [2, 3, 4, 5, 8]) {
+    it(`round-trips rows with ${states} states`, () => {
+      for (const width of [1, 7, 8, 9, 100, 1000]) {
+        for (const density of [0, 0.02, 0.5, 1]) {
+          const row = randomRow(width, states, { seed: Math.floor(random() * 1000), density, window: null, placement: 'bernoulli' });
+          expect(decodeRow(encodeRow(row, states), width, states)).toEqual(row);
+        }
+      }
+    });
+  }
+
+  it('keeps sparse rows short', () => {
+    const row = new Uint8Array(10000);
+    row[5000] = 1;
+    expect(encodeRow(row, 2).length).toBeLessThan(40);
+  });
+
+  it('rejects damaged text', () => {
+    const row = Uint8Array.from([0, 1, 1, 0, 1, 0, 0, 1, 1]);
+    const text = encodeRow(row, 2);
+    expect(decodeRow(text, 17, 2)).toBeNull();
+    expect(decodeRow(text.slice(0, -1), 9, 2)).toBeNull();
+    expect(decodeRow(`${text}!`, 9, 2)).toBeNull();
+    // States beyond k do not fit the row
+    expect(decodeRow(encodeRow(Uint8Array.from([3, 0, 2]), 4), 3, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { bitsPerCell } from '../engine/packing';
+
+/**
+ * Compact text encoding for a single row, used in links. Cells are packed
+ * at 1, 2 or 4 bits, the bytes are run-length encoded (PackBits) since rows
+ * are often sparse, and the result is written as URL-safe base64.
+ */
+
+function packBits(bytes: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    // A run of at least three equal bytes is stored as a count and the byte
+    let run = 1;
+    while (i + run < bytes.length && run < 128 && bytes[i + run] === bytes[i]) run++;
+    if (run >= 3) {
+      out.push(257 - run, bytes[i]);
+      i += run;
+      continue;
+    }
+
+    // Otherwise copy literals up to the next run
+    let end = i;
+    while (
+      end < bytes.length &&
+      end - i < 128 &&
+      !(end + 2 < bytes.length && bytes[end] === bytes[end + 1] && bytes[end] === bytes[end + 2])
+    ) {
+      end++;
+    }
+    out.push(end - i - 1);
+    for (let j = i; j < end; j++) out.push(bytes[j]);
+    i = end;
+  }
+  return Uint8Array.from(out);
+}
+
+function unpackBits(data: Uint8Array, length: number): Uint8Array | null {
+  const out = new Uint8Array(length);
+  let o = 0;
+  let i = 0;
+  while (i < data.length && o < length) {
+    const header = data[i++];
+    if (header < 128) {
+      const count = header + 1;
+      if (i + count > data.length || o + count > length) return null;
+      out.set(data.subarray(i, i + count), o);
+      i += count;
+      o += count;
+    } else {
+      const count = 257 - header;
+      if (i >= data.length || o + count > length) return null;
+      out.fill(data[i++], o, o + count);
+      o += count;
+    }
+  }
+  return o === length && i === data.length ? out : null;
+}
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(text: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) return null;
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+export function encodeRow(row: Uint8Array, states: number): string {
+  const bits = bitsPerCell(states);
+  const perByte = 8 / bits;
+  const bytes = new Uint8Array(Math.ceil(row.length / perByte));
+  for (let i = 0; i < row.length; i++) {
+    bytes[Math.floor(i / perByte)] |= row[i] << ((i % perByte) * bits);
+  }
+  return toBase64Url(packBits(bytes));
+}
+
+/**
+ * Decode a row of `width` cells; null if the text is malformed or holds
+ * states that do not exist
+ */
+export function decodeRow(text: string, width: number, states: number): Uint8Array | null {
+  const bits = bitsPerCell(states);
+  const perByte = 8 / bits;
+  const data = fromBase64Url(text);
+  if (!data) return null;
+  const bytes = unpackBits(data, Math.ceil(width / perByte));
+  if (!bytes) return null;
+
+  const mask = (1 << bits) - 1;
+  const row = new Uint8Array(width);
+  for (let i = 0; i < width; i++) {
+    row[i] = (bytes[Math.floor(i / perByte)] >> ((i % perByte) * bits)) & mask;
+    if (row[i] >= states) return null;
+  }
+  return row;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseRowPattern } from './rowPattern';
+
+const parse = (text: string, width: number, states = 2) => {
+  const result = parseRowPattern(text, width, states);
+  return result.ok ? Array.from(result.row).join('') : result;
+};
+
+describe('parseRowPattern', () => {
+  it('centers plain cells in the lattice', () => {
+    expect(parse('101', 9)).toBe('000101000');
+    expect(parse('1 0 1', 9)).toBe('000101000');
+  });
+
+  it('grows the lattice for rows that do not fit', () => {
+    expect(parse('11011', 3)).toBe('11011');
+  });
+
+  it('repeats cells and groups', () => {
+    expect(parse('(011){2}0{2}1', 9)).toBe('011011001');
+    expect(parse('(1(02){2}){2}', 10, 3)).toBe('1020210202');
+  });
+
+  it('fills the lattice from a starred group', () => {
+    // A leading group lines up against the end of the row
+    expect(parse('(01)*', 7)).toBe('1010101');
+    expect(parse('(01)* 111', 8)).toBe('10101111');
+  });
+
+  it('keeps the phase of backgrounds on both sides of a defect', () => {
+    const row = parse('(001)* 1 (001)*', 11) as string;
+    const defect = row.indexOf('11');
+    expect(row.slice(0, defect + 1).endsWith('001')).toBe(true);
+    expect(row.slice(defect + 2).startsWith('001')).toBe(true);
+  });
+
+  it('reports errors with their position', () => {
+    expect(parse('10)', 8)).toMatchObject({ ok: false, position: 2 });
+    expect(parse('102', 8)).toMatchObject({ ok: false, position: 2 });
+    expect(parse('(10', 8)).toMatchObject({ ok: false });
+    expect(parse('', 8)).toMatchObject({ ok: false });
+  });
+});
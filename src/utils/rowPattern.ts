@@ -0,0 +1,190 @@
+import { MAX_LATTICE_WIDTH } from './lattice';
+
+/**
+ * Compact syntax for typing initial rows.
+ *
+ *   0001101                    cells, one state digit each
+ *   (011){4}  0{20}1           a cell or group repeated n times
+ *   (00010011111)* 1110111 (00010011111)*
+ *                              groups marked * repeat to fill the lattice
+ *
+ * Spaces are ignored. Without any * the row is centered in the lattice,
+ * which grows if the row does not fit. With * the fill is shared between
+ * the repeated groups; a leading one lines its copies up against the cells
+ * after it, any other against the cells before it, so a background keeps
+ * its phase on both sides of a defect.
+ */
+
+export type RowPatternResult =
+  | { ok: true; row: Uint8Array }
+  | { ok: false; error: string; position: number };
+
+interface Item {
+  cells: Uint8Array;
+  // Copies of `cells`, or 'fill' for as many as fit
+  repeat: number | 'fill';
+  position: number;
+}
+
+class PatternError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+/**
+ * Parse `text` into a row for a lattice of `width` cells and `states` states
+ */
+export function parseRowPattern(text: string, width: number, states: number): RowPatternResult {
+  try {
+    const items = new Parser(text, states).parse();
+    return { ok: true, row: layout(items, width) };
+  } catch (error) {
+    if (error instanceof PatternError) {
+      return { ok: false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly text: string, private readonly states: number) {}
+
+  parse(): Item[] {
+    const items = this.items(true);
+    if (this.position < this.text.length) {
+      throw new PatternError('Unmatched )', this.position);
+    }
+    if (items.length === 0) {
+      throw new PatternError('Pattern is empty', 0);
+    }
+    return items;
+  }
+
+  // Items up to the end of the text or of the enclosing group
+  private items(topLevel: boolean): Item[] {
+    const items: Item[] = [];
+    for (;;) {
+      this.skipSpace();
+      const char = this.text[this.position];
+      if (char === undefined || char === ')') return items;
+
+      const position = this.position;
+      let cells: Uint8Array;
+      if (char === '(') {
+        this.position++;
+        cells = expand(this.items(false), position);
+        this.skipSpace();
+        if (this.text[this.position] !== ')') {
+          throw new PatternError('Missing )', position);
+        }
+        this.position++;
+      } else if (char >= '0' && char <= '9') {
+        const state = Number(char);
+        if (state >= this.states) {
+          throw new PatternError(`State ${state} needs at least ${state + 1} states`, position);
+        }
+        cells = Uint8Array.of(state);
+        this.position++;
+      } else {
+        throw new PatternError(`Unexpected "${char}"`, position);
+      }
+
+      const repeat = this.repeat();
+      if (repeat === 'fill' && !topLevel) {
+        throw new PatternError('* only works outside parentheses', this.position - 1);
+      }
+      if (repeat === 'fill' && cells.length === 0) {
+        throw new PatternError('Cannot fill with an empty group', position);
+      }
+      items.push({ cells, repeat, position });
+    }
+  }
+
+  private repeat(): number | 'fill' {
+    this.skipSpace();
+    const char = this.text[this.position];
+    if (char === '*') {
+      this.position++;
+      return 'fill';
+    }
+    if (char !== '{') return 1;
+
+    const start = this.position;
+    const close = this.text.indexOf('}', start);
+    if (close === -1) {
+      throw new PatternError('Missing }', start);
+    }
+    const count = this.text.slice(start + 1, close).trim();
+    if (!/^\d+$/.test(count)) {
+      throw new PatternError('Expected a count like {12}', start);
+    }
+    this.position = close + 1;
+    return Number(count);
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.text[this.position] ?? '')) {
+      this.position++;
+    }
+  }
+}
+
+// Cells of a group, which can never hold fills
+function expand(items: Item[], position: number): Uint8Array {
+  const length = items.reduce((sum, item) => sum + item.cells.length * (item.repeat as number), 0);
+  if (length > MAX_LATTICE_WIDTH) {
+    throw new PatternError(`Pattern is longer than ${MAX_LATTICE_WIDTH} cells`, position);
+  }
+  const cells = new Uint8Array(length);
+  let offset = 0;
+  for (const item of items) {
+    for (let i = 0; i < (item.repeat as number); i++) {
+      cells.set(item.cells, offset);
+      offset += item.cells.length;
+    }
+  }
+  return cells;
+}
+
+function layout(items: Item[], width: number): Uint8Array {
+  const fills = items.filter((item) => item.repeat === 'fill');
+  if (fills.length === 0) {
+    const cells = expand(items, 0);
+    const row = new Uint8Array(Math.max(width, cells.length));
+    row.set(cells, Math.floor((row.length - cells.length) / 2));
+    return row;
+  }
+
+  const fixed = items.reduce((sum, item) => sum + (item.repeat === 'fill' ? 0 : item.cells.length * item.repeat), 0);
+  if (fixed > MAX_LATTICE_WIDTH) {
+    throw new PatternError(`Pattern is longer than ${MAX_LATTICE_WIDTH} cells`, 0);
+  }
+  const row = new Uint8Array(Math.max(width, fixed));
+  const spare = row.length - fixed;
+
+  let offset = 0;
+  let fillIndex = 0;
+  items.forEach((item, index) => {
+    if (item.repeat !== 'fill') {
+      for (let i = 0; i < item.repeat; i++) {
+        row.set(item.cells, offset);
+        offset += item.cells.length;
+      }
+      return;
+    }
+
+    const length = Math.floor(spare / fills.length) + (fillIndex < spare % fills.length ? 1 : 0);
+    fillIndex++;
+    const unit = item.cells;
+    // Count copies from whichever end touches the fixed cells
+    const shift = index === 0 ? (unit.length - (length % unit.length)) % unit.length : 0;
+    for (let i = 0; i < length; i++) {
+      row[offset + i] = unit[(i + shift) % unit.length];
+    }
+    offset += length;
+  });
+  return row;
+}
@@ -0,0 +1,187 @@
+/**
+ * Helpers for Wolfram-coded rules of arbitrary radius and number of states.
+ *
+ * A rule of radius r over k states looks at 2r+1 cells. A general rule has
+ * one output per neighborhood, k^(2r+1) entries, and its Wolfram code is the
+ * base-k number whose digit `pattern` is the output for that neighborhood.
+ * A totalistic rule only looks at the sum of the neighborhood, so it has
+ * (k-1)(2r+1)+1 entries indexed by that sum. Codes grow quickly (radius 3
+ * binary rules already need 128 bits), so they are carried around as BigInt.
+ *
+ * Toggle arrays keep the ordering used by the rules grid: toggles[0] is the
+ * output for the highest pattern (all cells k-1) and toggles[size - 1] the
+ * output for the all-zeros neighborhood, i.e. toggles[size - 1 - pattern] is
+ * digit `pattern` of the rule number.
+ */
+
+export const MIN_RADIUS = 1;
+export const MAX_RADIUS = 3;
+export const MIN_STATES = 2;
+export const MAX_STATES = 8;
+
+/**
+ * Largest general rule table we are willing to hold and upload to the GPU.
+ * Bigger combinations of radius and states must use totalistic rules.
+ */
+export const MAX_TABLE_SIZE = 1 << 14;
+
+export type RuleKind = 'general' | 'totalistic';
+
+export interface RuleSpec {
+  radius: number;
+  states: number;
+  kind: RuleKind;
+}
+
+/**
+ * Number of table entries for a rule of the given shape
+ */
+export function ruleTableSize({ radius, states, kind }: RuleSpec): number {
+  const span = 2 * radius + 1;
+  return kind === 'totalistic' ? (states - 1) * span + 1 : Math.pow(states, span);
+}
+
+/**
+ * Whether a general table is small enough for this radius and state count
+ */
+export function supportsGeneralRule(radius: number, states: number): boolean {
+  return Math.pow(states, 2 * radius + 1) <= MAX_TABLE_SIZE;
+}
+
+/**
+ * Largest valid rule number for the given rule shape
+ */
+export function maxRuleNumber(spec: RuleSpec): bigint {
+  return BigInt(spec.states) ** BigInt(ruleTableSize(spec)) - 1n;
+}
+
+export function ruleToToggles(rule: bigint, spec: RuleSpec): number[] {
+  const size = ruleTableSize(spec);
+  const base = BigInt(spec.states);
+  const toggles = new Array<number>(size).fill(0);
+  let remaining = rule;
+  for (let i = 0; i < size && remaining > 0n; i++) {
+    toggles[size - 1 - i] = Number(remaining % base);
+    remaining /= base;
+  }
+  return toggles;
+}
+
+export function togglesToRule(toggles: number[], states: number): bigint {
+  const base = BigInt(states);
+  let rule = 0n;
+  // toggles[0] holds the most significant digit
+  for (const digit of toggles) {
+    rule = rule * base + BigInt(digit);
+  }
+  return rule;
+}
+
+const lookupCache = new WeakMap<number[], Uint8Array>();
+
+/**
+ * Pattern-indexed lookup table for a toggles array: lookup[pattern] is the
+ * output for that neighborhood (or neighborhood sum for totalistic rules).
+ * Cached per toggles array, which the stores never mutate in place.
+ */
+export function ruleLookup(toggles: number[]): Uint8Array {
+  let lookup = lookupCache.get(toggles);
+  if (!lookup) {
+    const size = toggles.length;
+    lookup = new Uint8Array(size);
+    for (let pattern = 0; pattern < size; pattern++) {
+      lookup[pattern] = toggles[size - 1 - pattern];
+    }
+    lookupCache.set(toggles, lookup);
+  }
+  return lookup;
+}
+
+/**
+ * Re-express a rule for a different shape.
+ *
+ * Widening a general rule keeps its behaviour: the new outer cells are simply
+ * ignored. Narrowing keeps the entries whose dropped outer cells are all 0.
+ * Any other change (states or kind) keeps the table entries that still exist,
+ * clamped to the new state count, and zeroes the rest.
+ */
+export function convertRule(rule: bigint, from: RuleSpec, to: RuleSpec): bigint {
+  if (from.radius === to.radius && from.states === to.states && from.kind === to.kind) {
+    return rule;
+  }
+
+  const oldToggles = ruleToToggles(rule, from);
+  const oldLookup = ruleLookup(oldToggles);
+  const size = ruleTableSize(to);
+  const toggles = new Array<number>(size).fill(0);
+
+  if (from.kind === 'general' && to.kind === 'general' && from.states === to.states) {
+    const k = to.states;
+    const shift = Math.pow(k, Math.abs(to.radius - from.radius));
+    const oldSize = oldLookup.length;
+
+    for (let pattern = 0; pattern < size; pattern++) {
+      const source = to.radius > from.radius
+        // Drop the outer cells on both sides of the wider pattern
+        ? Math.floor(pattern / shift) % oldSize
+        // Pad the narrower pattern with zeros on both sides
+        : pattern * shift;
+      toggles[size - 1 - pattern] = oldLookup[source];
+    }
+  } else {
+    for (let pattern = 0; pattern < size && pattern < oldLookup.length; pattern++) {
+      toggles[size - 1 - pattern] = Math.min(oldLookup[pattern], to.states - 1);
+    }
+  }
+
+  return togglesToRule(toggles, to.states);
+}
+
+/**
+ * Parse a rule number typed by the user. Accepts decimal or 0x-prefixed hex.
+ * Returns null if the text is not a valid rule for the given shape.
+ */
+export function parseRule(text: string, spec: RuleSpec): bigint | null {
+  const trimmed = text.trim();
+  if (!/^(0x[0-9a-f]+|\d+)$/i.test(trimmed)) return null;
+
+  const rule = BigInt(trimmed);
+  if (rule < 0n || rule > maxRuleNumber(spec)) return null;
+  return rule;
+}
+
+/**
+ * Format a rule for display: hex for wide binary rules, decimal otherwise
+ */
+export function formatRule(rule: bigint, spec: RuleSpec): string {
+  if (spec.states !== 2 || spec.kind !== 'general' || spec.radius === 1) {
+    return rule.toString();
+  }
+  const digits = ruleTableSize(spec) / 4;
+  return '0x' + rule.toString(16).toUpperCase().padStart(digits, '0');
+}
+
+/**
+ * The Gacs–Kurdyumov–Levin density classification rule (radius 3).
+ *
+ * A 0 cell takes the majority of itself and its neighbors at -1 and -3;
+ * a 1 cell takes the majority of itself and its neighbors at +1 and +3.
+ */
+export function gklRule(): bigint {
+  const size = ruleTableSize({ radius: 3, states: 2, kind: 'general' });
+  let rule = 0n;
+
+  for (let pattern = 0; pattern < size; pattern++) {
+    // Bit 6 is the leftmost cell (offset -3), bit 0 the rightmost (offset +3)
+    const at = (offset: number) => (pattern >> (3 - offset)) & 1;
+    const center = at(0);
+    const votes = center === 0
+      ? center + at(-1) + at(-3)
+      : center + at(1) + at(3);
+    if (votes >= 2) {
+      rule |= 1n << BigInt(pattern);
+    }
+  }
+
+  return rule;
+}
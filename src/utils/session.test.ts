@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Experiment } from '../types/Experiment';
+import { SESSION_FORMAT, SESSION_VERSION, decodeSession, encodeSession } from './session';
+import { DEFAULT_PALETTE } from './palette';
+import { bitsPerCell, packCells, packedWords } from '../engine/packing';
+
+const FALLBACK: Experiment = {
+  rule: 30n,
+  radius: 1,
+  states: 2,
+  ruleKind: 'general',
+  boundary: { type: 'periodic', left: 0, right: 0 },
+  latticeWidth: 400,
+  init: { pattern: 'single' },
+  speed: 10,
+  view: { viewMode: 'fit', cellSize: 4, cellMargin: 0, colormap: 'grayscale', palette: DEFAULT_PALETTE, renderer: 'webgl' },
+};
+
+function pack(rows: Uint8Array[], states: number): Uint32Array {
+  const bits = bitsPerCell(states);
+  const rowWords = packedWords(rows[0].length, bits);
+  const words = new Uint32Array(rows.length * rowWords);
+  rows.forEach((row, i) => packCells(row, bits, words, i * rowWords));
+  return words;
+}
+
+const ROWS = [
+  Uint8Array.from([0, 1, 2, 1, 0, 0, 2, 2]),
+  Uint8Array.from([2, 2, 0, 1, 1, 1, 0, 0]),
+  Uint8Array.from([1, 0, 0, 0, 2, 2, 1, 0]),
+];
+
+describe('session', () => {
+  it('round-trips an experiment with its history', () => {
+    const experiment: Experiment = {
+      ...FALLBACK,
+      rule: 2046n,
+      radius: 1,
+      states: 3,
+      ruleKind: 'totalistic',
+      boundary: { type: 'fixed', left: 1, right: 2 },
+      latticeWidth: 8,
+      init: { pattern: 'custom', row: Uint8Array.from([0, 1, 2, 1, 0, 0, 2, 2]) },
+    };
+    const history = { firstGeneration: 17, rowCount: 3, words: pack(ROWS, 3) };
+    const result = decodeSession(encodeSession({ experiment, history }), FALLBACK);
+    expect(result).toEqual({ ok: true, session: { experiment, history } });
+  });
+
+  it('drops a history that does not fit the lattice or holds missing states', () => {
+    const experiment: Experiment = { ...FALLBACK, states: 3, ruleKind: 'totalistic', rule: 2046n, latticeWidth: 8 };
+    const encode = (words: Uint32Array) =>
+      decodeSession(encodeSession({ experiment, history: { firstGeneration: 0, rowCount: 1, words } }), FALLBACK);
+
+    expect(encode(pack([ROWS[0]], 3))).toMatchObject({ ok: true, session: { history: { rowCount: 1 } } });
+    expect(encode(new Uint32Array(2))).toMatchObject({ ok: true, session: { history: null } });
+    // Code 3 is not a state when there are three
+    expect(encode(Uint32Array.of(3))).toMatchObject({ ok: true, session: { history: null } });
+  });
+
+  it('keeps valid fields of a damaged document', () => {
+    const document = JSON.parse(encodeSession({ experiment: { ...FALLBACK, rule: 90n, speed: 3 }, history: null }));
+    document.experiment.speed = 'fast';
+    document.experiment.boundary = { type: 'sideways' };
+    const result = decodeSession(JSON.stringify(document), FALLBACK);
+    expect(result).toEqual({ ok: true, session: { experiment: { ...FALLBACK, rule: 90n }, history: null } });
+  });
+
+  it('rejects documents it cannot read', () => {
+    expect(decodeSession('{', FALLBACK).ok).toBe(false);
+    expect(decodeSession('{"format": "something else"}', FALLBACK).ok).toBe(false);
+    expect(decodeSession(JSON.stringify({ format: SESSION_FORMAT, version: SESSION_VERSION + 1 }), FALLBACK).ok).toBe(false);
+    expect(decodeSession(JSON.stringify({ format: SESSION_FORMAT, version: SESSION_VERSION, experiment: {} }), FALLBACK).ok).toBe(false);
+  });
+});
@@ -0,0 +1,283 @@
+import { Experiment, InitialCondition } from '../types/Experiment';
+import {
+  MAX_RADIUS,
+  MAX_STATES,
+  MIN_RADIUS,
+  MIN_STATES,
+  RuleKind,
+  parseRule,
+  ruleTableSize,
+  ruleToToggles,
+  supportsGeneralRule,
+  togglesToRule
+} from './rules';
+import { BOUNDARY_TYPE_IDS, BoundaryCondition, BoundaryType } from './boundary';
+import { COLORMAPS } from './colormap';
+import { MAX_SEED } from './random';
+import { clampLatticeWidth } from './lattice';
+import { decodeRow, encodeRow, fromBase64Url, toBase64Url } from './rowCodec';
+import { bitsPerCell, packedWords, unpackCells } from '../engine/packing';
+import { ViewMode } from '../renderers/geometry';
+import { RendererType } from '../renderers/RendererFactory';
+
+/**
+ * Saved sessions: an experiment, optionally with the generations it has
+ * produced, as a versioned JSON document.
+ *
+ * A change to the format bumps SESSION_VERSION, and documents of any
+ * other version are rejected rather than misread. Within a version,
+ * loading is forgiving like permalinks: a missing or invalid field falls
+ * back to the current setting, and only a missing rule rejects the
+ * document.
+ */
+
+export const SESSION_FORMAT = '1dca-session';
+export const SESSION_VERSION = 1;
+// Most packed history a session holds; longer runs keep their newest rows
+export const MAX_SESSION_HISTORY_BYTES = 1 << 24;
+
+export interface SessionHistory {
+  firstGeneration: number;
+  rowCount: number;
+  // Consecutive generations, oldest first, packed as HistoryBuffer keeps
+  // them (see packCells)
+  words: Uint32Array;
+}
+
+export interface Session {
+  experiment: Experiment;
+  history: SessionHistory | null;
+}
+
+// JSON shape of the current version. Rules are decimal strings since JSON
+// has no BigInt; the initial row uses the same encoding as permalinks and
+// the history is its packed words as little-endian base64.
+interface SessionDocument {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  savedAt: string;
+  experiment: {
+    rule: string;
+    toggles: number[];
+    radius: number;
+    states: number;
+    ruleKind: RuleKind;
+    boundary: BoundaryCondition;
+    latticeWidth: number;
+    init:
+      | { pattern: Exclude<InitialCondition['pattern'], 'custom'>; seed?: number; density?: number; window?: number | null; placement?: string }
+      | { pattern: 'custom'; row: string };
+    speed: number;
+    view: Experiment['view'];
+  };
+  history?: {
+    firstGeneration: number;
+    rowCount: number;
+    words: string;
+  };
+}
+
+const VIEW_MODES: ViewMode[] = ['fit', 'scale', 'crop', 'density'];
+const RENDERERS: RendererType[] = ['webgl', 'canvas2d'];
+
+export function encodeSession(session: Session): string {
+  const { experiment, history } = session;
+  const { init } = experiment;
+  const spec = { radius: experiment.radius, states: experiment.states, kind: experiment.ruleKind };
+
+  const document: SessionDocument = {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    savedAt: new Date().toISOString(),
+    experiment: {
+      rule: experiment.rule.toString(),
+      toggles: ruleToToggles(experiment.rule, spec),
+      radius: experiment.radius,
+      states: experiment.states,
+      ruleKind: experiment.ruleKind,
+      boundary: experiment.boundary,
+      latticeWidth: experiment.latticeWidth,
+      init:
+        init.pattern === 'custom'
+          ? { pattern: 'custom', row: encodeRow(init.row, experiment.states) }
+          : init.pattern === 'random'
+            ? { pattern: 'random', ...init.random }
+            : { pattern: init.pattern },
+      speed: experiment.speed,
+      view: experiment.view,
+    },
+  };
+  if (history) {
+    document.history = {
+      firstGeneration: history.firstGeneration,
+      rowCount: history.rowCount,
+      words: encodeWords(history.words),
+    };
+  }
+  return JSON.stringify(document, null, 2);
+}
+
+export type SessionResult = { ok: true; session: Session } | { ok: false; error: string };
+
+/**
+ * Read a saved session; fields it lacks or gets wrong come from `fallback`
+ */
+export function decodeSession(text: string, fallback: Experiment): SessionResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'Not a JSON file' };
+  }
+  if (!isRecord(parsed) || parsed.format !== SESSION_FORMAT) {
+    return { ok: false, error: 'Not a saved session' };
+  }
+
+  const { version } = parsed;
+  if (typeof version === 'number' && version > SESSION_VERSION) {
+    return { ok: false, error: `Saved by a newer version (${version}) of the explorer` };
+  }
+  if (version !== SESSION_VERSION) {
+    return { ok: false, error: `Cannot read version ${version} sessions` };
+  }
+
+  const experiment = readExperiment(parsed.experiment, fallback);
+  if (!experiment) return { ok: false, error: 'The session has no valid rule' };
+  return { ok: true, session: { experiment, history: readHistory(parsed.history, experiment) } };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readExperiment(value: unknown, fallback: Experiment): Experiment | null {
+  if (!isRecord(value)) return null;
+
+  const int = (field: unknown, min: number, max: number, otherwise: number) =>
+    typeof field === 'number' && Number.isInteger(field) && field >= min && field <= max ? field : otherwise;
+  const oneOf = <T extends string>(field: unknown, options: readonly T[], otherwise: T): T =>
+    options.includes(field as T) ? (field as T) : otherwise;
+
+  const radius = int(value.radius, MIN_RADIUS, MAX_RADIUS, fallback.radius);
+  const states = int(value.states, MIN_STATES, MAX_STATES, fallback.states);
+  let ruleKind = oneOf<RuleKind>(value.ruleKind, ['general', 'totalistic'], fallback.ruleKind);
+  if (!supportsGeneralRule(radius, states)) ruleKind = 'totalistic';
+  const spec = { radius, states, kind: ruleKind };
+
+  // The rule number wins; the toggles are kept for readers of the file
+  let rule = typeof value.rule === 'string' ? parseRule(value.rule, spec) : null;
+  const toggles = value.toggles;
+  if (
+    rule === null &&
+    Array.isArray(toggles) &&
+    toggles.length === ruleTableSize(spec) &&
+    toggles.every((toggle) => Number.isInteger(toggle) && toggle >= 0 && toggle < states)
+  ) {
+    rule = togglesToRule(toggles, states);
+  }
+  if (rule === null) return null;
+
+  const latticeWidth = clampLatticeWidth(int(value.latticeWidth, 1, Number.MAX_SAFE_INTEGER, fallback.latticeWidth));
+  const view = isRecord(value.view) ? value.view : {};
+  const palette = view.palette;
+
+  return {
+    rule,
+    radius,
+    states,
+    ruleKind,
+    boundary: readBoundary(value.boundary, states) ?? fallback.boundary,
+    latticeWidth,
+    init: readInit(value.init, latticeWidth, states) ?? fallback.init,
+    speed: int(value.speed, 1, 1000, fallback.speed),
+    view: {
+      viewMode: oneOf(view.viewMode, VIEW_MODES, fallback.view.viewMode),
+      cellSize: int(view.cellSize, 1, 20, fallback.view.cellSize),
+      cellMargin: int(view.cellMargin, 0, 20, fallback.view.cellMargin),
+      colormap: oneOf(view.colormap, COLORMAPS, fallback.view.colormap),
+      palette:
+        Array.isArray(palette) &&
+        palette.length === MAX_STATES &&
+        palette.every((color) => typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color))
+          ? palette.map((color: string) => color.toLowerCase())
+          : fallback.view.palette,
+      renderer: oneOf(view.renderer, RENDERERS, fallback.view.renderer),
+    },
+  };
+}
+
+function readBoundary(value: unknown, states: number): BoundaryCondition | null {
+  if (!isRecord(value) || typeof value.type !== 'string' || !(value.type in BOUNDARY_TYPE_IDS)) return null;
+  const edge = (cell: unknown) => (typeof cell === 'number' && Number.isInteger(cell) && cell >= 0 && cell < states ? cell : 0);
+  return { type: value.type as BoundaryType, left: edge(value.left), right: edge(value.right) };
+}
+
+function readInit(value: unknown, width: number, states: number): InitialCondition | null {
+  if (!isRecord(value)) return null;
+  switch (value.pattern) {
+    case 'single':
+    case 'filled':
+    case 'empty':
+    case 'alternating':
+      return { pattern: value.pattern };
+    case 'random': {
+      const { seed, density, window, placement } = value;
+      if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) return null;
+      return {
+        pattern: 'random',
+        random: {
+          seed,
+          density: typeof density === 'number' && density >= 0 && density <= 1 ? density : 0.5,
+          window: typeof window === 'number' && window >= 0 ? Math.min(width, Math.floor(window)) : null,
+          placement: placement === 'fixed' ? 'fixed' : 'bernoulli',
+        },
+      };
+    }
+    case 'custom': {
+      const row = typeof value.row === 'string' ? decodeRow(value.row, width, states) : null;
+      return row ? { pattern: 'custom', row } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function readHistory(value: unknown, experiment: Experiment): SessionHistory | null {
+  if (!isRecord(value) || typeof value.words !== 'string') return null;
+  const { firstGeneration, rowCount } = value;
+  if (typeof firstGeneration !== 'number' || !Number.isInteger(firstGeneration) || firstGeneration < 0) return null;
+  if (typeof rowCount !== 'number' || !Number.isInteger(rowCount) || rowCount < 1) return null;
+
+  const { latticeWidth: width, states } = experiment;
+  const bits = bitsPerCell(states);
+  const rowWords = packedWords(width, bits);
+  const words = decodeWords(value.words);
+  if (!words || words.length !== rowCount * rowWords) return null;
+
+  // A damaged row would break the run of generations, so drop them all.
+  // Only state counts short of a power of two leave codes unused.
+  const row = new Uint8Array(width);
+  for (let i = 0; states < 1 << bits && i < rowCount; i++) {
+    unpackCells(words, width, bits, i * rowWords, row);
+    if (row.some((cell) => cell >= states)) return null;
+  }
+  return { firstGeneration, rowCount, words };
+}
+
+function encodeWords(words: Uint32Array): string {
+  const bytes = new Uint8Array(words.length * 4);
+  const view = new DataView(bytes.buffer);
+  words.forEach((word, i) => view.setUint32(i * 4, word, true));
+  return toBase64Url(bytes);
+}
+
+function decodeWords(text: string): Uint32Array | null {
+  const bytes = fromBase64Url(text);
+  if (!bytes || bytes.length % 4 !== 0) return null;
+  const view = new DataView(bytes.buffer);
+  return Uint32Array.from({ length: bytes.length / 4 }, (_, i) => view.getUint32(i * 4, true));
+}
+
+export async function readSessionFile(file: File, fallback: Experiment): Promise<SessionResult> {
+  return decodeSession(await file.text(), fallback);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DataFormat, decodeLastRow, encodeSpacetime } from './spacetimeData';
+import { createRng, randomRow } from './random';
+
+const FORMATS: DataFormat[] = ['csv', 'binary', 'npy'];
+
+async function encode(format: DataFormat, rows: Uint8Array[], states: number, firstGeneration = 0): Promise<Uint8Array> {
+  const blob = encodeSpacetime(format, rows.length, (index) => rows[index], states, firstGeneration);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('spacetimeData', () => {
+  const random = createRng(99);
+
+  for (const format of FORMATS) {
+    for (const states of [2, 3, 4, 7]) {
+      it(`reads back the last row of a ${format} file with ${states} states`, async () => {
+        for (const width of [8, 13, 64]) {
+          const rows = Array.from({ length: 4 }, () =>
+            randomRow(width, states, { seed: Math.floor(random() * 1000), density: 0.5, window: null, placement: 'bernoulli' })
+          );
+          const result = decodeLastRow(await encode(format, rows, states));
+          expect(result).toEqual({ ok: true, row: rows[rows.length - 1], format });
+        }
+      });
+    }
+  }
+
+  it('writes the binary header and packs cells most significant bits first', async () => {
+    const data = await encode('binary', [Uint8Array.from([1, 0, 0, 0, 0, 0, 0, 1, 1]), Uint8Array.from([3, 0, 1, 2, 0, 0, 0, 0, 0])], 4, 42);
+    const view = new DataView(data.buffer);
+    expect(new TextDecoder().decode(data.subarray(0, 4))).toBe('CA1D');
+    expect(Array.from(data.subarray(4, 7))).toEqual([1, 2, 4]);
+    expect([view.getUint32(8, true), view.getUint32(12, true), view.getUint32(16, true)]).toEqual([9, 2, 42]);
+    // 2 bits per cell: four cells per byte, three bytes per row
+    expect(Array.from(data.subarray(20))).toEqual([0x40, 0x01, 0x40, 0xc6, 0x00, 0x00]);
+  });
+
+  it('aligns the .npy data to 64 bytes', async () => {
+    const rows = [Uint8Array.from([0, 1, 2]), Uint8Array.from([2, 1, 0])];
+    const data = await encode('npy', rows, 3);
+    expect(data.length % 64).toBe(6);
+    expect(Array.from(data.subarray(data.length - 6))).toEqual([0, 1, 2, 2, 1, 0]);
+    expect(new TextDecoder('latin1').decode(data.subarray(10, data.length - 6))).toContain("'shape': (2, 3)");
+  });
+
+  it('rejects files that are not spacetime data', () => {
+    const text = (value: string) => new TextEncoder().encode(value);
+    expect(decodeLastRow(text('')).ok).toBe(false);
+    expect(decodeLastRow(text('0,1\n0,x\n')).ok).toBe(false);
+    expect(decodeLastRow(text('CA1D')).ok).toBe(false);
+  });
+
+  it('rejects last rows narrower than a lattice can be', async () => {
+    for (const format of FORMATS) {
+      const rows = [Uint8Array.from([1, 0, 1, 1, 0]), Uint8Array.from([0, 1, 1, 0, 1])];
+      expect(decodeLastRow(await encode(format, rows, 2))).toEqual({ ok: false, error: 'Rows must have 8 to 16777216 cells' });
+    }
+  });
+});
@@ -0,0 +1,213 @@
+import { MAX_STATES } from './rules';
+import { MAX_LATTICE_WIDTH, MIN_LATTICE_WIDTH } from './lattice';
+import { bitsPerCell } from '../engine/packing';
+
+/**
+ * Raw spacetime data for analysis elsewhere, one row per generation.
+ *
+ * - CSV: one line per generation, cell states separated by commas.
+ * - Packed binary (.ca1d): a 20 byte little-endian header followed by the
+ *   rows, each padded to whole bytes with cells packed most significant
+ *   bits first, so `np.unpackbits` reads 1-bit files directly.
+ *
+ *     0  magic "CA1D"        8  width (u32)
+ *     4  version (u8) = 1   12  rows (u32)
+ *     5  bits per cell (u8) 16  first generation (u32)
+ *     6  states (u8)
+ *     7  reserved (u8)
+ *
+ * - NumPy .npy (format 1.0): a uint8 array of shape (rows, width).
+ */
+
+export type DataFormat = 'csv' | 'binary' | 'npy';
+
+export const DATA_EXTENSIONS: Record<DataFormat, string> = {
+  csv: 'csv',
+  binary: 'ca1d',
+  npy: 'npy',
+};
+
+const BINARY_MAGIC = 'CA1D';
+const BINARY_VERSION = 1;
+const BINARY_HEADER_SIZE = 20;
+const NPY_MAGIC = '\x93NUMPY';
+
+/**
+ * Encode `rowCount` rows, fetched in order by `getRow`
+ */
+export function encodeSpacetime(
+  format: DataFormat,
+  rowCount: number,
+  getRow: (index: number) => Uint8Array,
+  states: number,
+  firstGeneration: number
+): Blob {
+  const width = rowCount > 0 ? getRow(0).length : 0;
+  const parts: BlobPart[] = [];
+
+  if (format === 'csv') {
+    for (let r = 0; r < rowCount; r++) {
+      parts.push(getRow(r).join(',') + '\n');
+    }
+    return new Blob(parts, { type: 'text/csv' });
+  }
+
+  if (format === 'binary') {
+    const bits = bitsPerCell(states);
+    const header = new Uint8Array(BINARY_HEADER_SIZE);
+    const view = new DataView(header.buffer);
+    for (let i = 0; i < 4; i++) header[i] = BINARY_MAGIC.charCodeAt(i);
+    header[4] = BINARY_VERSION;
+    header[5] = bits;
+    header[6] = states;
+    view.setUint32(8, width, true);
+    view.setUint32(12, rowCount, true);
+    view.setUint32(16, firstGeneration, true);
+    parts.push(header);
+
+    const perByte = 8 / bits;
+    for (let r = 0; r < rowCount; r++) {
+      const row = getRow(r);
+      const packed = new Uint8Array(Math.ceil(width / perByte));
+      for (let x = 0; x < width; x++) {
+        packed[Math.floor(x / perByte)] |= row[x] << (8 - bits * ((x % perByte) + 1));
+      }
+      parts.push(packed);
+    }
+    return new Blob(parts, { type: 'application/octet-stream' });
+  }
+
+  // The header is padded with spaces so the data starts on a 64 byte boundary
+  let dict = `{'descr': '|u1', 'fortran_order': False, 'shape': (${rowCount}, ${width}), }`;
+  const unpadded = NPY_MAGIC.length + 2 + 2 + dict.length + 1;
+  dict += ' '.repeat((64 - (unpadded % 64)) % 64) + '\n';
+  const header = new Uint8Array(NPY_MAGIC.length + 4 + dict.length);
+  for (let i = 0; i < NPY_MAGIC.length; i++) header[i] = NPY_MAGIC.charCodeAt(i);
+  header[6] = 1;
+  header[7] = 0;
+  new DataView(header.buffer).setUint16(8, dict.length, true);
+  for (let i = 0; i < dict.length; i++) header[10 + i] = dict.charCodeAt(i);
+  parts.push(header);
+  for (let r = 0; r < rowCount; r++) {
+    parts.push(getRow(r));
+  }
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
+
+export type LastRowResult =
+  | { ok: true; row: Uint8Array; format: DataFormat }
+  | { ok: false; error: string };
+
+/**
+ * Read the last row of a file in any of the export formats; the format is
+ * recognized from its contents
+ */
+export function decodeLastRow(data: Uint8Array): LastRowResult {
+  const starts = (magic: string) => magic.split('').every((char, i) => data[i] === char.charCodeAt(0));
+  let result: LastRowResult;
+  if (starts(BINARY_MAGIC)) {
+    result = decodeBinary(data);
+  } else if (starts(NPY_MAGIC)) {
+    result = decodeNpy(data);
+  } else {
+    result = decodeCsv(new TextDecoder().decode(data));
+  }
+
+  if (result.ok) {
+    // A row is loaded as the whole lattice, so it must be a width one can have
+    if (result.row.length < MIN_LATTICE_WIDTH || result.row.length > MAX_LATTICE_WIDTH) {
+      return { ok: false, error: `Rows must have ${MIN_LATTICE_WIDTH} to ${MAX_LATTICE_WIDTH} cells` };
+    }
+    const highest = result.row.reduce((max, cell) => Math.max(max, cell), 0);
+    if (highest >= MAX_STATES) {
+      return { ok: false, error: `State ${highest} is beyond the ${MAX_STATES} supported states` };
+    }
+  }
+  return result;
+}
+
+function decodeCsv(text: string): LastRowResult {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) return { ok: false, error: 'The file is empty' };
+  const fields = lines[lines.length - 1].trim().split(/[\s,;]+/);
+  const row = new Uint8Array(fields.length);
+  for (let i = 0; i < fields.length; i++) {
+    const value = Number(fields[i]);
+    if (!Number.isInteger(value) || value < 0 || value > 255) {
+      return { ok: false, error: `"${fields[i]}" on the last line is not a cell state` };
+    }
+    row[i] = value;
+  }
+  return { ok: true, row, format: 'csv' };
+}
+
+function decodeBinary(data: Uint8Array): LastRowResult {
+  if (data.length < BINARY_HEADER_SIZE) return { ok: false, error: 'The header is truncated' };
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const bits = data[5];
+  if (data[4] !== BINARY_VERSION) return { ok: false, error: `Unsupported version ${data[4]}` };
+  if (![1, 2, 4].includes(bits)) return { ok: false, error: `Unsupported ${bits} bits per cell` };
+
+  const width = view.getUint32(8, true);
+  const rows = view.getUint32(12, true);
+  const perByte = 8 / bits;
+  const rowBytes = Math.ceil(width / perByte);
+  if (rows === 0) return { ok: false, error: 'The file has no rows' };
+  if (data.length < BINARY_HEADER_SIZE + rows * rowBytes) return { ok: false, error: 'The data is truncated' };
+
+  const offset = BINARY_HEADER_SIZE + (rows - 1) * rowBytes;
+  const mask = (1 << bits) - 1;
+  const row = new Uint8Array(width);
+  for (let x = 0; x < width; x++) {
+    row[x] = (data[offset + Math.floor(x / perByte)] >> (8 - bits * ((x % perByte) + 1))) & mask;
+  }
+  return { ok: true, row, format: 'binary' };
+}
+
+function decodeNpy(data: Uint8Array): LastRowResult {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const major = data[6];
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerStart = major === 1 ? 10 : 12;
+  const header = new TextDecoder('latin1').decode(data.subarray(headerStart, headerStart + headerLength));
+
+  const descr = /'descr':\s*'([<>|=])([biu])(\d)'/.exec(header);
+  const shape = /'shape':\s*\(([^)]*)\)/.exec(header);
+  if (!descr || !shape) return { ok: false, error: 'Unrecognized .npy header' };
+  const [, order, kind, sizeText] = descr;
+  const size = Number(sizeText);
+  if (order === '>' && size > 1) return { ok: false, error: 'Big-endian arrays are not supported' };
+  if (![1, 2, 4, 8].includes(size)) return { ok: false, error: `Unsupported item size ${size}` };
+
+  const dims = shape[1].split(',').map((dim) => dim.trim()).filter(Boolean).map(Number);
+  if (dims.length < 1 || dims.length > 2) return { ok: false, error: 'Expected a 1D or 2D array' };
+  const [rows, width] = dims.length === 1 ? [1, dims[0]] : dims;
+  if (rows === 0) return { ok: false, error: 'The array has no rows' };
+  const fortran = /'fortran_order':\s*True/.test(header);
+  const dataStart = headerStart + headerLength;
+  if (data.length < dataStart + rows * width * size) return { ok: false, error: 'The data is truncated' };
+
+  const row = new Uint8Array(width);
+  for (let x = 0; x < width; x++) {
+    const index = fortran ? x * rows + rows - 1 : (rows - 1) * width + x;
+    const value = readInteger(view, dataStart + index * size, size, kind === 'i');
+    if (value < 0 || value > 255) {
+      return { ok: false, error: `Value ${value} is not a cell state` };
+    }
+    row[x] = value;
+  }
+  return { ok: true, row, format: 'npy' };
+}
+
+function readInteger(view: DataView, at: number, size: number, signed: boolean): number {
+  switch (size) {
+    case 1:
+      return signed ? view.getInt8(at) : view.getUint8(at);
+    case 2:
+      return signed ? view.getInt16(at, true) : view.getUint16(at, true);
+    case 4:
+      return signed ? view.getInt32(at, true) : view.getUint32(at, true);
+    default:
+      return Number(signed ? view.getBigInt64(at, true) : view.getBigUint64(at, true));
+  }
+}
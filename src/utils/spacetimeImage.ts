@@ -0,0 +1,51 @@
+/**
+ * Pixel layout of an exported spacetime diagram: one row of cells per
+ * generation, oldest at the top, drawn at a fixed cell size with optional
+ * gaps between cells and a margin around the picture. Gaps and margins use
+ * state 0, like the background on screen.
+ */
+
+export interface SpacetimeLayout {
+  cellSize: number;
+  cellGap: number;
+  margin: number;
+}
+
+export function spacetimeSize(cellCount: number, rowCount: number, layout: SpacetimeLayout): { width: number; height: number } {
+  const span = (count: number) => 2 * layout.margin + count * layout.cellSize + Math.max(0, count - 1) * layout.cellGap;
+  return { width: span(cellCount), height: span(rowCount) };
+}
+
+/**
+ * Scanline source for the image: pixel states of scanline `y`. Rows are
+ * fetched in order as they are needed, and each line is reused for every
+ * scanline of its row.
+ */
+export function spacetimeScanlines(
+  cellCount: number,
+  rowCount: number,
+  getRow: (index: number) => Uint8Array,
+  layout: SpacetimeLayout
+): (y: number) => Uint8Array {
+  const { cellSize, cellGap, margin } = layout;
+  const pitch = cellSize + cellGap;
+  const { width } = spacetimeSize(cellCount, rowCount, layout);
+  const blank = new Uint8Array(width);
+  let lineRow = -1;
+  let line = blank;
+
+  return (y) => {
+    const offset = y - margin;
+    const row = Math.floor(offset / pitch);
+    if (offset < 0 || row >= rowCount || offset % pitch >= cellSize) return blank;
+    if (row !== lineRow) {
+      const cells = getRow(row);
+      line = new Uint8Array(width);
+      for (let x = 0; x < cellCount; x++) {
+        if (cells[x]) line.fill(cells[x], margin + x * pitch, margin + x * pitch + cellSize);
+      }
+      lineRow = row;
+    }
+    return line;
+  };
+}
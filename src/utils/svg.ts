@@ -0,0 +1,134 @@
+import { SpacetimeLayout, spacetimeSize } from './spacetimeImage';
+
+/**
+ * Vector spacetime diagrams for figures. Cells follow the same geometry as
+ * the PNG export and the canvas: squares of `cellSize` spaced `cellGap`
+ * apart. Consecutive cells in the same live state become a single rect
+ * spanning the gaps between them, which keeps files small for all but the
+ * noisiest patterns.
+ */
+
+export interface SvgOptions extends SpacetimeLayout {
+  // #rrggbb colors per state; state 0 fills the plot background
+  palette: string[];
+  // Hairlines along every cell and generation boundary
+  gridLines: boolean;
+  // Ticks and labels for cell index (top) and generation (left)
+  axes: boolean;
+  caption: string | null;
+  // Labels of the first row and cell of the region
+  firstGeneration: number;
+  firstCell: number;
+}
+
+// Space reserved for the axis labels and the caption
+const AXIS_LEFT = 48;
+const AXIS_TOP = 24;
+const CAPTION_HEIGHT = 28;
+const TICK_LENGTH = 4;
+// Closest that tick labels may get, in pixels
+const MIN_TICK_SPACING = 48;
+const FONT = 'font-family="sans-serif" font-size="10"';
+
+/**
+ * Smallest 1, 2 or 5 × 10^n step that keeps ticks `minSpacing` apart
+ */
+export function tickStep(pixelsPerUnit: number, minSpacing = MIN_TICK_SPACING): number {
+  const raw = minSpacing / pixelsPerUnit;
+  const power = Math.pow(10, Math.floor(Math.log10(Math.max(raw, 1))));
+  for (const factor of [1, 2, 5, 10]) {
+    if (factor * power >= raw) return factor * power;
+  }
+  return 10 * power;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char]!);
+}
+
+/**
+ * SVG document for `rows` (oldest first), all of the same length
+ */
+export function spacetimeSvg(rows: Uint8Array[], options: SvgOptions): string {
+  const { cellSize, cellGap, margin, palette } = options;
+  const cellCount = rows[0]?.length ?? 0;
+  const pitch = cellSize + cellGap;
+  const plot = spacetimeSize(cellCount, rows.length, { cellSize, cellGap, margin: 0 });
+  const left = margin + (options.axes ? AXIS_LEFT : 0);
+  const top = margin + (options.axes ? AXIS_TOP : 0);
+  const width = left + plot.width + margin;
+  const height = top + plot.height + (options.caption ? CAPTION_HEIGHT : 0) + margin;
+
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect x="${left}" y="${top}" width="${plot.width}" height="${plot.height}" fill="${palette[0]}"/>`,
+  ];
+
+  // Runs of live cells, grouped by state so each color is written once
+  const runs: string[][] = palette.map(() => []);
+  rows.forEach((row, r) => {
+    const y = top + r * pitch;
+    let x = 0;
+    while (x < row.length) {
+      const state = row[x];
+      let end = x + 1;
+      while (end < row.length && row[end] === state) end++;
+      if (state !== 0) {
+        runs[state].push(`<rect x="${left + x * pitch}" y="${y}" width="${(end - x) * pitch - cellGap}" height="${cellSize}"/>`);
+      }
+      x = end;
+    }
+  });
+  out.push('<g shape-rendering="crispEdges">');
+  runs.forEach((rects, state) => {
+    if (rects.length > 0) out.push(`<g fill="${palette[state]}">`, ...rects, '</g>');
+  });
+  out.push('</g>');
+
+  if (options.gridLines) {
+    const lines: string[] = [];
+    for (let x = 0; x <= cellCount; x++) {
+      const px = left + Math.min(x * pitch, plot.width);
+      lines.push(`M${px} ${top}V${top + plot.height}`);
+    }
+    for (let y = 0; y <= rows.length; y++) {
+      const py = top + Math.min(y * pitch, plot.height);
+      lines.push(`M${left} ${py}H${left + plot.width}`);
+    }
+    out.push(`<path d="${lines.join('')}" stroke="#808080" stroke-width="0.25" fill="none"/>`);
+  }
+
+  if (options.axes) {
+    const ticks: string[] = [];
+    const labels: string[] = [];
+    // Ticks sit on the centers of the cells and rows they label
+    const step = tickStep(pitch);
+    const firstCellTick = Math.ceil(options.firstCell / step) * step;
+    for (let cell = firstCellTick; cell < options.firstCell + cellCount; cell += step) {
+      const x = left + (cell - options.firstCell) * pitch + cellSize / 2;
+      ticks.push(`M${x} ${top}v${-TICK_LENGTH}`);
+      labels.push(`<text x="${x}" y="${top - TICK_LENGTH - 2}" text-anchor="middle">${cell}</text>`);
+    }
+    const firstGenerationTick = Math.ceil(options.firstGeneration / step) * step;
+    for (let generation = firstGenerationTick; generation < options.firstGeneration + rows.length; generation += step) {
+      const y = top + (generation - options.firstGeneration) * pitch + cellSize / 2;
+      ticks.push(`M${left} ${y}h${-TICK_LENGTH}`);
+      labels.push(`<text x="${left - TICK_LENGTH - 2}" y="${y}" text-anchor="end" dominant-baseline="middle">${generation}</text>`);
+    }
+    out.push(
+      `<path d="${ticks.join('')}" stroke="#000" stroke-width="1" fill="none"/>`,
+      `<g ${FONT} fill="#000">`,
+      ...labels,
+      '</g>'
+    );
+  }
+
+  if (options.caption) {
+    out.push(
+      `<text x="${left + plot.width / 2}" y="${top + plot.height + CAPTION_HEIGHT - 8}" text-anchor="middle" ${FONT} fill="#000">${escapeXml(options.caption)}</text>`
+    );
+  }
+
+  out.push('</svg>');
+  return out.join('\n');
+}
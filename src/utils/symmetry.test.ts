@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { RuleSpec } from './rules';
+import { classRepresentative, complementRule, equivalenceClass, mirrorRule } from './symmetry';
+
+const elementary: RuleSpec = { radius: 1, states: 2, kind: 'general' };
+const totalistic: RuleSpec = { radius: 1, states: 3, kind: 'totalistic' };
+
+describe('mirrorRule and complementRule', () => {
+  it('map elementary rules to their known partners', () => {
+    expect(mirrorRule(110n, elementary)).toBe(124n);
+    expect(complementRule(110n, elementary)).toBe(137n);
+    expect(mirrorRule(30n, elementary)).toBe(86n);
+    expect(complementRule(30n, elementary)).toBe(135n);
+  });
+
+  it('are involutions', () => {
+    for (let rule = 0n; rule < 256n; rule++) {
+      expect(mirrorRule(mirrorRule(rule, elementary), elementary)).toBe(rule);
+      expect(complementRule(complementRule(rule, elementary), elementary)).toBe(rule);
+    }
+  });
+
+  it('leave totalistic rules unmirrored and complement their sums', () => {
+    // Code 1 outputs 1 for sum 0 only; its complement outputs 1 for sum 6 and 2 otherwise
+    expect(mirrorRule(1n, totalistic)).toBe(1n);
+    expect(complementRule(1n, totalistic)).toBe(1457n);
+    expect(complementRule(1457n, totalistic)).toBe(1n);
+  });
+});
+
+describe('classRepresentative', () => {
+  it('splits the elementary rules into 88 classes', () => {
+    const classes = new Set<bigint>();
+    for (let rule = 0n; rule < 256n; rule++) classes.add(classRepresentative(rule, elementary));
+    expect(classes.size).toBe(88);
+  });
+
+  it('names each class by its smallest rule', () => {
+    expect(equivalenceClass(110n, elementary)).toEqual([110n, 124n, 137n, 193n]);
+    expect(classRepresentative(137n, elementary)).toBe(110n);
+    expect(classRepresentative(135n, elementary)).toBe(30n);
+    expect(classRepresentative(1457n, totalistic)).toBe(1n);
+  });
+});
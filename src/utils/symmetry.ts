@@ -0,0 +1,82 @@
+import { RuleSpec, ruleTableSize, ruleToToggles, togglesToRule } from './rules';
+
+/**
+ * Symmetries of rules. Reflecting every neighborhood left to right, or
+ * swapping state s for k-1-s in both the cells and the output, turns a rule
+ * into one that behaves identically up to that transformation of the
+ * picture. Together with their combination they split the 256 elementary
+ * rules into 88 equivalence classes.
+ *
+ * Totalistic rules only see the neighborhood sum, so they are their own
+ * mirror image; complementing maps sum σ to (2r+1)(k-1) - σ.
+ */
+
+function transform(rule: bigint, spec: RuleSpec, source: (pattern: number) => number, output: (state: number) => number): bigint {
+  const toggles = ruleToToggles(rule, spec);
+  const size = ruleTableSize(spec);
+  const next = new Array<number>(size);
+  for (let pattern = 0; pattern < size; pattern++) {
+    next[size - 1 - pattern] = output(toggles[size - 1 - source(pattern)]);
+  }
+  return togglesToRule(next, spec.states);
+}
+
+function patternDigits(pattern: number, spec: RuleSpec): number[] {
+  const digits = new Array<number>(2 * spec.radius + 1);
+  for (let i = digits.length - 1; i >= 0; i--) {
+    digits[i] = pattern % spec.states;
+    pattern = Math.floor(pattern / spec.states);
+  }
+  return digits;
+}
+
+function digitsPattern(digits: number[], states: number): number {
+  return digits.reduce((pattern, digit) => pattern * states + digit, 0);
+}
+
+/**
+ * The rule that produces the mirror image of every run
+ */
+export function mirrorRule(rule: bigint, spec: RuleSpec): bigint {
+  if (spec.kind === 'totalistic') return rule;
+  return transform(
+    rule,
+    spec,
+    (pattern) => digitsPattern(patternDigits(pattern, spec).reverse(), spec.states),
+    (state) => state
+  );
+}
+
+/**
+ * The rule that produces every run with its states complemented
+ */
+export function complementRule(rule: bigint, spec: RuleSpec): bigint {
+  const top = spec.states - 1;
+  const source =
+    spec.kind === 'totalistic'
+      ? (sum: number) => (2 * spec.radius + 1) * top - sum
+      : (pattern: number) => digitsPattern(patternDigits(pattern, spec).map((digit) => top - digit), spec.states);
+  return transform(rule, spec, source, (state) => top - state);
+}
+
+/**
+ * The rule, its mirror, complement and mirror-complement, in that order
+ */
+export function ruleSymmetries(rule: bigint, spec: RuleSpec): [bigint, bigint, bigint, bigint] {
+  const mirror = mirrorRule(rule, spec);
+  return [rule, mirror, complementRule(rule, spec), complementRule(mirror, spec)];
+}
+
+/**
+ * Distinct members of the rule's equivalence class, smallest first
+ */
+export function equivalenceClass(rule: bigint, spec: RuleSpec): bigint[] {
+  return [...new Set(ruleSymmetries(rule, spec))].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * The conventional name of a class: its smallest rule number
+ */
+export function classRepresentative(rule: bigint, spec: RuleSpec): bigint {
+  return equivalenceClass(rule, spec)[0];
+}